@@ -0,0 +1,184 @@
+//--
+// Frequency band extraction
+//
+// createBandAnalyser groups an analyser's FFT bins into a configurable number
+// of log- or mel-spaced bands, so each octave gets a fair share of the bands
+// rather than the bass landing in the first few bins. Each band is then gain
+// normalized against its own recent peak and smoothed with separate attack and
+// release times, giving levels from 0 to 1 that look the same whatever the
+// track or volume.
+//--
+
+export type BandScale = "log" | "mel";
+
+export interface BandOptions {
+  // Of the AudioContext and AnalyserNode the spectrum comes from
+  sampleRate: number;
+  fftSize: number;
+  count?: number;
+  scale?: BandScale;
+  // Range covered by the bands, in Hz; capped at the Nyquist frequency
+  minFrequency?: number;
+  maxFrequency?: number;
+  // Seconds for a band to rise, or fall, most of the way to a new level
+  attack?: number;
+  release?: number;
+  // Normalize each band against its recent peak, so that quiet and loud
+  // tracks fill the same range. Otherwise levels span the fixed
+  // minDecibels to maxDecibels.
+  autoGain?: boolean;
+  // Decibels below the peak that a band reads as 0 when auto gain is on
+  dynamicRange?: number;
+  // How fast a band's peak falls back after a loud passage, in dB per second
+  peakDecay?: number;
+  // Bands quieter than this, in dB, read as 0 whatever their peak: peaks are
+  // held at least dynamicRange above it, so silence and hiss aren't boosted
+  noiseFloor?: number;
+  minDecibels?: number;
+  maxDecibels?: number;
+}
+
+// A bin's share of a band, by how much of the bin's width the band covers
+interface BinWeight {
+  bin: number;
+  weight: number;
+}
+
+function toMel(frequency: number) {
+  return 2595 * Math.log10(1 + frequency / 700);
+}
+
+function fromMel(mel: number) {
+  return 700 * (10 ** (mel / 2595) - 1);
+}
+
+// The count + 1 frequencies, in Hz, that bound the bands, lowest first
+export function bandEdges(
+  count: number,
+  scale: BandScale,
+  minFrequency: number,
+  maxFrequency: number,
+) {
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error(`Invalid band count: ${count}`);
+  }
+  if (!(minFrequency > 0 && maxFrequency > minFrequency)) {
+    throw new Error(
+      `Invalid band frequency range: ${minFrequency} to ${maxFrequency}`,
+    );
+  }
+  const [to, from] = scale === "mel" ? [toMel, fromMel] : [Math.log, Math.exp];
+  const low = to(minFrequency);
+  const high = to(maxFrequency);
+  return Array.from({ length: count + 1 }, (_, i) =>
+    from(low + ((high - low) * i) / count),
+  );
+}
+
+// Bin i is centred on i * binWidth, so covers half a bin either side
+function binWeights(low: number, high: number, binWidth: number, bins: number) {
+  const weights: BinWeight[] = [];
+  const first = Math.max(0, Math.round(low / binWidth));
+  const last = Math.min(bins - 1, Math.round(high / binWidth));
+  for (let bin = first; bin <= last; bin++) {
+    const overlap =
+      Math.min(high, (bin + 0.5) * binWidth) -
+      Math.max(low, (bin - 0.5) * binWidth);
+    if (overlap > 0) {
+      weights.push({ bin, weight: overlap });
+    }
+  }
+  return weights;
+}
+
+// Fraction of the way to a target to move in dt seconds, for a time constant
+export function follow(dt: number, seconds: number) {
+  return seconds > 0 ? 1 - Math.exp(-dt / seconds) : 1;
+}
+
+export function createBandAnalyser({
+  sampleRate,
+  fftSize,
+  count = 16,
+  scale = "log",
+  minFrequency = 30,
+  maxFrequency = 16000,
+  attack = 0.02,
+  release = 0.25,
+  autoGain = true,
+  dynamicRange = 40,
+  peakDecay = 2,
+  noiseFloor = -110,
+  minDecibels = -100,
+  maxDecibels = -30,
+}: BandOptions) {
+  const bins = fftSize / 2;
+  const binWidth = sampleRate / fftSize;
+  const edges = bandEdges(
+    count,
+    scale,
+    minFrequency,
+    Math.min(maxFrequency, sampleRate / 2),
+  );
+  const weights = Array.from({ length: count }, (_, i) =>
+    binWeights(edges[i], edges[i + 1], binWidth, bins),
+  );
+
+  const levels = new Float32Array(count);
+  const minPeak = noiseFloor + dynamicRange;
+  const peaks = new Float32Array(count).fill(minPeak);
+
+  // A band's loudness in dB: the weighted mean power of its bins
+  function bandDecibels(decibels: Float32Array, band: number) {
+    let power = 0;
+    let total = 0;
+    for (const { bin, weight } of weights[band]) {
+      power += weight * 10 ** (decibels[bin] / 10);
+      total += weight;
+    }
+    return total > 0 ? 10 * Math.log10(power / total) : -Infinity;
+  }
+
+  return {
+    // Frequencies bounding the bands, in Hz
+    edges,
+    // The band levels from the last update, lowest band first, each 0 to 1
+    levels,
+
+    // Take this frame's spectrum, in decibels as from an AnalyserNode's
+    // getFloatFrequencyData, and the seconds since the last update. Returns
+    // the updated levels.
+    update(decibels: Float32Array, dt: number) {
+      if (decibels.length !== bins) {
+        throw new Error(
+          `Expected a spectrum of ${bins} bins, got ${decibels.length}`,
+        );
+      }
+      const rise = follow(dt, attack);
+      const fall = follow(dt, release);
+      for (let band = 0; band < count; band++) {
+        const db = bandDecibels(decibels, band);
+        let target: number;
+        if (autoGain) {
+          peaks[band] = Math.max(db, peaks[band] - peakDecay * dt, minPeak);
+          target = 1 + (db - peaks[band]) / dynamicRange;
+        } else {
+          target = (db - minDecibels) / (maxDecibels - minDecibels);
+        }
+        target = Math.min(Math.max(target, 0), 1);
+        const level = levels[band];
+        levels[band] =
+          level + (target - level) * (target > level ? rise : fall);
+      }
+      return levels;
+    },
+
+    // Forget the peaks and levels, e.g. when the track changes
+    reset() {
+      levels.fill(0);
+      peaks.fill(minPeak);
+    },
+  };
+}
+
+export type BandAnalyser = ReturnType<typeof createBandAnalyser>;
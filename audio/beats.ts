@@ -0,0 +1,304 @@
+//--
+// Beat and onset detection
+//
+// createBeatDetector finds onsets by spectral flux: the rise in each frame's
+// log-magnitude spectrum over the last, picked out where it peaks above a
+// running mean. The tempo is the beat period that best explains the
+// intervals between recent onsets, and the beat grid is aligned to their
+// phase, so beats keep coming through a quiet passage and a stray onset
+// doesn't cause an extra one. Bars are counted from the first beat, not from
+// a detected downbeat.
+//
+// The detector only needs buffers of samples and their times, so it can run
+// on an AnalyserNode's time-domain data in the page or on a synthetic track
+// in a test.
+//--
+import { magnitudeSpectrum } from "./fft.ts";
+
+export interface BeatOptions {
+  // Tempo range to search; doubling and halving ambiguities resolve within it
+  minBpm?: number;
+  maxBpm?: number;
+  beatsPerBar?: number;
+  // How far above the running mean flux an onset must peak
+  sensitivity?: number;
+  // Seconds that must pass between onsets
+  minInterval?: number;
+  // Seconds of onsets the tempo is estimated from; beats stop when there have
+  // been too few onsets in this time
+  history?: number;
+  // Seconds for the pulse to fall to about a third after a beat
+  pulseDecay?: number;
+}
+
+export interface OnsetEvent {
+  time: number;
+  // Spectral flux at the onset
+  strength: number;
+}
+
+export interface BeatEvent {
+  time: number;
+  // Beats since the detector started or was reset, from 0
+  index: number;
+  bar: number;
+  // Position in the bar, from 0 to beatsPerBar - 1
+  beatInBar: number;
+  bpm: number;
+}
+
+// The detector's state at some time, for scenes to read each frame
+export interface BeatState {
+  // Undefined until enough onsets have been heard
+  bpm: number | undefined;
+  // Fraction of the way from the last beat to the next
+  phase: number;
+  // 1 at a beat, decaying towards 0 until the next
+  pulse: number;
+  // Beats so far, and the bar and position in it of the last
+  beats: number;
+  bar: number;
+  beatInBar: number;
+}
+
+// Onsets needed before the tempo is trusted
+const MIN_ONSETS = 4;
+// Spectral flux, per bin, below which a frame never counts as an onset
+const MIN_FLUX = 0.01;
+// Seconds of flux the onset threshold averages over
+const THRESHOLD_WINDOW = 1;
+// Allowed timing error, in seconds, when matching an interval to a period
+const TIMING_SPREAD = 0.025;
+// Tempo resolution searched, in BPM
+const BPM_STEP = 0.5;
+
+export function createBeatDetector({
+  minBpm = 70,
+  maxBpm = 180,
+  beatsPerBar = 4,
+  sensitivity = 1.5,
+  minInterval = 0.1,
+  history = 8,
+  pulseDecay = 0.15,
+}: BeatOptions = {}) {
+  if (!(minBpm > 0 && maxBpm > minBpm)) {
+    throw new Error(`Invalid tempo range: ${minBpm} to ${maxBpm} BPM`);
+  }
+
+  let previousSpectrum: Float32Array | undefined;
+  // Recent frames' flux, for the threshold and peak picking
+  let frames: { time: number; flux: number }[] = [];
+  let onsets: OnsetEvent[] = [];
+  // The beat grid: its period and the time of one of its beats
+  let period: number | undefined;
+  let gridOrigin = 0;
+  let nextBeat: number | undefined;
+  let lastBeat: number | undefined;
+  let beats = 0;
+
+  const onsetListeners = new Set<(event: OnsetEvent) => void>();
+  const beatListeners = new Set<(event: BeatEvent) => void>();
+
+  // Log-compressed so quiet and loud passages give comparable flux
+  function spectralFlux(samples: Float32Array) {
+    const spectrum = magnitudeSpectrum(samples).map((m) => Math.log1p(100 * m));
+    let flux = 0;
+    if (previousSpectrum?.length === spectrum.length) {
+      for (let bin = 0; bin < spectrum.length; bin++) {
+        flux += Math.max(0, spectrum[bin] - previousSpectrum[bin]);
+      }
+      flux /= spectrum.length;
+    }
+    previousSpectrum = spectrum;
+    return flux;
+  }
+
+  // The last frame but one is an onset if its flux peaks there, above the
+  // threshold. Returns it if so.
+  function pickOnset(): OnsetEvent | undefined {
+    if (frames.length < 3) {
+      return;
+    }
+    const [before, peak, after] = frames.slice(-3);
+    const mean =
+      frames.reduce((sum, { flux }) => sum + flux, 0) / frames.length;
+    const last = onsets.at(-1);
+    if (
+      peak.flux > before.flux &&
+      peak.flux >= after.flux &&
+      peak.flux > Math.max(mean * sensitivity, MIN_FLUX) &&
+      (!last || peak.time - last.time >= minInterval)
+    ) {
+      return { time: peak.time, strength: peak.flux };
+    }
+  }
+
+  // The period, within the tempo range, whose multiples best match the
+  // intervals between onsets. Matches to longer multiples count for less, so
+  // that half the true period doesn't win.
+  function estimatePeriod() {
+    let best: number | undefined;
+    let bestScore = 0;
+    for (let bpm = minBpm; bpm <= maxBpm; bpm += BPM_STEP) {
+      const candidate = 60 / bpm;
+      let score = 0;
+      for (let i = 0; i < onsets.length; i++) {
+        for (let j = i + 1; j < onsets.length; j++) {
+          const interval = onsets[j].time - onsets[i].time;
+          const multiple = Math.round(interval / candidate);
+          if (multiple < 1 || multiple > 4) {
+            continue;
+          }
+          const error = interval - multiple * candidate;
+          score +=
+            (onsets[i].strength *
+              onsets[j].strength *
+              Math.exp(-(error * error) / (2 * TIMING_SPREAD ** 2))) /
+            multiple;
+        }
+      }
+      if (score > bestScore) {
+        best = candidate;
+        bestScore = score;
+      }
+    }
+    return best;
+  }
+
+  // Align the grid to the onsets' mean phase within the period, weighting
+  // the stronger and more recent ones more
+  function alignGrid(period: number, now: number) {
+    let x = 0;
+    let y = 0;
+    for (const { time, strength } of onsets) {
+      const angle = (2 * Math.PI * time) / period;
+      const weight = strength * Math.exp((time - now) / history);
+      x += weight * Math.cos(angle);
+      y += weight * Math.sin(angle);
+    }
+    return (Math.atan2(y, x) / (2 * Math.PI)) * period;
+  }
+
+  // The first beat of the grid at or after a time
+  function gridBeatAfter(period: number, time: number) {
+    return gridOrigin + Math.ceil((time - gridOrigin) / period) * period;
+  }
+
+  function retrack(onset: OnsetEvent) {
+    period = onsets.length >= MIN_ONSETS ? estimatePeriod() : undefined;
+    if (period === undefined) {
+      nextBeat = undefined;
+      return;
+    }
+    gridOrigin = alignGrid(period, onset.time);
+    // Beats from just before the onset on, but never two in one period
+    nextBeat = gridBeatAfter(
+      period,
+      Math.max(onset.time - period / 4, (lastBeat ?? -Infinity) + period / 2),
+    );
+  }
+
+  function emitBeats(time: number) {
+    while (period !== undefined && nextBeat !== undefined && nextBeat <= time) {
+      const event: BeatEvent = {
+        time: nextBeat,
+        index: beats,
+        bar: Math.floor(beats / beatsPerBar),
+        beatInBar: beats % beatsPerBar,
+        bpm: 60 / period,
+      };
+      lastBeat = nextBeat;
+      beats++;
+      nextBeat += period;
+      for (const listener of beatListeners) {
+        listener(event);
+      }
+    }
+  }
+
+  // 1 at a beat, decaying towards 0 until the next
+  function pulse(time: number) {
+    if (lastBeat === undefined) {
+      return 0;
+    }
+    return Math.exp(-Math.max(0, time - lastBeat) / pulseDecay);
+  }
+
+  return {
+    get bpm() {
+      return period !== undefined ? 60 / period : undefined;
+    },
+    get beats() {
+      return beats;
+    },
+
+    // Analyse a buffer of samples ending at `time`, in seconds. Buffers
+    // should be the same power-of-two length and arrive in time order; they
+    // may overlap. Fires any onset and beats up to `time`.
+    process(samples: Float32Array, time: number) {
+      frames.push({ time, flux: spectralFlux(samples) });
+      frames = frames.filter((frame) => frame.time > time - THRESHOLD_WINDOW);
+      onsets = onsets.filter((onset) => onset.time > time - history);
+
+      const onset = pickOnset();
+      if (onset) {
+        onsets.push(onset);
+        for (const listener of onsetListeners) {
+          listener(onset);
+        }
+        retrack(onset);
+      } else if (onsets.length < MIN_ONSETS) {
+        period = undefined;
+        nextBeat = undefined;
+      }
+      emitBeats(time);
+    },
+
+    pulse,
+
+    state(time: number): BeatState {
+      const phase =
+        period !== undefined
+          ? ((((time - gridOrigin) / period) % 1) + 1) % 1
+          : 0;
+      const last = Math.max(beats - 1, 0);
+      return {
+        bpm: period !== undefined ? 60 / period : undefined,
+        phase,
+        pulse: pulse(time),
+        beats,
+        bar: Math.floor(last / beatsPerBar),
+        beatInBar: last % beatsPerBar,
+      };
+    },
+
+    // Called with each onset. Returns a function that removes the listener.
+    onOnset(listener: (event: OnsetEvent) => void) {
+      onsetListeners.add(listener);
+      return () => {
+        onsetListeners.delete(listener);
+      };
+    },
+
+    // Called with each beat. Returns a function that removes the listener.
+    onBeat(listener: (event: BeatEvent) => void) {
+      beatListeners.add(listener);
+      return () => {
+        beatListeners.delete(listener);
+      };
+    },
+
+    // Forget the tempo and counts, e.g. when the track changes
+    reset() {
+      previousSpectrum = undefined;
+      frames = [];
+      onsets = [];
+      period = undefined;
+      nextBeat = undefined;
+      lastBeat = undefined;
+      beats = 0;
+    },
+  };
+}
+
+export type BeatDetector = ReturnType<typeof createBeatDetector>;
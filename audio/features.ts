@@ -0,0 +1,218 @@
+//--
+// Waveform, stereo and spectral-shape features
+//
+// createFeatureExtractor reads a frame's waveform, its left and right
+// channels and its spectrum, and works out how loud the audio is, where it
+// sits between the speakers, how bright and how noisy it sounds and how much
+// it is changing. Scenes get these alongside the band levels, and
+// createFeatureUniforms in audio/featureuniforms.ts makes each one a named
+// dyno uniform.
+//--
+import { follow } from "./bands.ts";
+import { rms } from "./timeline.ts";
+
+export interface AudioFeatures {
+  // RMS level of the waveform, 0 for silence and about 0.7 at full scale
+  rms: number;
+  // The largest sample of the waveform, 0 to 1
+  peak: number;
+  // RMS levels of the left and right channels
+  left: number;
+  right: number;
+  // Where the sound sits between the speakers: -1 left, 0 centre, 1 right
+  balance: number;
+  // Spectral centroid, the power-weighted mean frequency, from 0 at
+  // minFrequency to 1 at the Nyquist frequency on a log scale: how bright
+  // the sound is
+  centroid: number;
+  // Spectral flatness, the geometric over the arithmetic mean of the power:
+  // near 0 for a pure tone, near 1 for white noise
+  flatness: number;
+  // Spectral flux, how much the spectrum rose since the last frame, 0 to 1
+  // against its recent peak
+  flux: number;
+}
+
+export const FEATURE_NAMES = [
+  "rms",
+  "peak",
+  "left",
+  "right",
+  "balance",
+  "centroid",
+  "flatness",
+  "flux",
+] as const satisfies readonly (keyof AudioFeatures)[];
+
+export interface FeatureOptions {
+  // Of the AudioContext and AnalyserNode the spectrum comes from
+  sampleRate: number;
+  fftSize: number;
+  // Seconds for a feature to move most of the way to a new value
+  smoothing?: number;
+  // Lowest frequency in Hz the centroid and flatness look at
+  minFrequency?: number;
+  // Bins quieter than this, in dB, count as silent
+  minDecibels?: number;
+  // Seconds for the flux peak to fall most of the way back after a burst
+  fluxDecay?: number;
+}
+
+// One frame of input; a mono source can leave out left and right
+export interface FeatureInput {
+  // From getFloatTimeDomainData, -1 to 1
+  waveform: Float32Array;
+  // From getFloatFrequencyData
+  decibels: Float32Array;
+  left?: Float32Array;
+  right?: Float32Array;
+}
+
+// Below these there is nothing to measure, and the features read 0
+const SILENCE = 1e-4;
+const MIN_FLUX = 0.01;
+
+function silentFeatures(): AudioFeatures {
+  return {
+    rms: 0,
+    peak: 0,
+    left: 0,
+    right: 0,
+    balance: 0,
+    centroid: 0,
+    flatness: 0,
+    flux: 0,
+  };
+}
+
+// The largest absolute sample
+export function peak(samples: Float32Array) {
+  let max = 0;
+  for (const sample of samples) {
+    max = Math.max(max, Math.abs(sample));
+  }
+  return max;
+}
+
+// -1 when all the energy is on the left, 1 when it is all on the right
+export function balance(left: number, right: number) {
+  const total = left + right;
+  return total > SILENCE ? (right - left) / total : 0;
+}
+
+export function createFeatureExtractor({
+  sampleRate,
+  fftSize,
+  smoothing = 0.05,
+  minFrequency = 20,
+  minDecibels = -100,
+  fluxDecay = 2,
+}: FeatureOptions) {
+  const bins = fftSize / 2;
+  const binWidth = sampleRate / fftSize;
+  const nyquist = sampleRate / 2;
+  if (!(minFrequency > 0 && minFrequency < nyquist)) {
+    throw new Error(
+      `Invalid feature frequency range: ${minFrequency} to ${nyquist}`,
+    );
+  }
+  const firstBin = Math.max(1, Math.round(minFrequency / binWidth));
+  const floorPower = 10 ** (minDecibels / 10);
+  // Log-compressed magnitudes of the last frame, for the flux
+  const previous = new Float32Array(bins);
+  let fluxPeak = MIN_FLUX;
+  let primed = false;
+
+  const features = silentFeatures();
+
+  // Centroid and flatness of the bins from firstBin up
+  function spectralShape(decibels: Float32Array) {
+    let power = 0;
+    let weighted = 0;
+    let logs = 0;
+    for (let bin = firstBin; bin < bins; bin++) {
+      const p = Math.max(10 ** (decibels[bin] / 10), floorPower);
+      power += p;
+      weighted += p * bin * binWidth;
+      logs += Math.log(p);
+    }
+    const count = bins - firstBin;
+    const mean = power / count;
+    if (!(mean > floorPower)) {
+      return { centroid: 0, flatness: 0 };
+    }
+    const frequency = Math.max(weighted / power, minFrequency);
+    return {
+      centroid:
+        Math.log(frequency / minFrequency) / Math.log(nyquist / minFrequency),
+      flatness: Math.exp(logs / count) / mean,
+    };
+  }
+
+  // Mean rise in log-compressed magnitude over all the bins
+  function spectralFlux(decibels: Float32Array) {
+    let flux = 0;
+    for (let bin = 0; bin < bins; bin++) {
+      const db = decibels[bin];
+      const magnitude =
+        db > minDecibels ? Math.log1p(100 * 10 ** (db / 20)) : 0;
+      flux += Math.max(magnitude - previous[bin], 0);
+      previous[bin] = magnitude;
+    }
+    return flux / bins;
+  }
+
+  return {
+    // The features from the last update
+    features,
+
+    // Take this frame's waveform and spectrum and the seconds since the last
+    // update. Returns the updated features.
+    update(
+      { waveform, decibels, left = waveform, right = waveform }: FeatureInput,
+      dt: number,
+    ) {
+      if (decibels.length !== bins) {
+        throw new Error(
+          `Expected a spectrum of ${bins} bins, got ${decibels.length}`,
+        );
+      }
+      const { centroid, flatness } = spectralShape(decibels);
+      const rise = spectralFlux(decibels);
+      // The first frame has nothing to rise from
+      const flux = primed ? rise : 0;
+      primed = true;
+      fluxPeak = Math.max(
+        flux,
+        MIN_FLUX + (fluxPeak - MIN_FLUX) * (1 - follow(dt, fluxDecay)),
+      );
+      const leftLevel = rms(left);
+      const rightLevel = rms(right);
+      const targets: AudioFeatures = {
+        rms: rms(waveform),
+        peak: peak(waveform),
+        left: leftLevel,
+        right: rightLevel,
+        balance: balance(leftLevel, rightLevel),
+        centroid,
+        flatness,
+        flux: flux / fluxPeak,
+      };
+      const amount = follow(dt, smoothing);
+      for (const key of Object.keys(targets) as (keyof AudioFeatures)[]) {
+        features[key] += (targets[key] - features[key]) * amount;
+      }
+      return features;
+    },
+
+    // Back to silence, e.g. when the source changes
+    reset() {
+      Object.assign(features, silentFeatures());
+      previous.fill(0);
+      fluxPeak = MIN_FLUX;
+      primed = false;
+    },
+  };
+}
+
+export type FeatureExtractor = ReturnType<typeof createFeatureExtractor>;
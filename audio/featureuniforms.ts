@@ -0,0 +1,26 @@
+//--
+// Audio features as dyno uniforms, one per feature and named after it, for
+// shaderBox infuncs to read: a scene can follow the stereo balance or the
+// brightness of the sound rather than individual bins
+//--
+import { dyno } from "@sparkjsdev/spark";
+import { type AudioFeatures, FEATURE_NAMES } from "./features.ts";
+
+const { dynoFloat } = dyno;
+
+export function createFeatureUniforms() {
+  const uniforms = Object.fromEntries(
+    FEATURE_NAMES.map((name) => [name, dynoFloat(0, name)]),
+  ) as Record<keyof AudioFeatures, ReturnType<typeof dynoFloat>>;
+  return {
+    uniforms,
+    // Call each frame with the features from the extractor or a timeline
+    update(features: AudioFeatures) {
+      for (const name of FEATURE_NAMES) {
+        uniforms[name].value = features[name];
+      }
+    },
+  };
+}
+
+export type FeatureUniforms = ReturnType<typeof createFeatureUniforms>;
@@ -0,0 +1,127 @@
+//--
+// Fast Fourier transform for analysing sample buffers outside of an
+// AnalyserNode, such as in tests or offline
+//--
+
+// Cosines and sines of the twiddle factors for each FFT size, by index
+// k * n / size within a stage of the given size
+const twiddles = new Map<number, { cos: Float32Array; sin: Float32Array }>();
+
+function twiddle(n: number) {
+  let table = twiddles.get(n);
+  if (!table) {
+    table = {
+      cos: Float32Array.from({ length: n / 2 }, (_, k) =>
+        Math.cos((-2 * Math.PI * k) / n),
+      ),
+      sin: Float32Array.from({ length: n / 2 }, (_, k) =>
+        Math.sin((-2 * Math.PI * k) / n),
+      ),
+    };
+    twiddles.set(n, table);
+  }
+  return table;
+}
+
+// In-place radix-2 FFT of a complex signal held as separate real and
+// imaginary parts, whose length must be a power of two
+export function fft(real: Float32Array, imag: Float32Array) {
+  const n = real.length;
+  if (n < 1 || (n & (n - 1)) !== 0 || imag.length !== n) {
+    throw new Error(`FFT size must be a power of two, got ${n}`);
+  }
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+  const { cos, sin } = twiddle(n);
+  for (let size = 2; size <= n; size <<= 1) {
+    const stride = n / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const c = cos[k * stride];
+        const s = sin[k * stride];
+        const a = start + k;
+        const b = a + size / 2;
+        const re = real[b] * c - imag[b] * s;
+        const im = real[b] * s + imag[b] * c;
+        real[b] = real[a] - re;
+        imag[b] = imag[a] - im;
+        real[a] += re;
+        imag[a] += im;
+      }
+    }
+  }
+}
+
+const hannWindows = new Map<number, Float32Array>();
+
+function hann(size: number) {
+  let window = hannWindows.get(size);
+  if (!window) {
+    window = Float32Array.from(
+      { length: size },
+      (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / size),
+    );
+    hannWindows.set(size, window);
+  }
+  return window;
+}
+
+// The magnitudes of the first samples.length / 2 frequency bins of a
+// Hann-windowed buffer, scaled so a full-scale sine peaks near 1
+export function magnitudeSpectrum(samples: Float32Array) {
+  const n = samples.length;
+  const window = hann(n);
+  const real = Float32Array.from(samples, (sample, i) => sample * window[i]);
+  const imag = new Float32Array(n);
+  fft(real, imag);
+  // A Hann window halves the amplitude, and a sine splits across two halves
+  const scale = 4 / n;
+  return Float32Array.from(
+    { length: n / 2 },
+    (_, bin) => Math.hypot(real[bin], imag[bin]) * scale,
+  );
+}
+
+const blackmanWindows = new Map<number, Float32Array>();
+
+// The Blackman window an AnalyserNode applies, with alpha 0.16
+function blackman(size: number) {
+  let window = blackmanWindows.get(size);
+  if (!window) {
+    window = Float32Array.from(
+      { length: size },
+      (_, i) =>
+        0.42 -
+        0.5 * Math.cos((2 * Math.PI * i) / size) +
+        0.08 * Math.cos((4 * Math.PI * i) / size),
+    );
+    blackmanWindows.set(size, window);
+  }
+  return window;
+}
+
+// The levels in dB an AnalyserNode's getFloatFrequencyData gives for a buffer
+// of fftSize samples: Blackman-windowed and scaled by 1 / fftSize, so a
+// full-scale sine peaks near -13.5 dB. There is no smoothing from one buffer
+// to the next, as with a smoothingTimeConstant of 0.
+export function analyserDecibels(samples: Float32Array) {
+  const n = samples.length;
+  const window = blackman(n);
+  const real = Float32Array.from(samples, (sample, i) => sample * window[i]);
+  const imag = new Float32Array(n);
+  fft(real, imag);
+  return Float32Array.from(
+    { length: n / 2 },
+    (_, bin) => 20 * Math.log10(Math.hypot(real[bin], imag[bin]) / n),
+  );
+}
@@ -0,0 +1,68 @@
+//--
+// Audio sources and analysis: feeds the analyser, and turns its output into
+// the levels and beats scenes read
+//--
+export {
+  type BandAnalyser,
+  type BandOptions,
+  type BandScale,
+  bandEdges,
+  createBandAnalyser,
+} from "./bands.ts";
+export {
+  type BeatDetector,
+  type BeatEvent,
+  type BeatOptions,
+  type BeatState,
+  type OnsetEvent,
+  createBeatDetector,
+} from "./beats.ts";
+export {
+  type AudioFeatures,
+  type FeatureExtractor,
+  type FeatureInput,
+  type FeatureOptions,
+  FEATURE_NAMES,
+  balance,
+  createFeatureExtractor,
+  peak,
+} from "./features.ts";
+export {
+  type FeatureUniforms,
+  createFeatureUniforms,
+} from "./featureuniforms.ts";
+export { analyserDecibels, fft, magnitudeSpectrum } from "./fft.ts";
+export { type BeatPulse, createBeatPulse } from "./pulse.ts";
+export {
+  type AudioInput,
+  type AudioSource,
+  type Playlist,
+  type Track,
+  audioInputs,
+  createAudioInput,
+  createPlaylist,
+  mediaElementSource,
+  microphoneSource,
+  onFileDrop,
+  toTrack,
+} from "./sources.ts";
+export {
+  type SpectrumOptions,
+  type SpectrumTexture,
+  SPECTRUM_HISTORY,
+  createSpectrumTexture,
+  spectrumFunctions,
+  spectrumUniform,
+} from "./spectrum.ts";
+export {
+  type AnalyseOptions,
+  type Timeline,
+  type TimelineFrame,
+  type TimelinePlayer,
+  analyseSamples,
+  createTimelinePlayer,
+  decodeAudio,
+  parseTimeline,
+  rms,
+} from "./timeline.ts";
+export { type DecodedAudio, decodeWav } from "./wav.ts";
@@ -0,0 +1,22 @@
+//--
+// A beat pulse as a dyno uniform, for shaderBox infuncs to read: 1 on each
+// beat, decaying towards 0 until the next. The scene selector keeps one up to
+// date for every scene.
+//--
+import { dyno } from "@sparkjsdev/spark";
+import type { BeatState } from "./beats.ts";
+
+const { dynoFloat } = dyno;
+
+export function createBeatPulse(name = "pulse") {
+  const uniform = dynoFloat(0, name);
+  return {
+    uniform,
+    // Call each frame with the beat state from the detector or a timeline
+    update(beat: BeatState) {
+      uniform.value = beat.pulse;
+    },
+  };
+}
+
+export type BeatPulse = ReturnType<typeof createBeatPulse>;
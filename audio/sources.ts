@@ -0,0 +1,351 @@
+//--
+// Audio sources
+//
+// An AudioSource is anything that can feed the analyser: the page's audio
+// element, a microphone or line-in, or a playlist of URLs and dropped files
+// played through the audio element. createAudioInput keeps one analyser and
+// switches sources in front of it, so the scenes reading the analyser carry
+// on as the source changes. Sources that shouldn't be heard twice, such as a
+// microphone in the room, are analysed without being played to the speakers.
+//--
+
+export interface AudioSource {
+  label: string;
+  // Whether the source is played through the speakers as well as analysed
+  monitor: boolean;
+  // Start the source, returning the node to analyse. May ask the user's
+  // permission, so may fail.
+  open(context: AudioContext): Promise<AudioNode>;
+  // Stop the source; it can be opened again later
+  close(): void;
+}
+
+// An element can only be given one source node, so every source playing
+// through it shares the one created first
+const elementNodes = new WeakMap<HTMLMediaElement, AudioNode>();
+
+function elementNode(context: AudioContext, element: HTMLMediaElement) {
+  let node = elementNodes.get(element);
+  if (!node) {
+    node = context.createMediaElementSource(element);
+    elementNodes.set(element, node);
+  }
+  return node;
+}
+
+// Whatever the element is set to play, through its own controls
+export function mediaElementSource(
+  element: HTMLMediaElement,
+  label = "Audio element",
+): AudioSource {
+  return {
+    label,
+    monitor: true,
+    async open(context) {
+      return elementNode(context, element);
+    },
+    close() {
+      element.pause();
+    },
+  };
+}
+
+// A microphone or line-in. Without a deviceId this is the default input.
+// The browser's voice processing is turned off, as it would flatten music.
+export function microphoneSource({
+  deviceId,
+  label = "Microphone",
+}: { deviceId?: string; label?: string } = {}): AudioSource {
+  let stream: MediaStream | undefined;
+  return {
+    label,
+    monitor: false,
+    async open(context) {
+      stream = await navigator.mediaDevices.getUserMedia({
+        audio: {
+          deviceId: deviceId ? { exact: deviceId } : undefined,
+          echoCancellation: false,
+          noiseSuppression: false,
+          autoGainControl: false,
+        },
+      });
+      return context.createMediaStreamSource(stream);
+    },
+    close() {
+      for (const track of stream?.getTracks() ?? []) {
+        track.stop();
+      }
+      stream = undefined;
+    },
+  };
+}
+
+// The audio inputs, such as microphones and line-ins, for microphoneSource.
+// Browsers only give their labels once the user has allowed one to be used.
+export async function audioInputs() {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter(({ kind }) => kind === "audioinput")
+    .map(({ deviceId, label }, i) => ({
+      deviceId,
+      label: label || `Input ${i + 1}`,
+    }));
+}
+
+export interface Track {
+  label: string;
+  url: string;
+}
+
+// A track for a URL, labelled with its file name, or for a local file, whose
+// object URL stays loaded until passed to URL.revokeObjectURL
+export function toTrack(item: string | File): Track {
+  if (typeof item === "string") {
+    return {
+      label: decodeURIComponent(item.split("/").pop() || item),
+      url: item,
+    };
+  }
+  return { label: item.name, url: URL.createObjectURL(item) };
+}
+
+// Tracks played in order through an element, moving on to the next as each
+// ends. Tracks change without reopening the source, as they all play through
+// the element's one node. Tracks for local files are unloaded as they are
+// removed, or all at once on dispose.
+export function createPlaylist(
+  element: HTMLMediaElement,
+  items: (string | File)[] = [],
+  label = "Playlist",
+) {
+  // Object URLs made for local files, to revoke when their tracks go
+  const objectUrls = new Set<string>();
+  const toTracks = (items: (string | File)[]) =>
+    items.map((item) => {
+      const track = toTrack(item);
+      if (typeof item !== "string") {
+        objectUrls.add(track.url);
+      }
+      return track;
+    });
+  const tracks = toTracks(items);
+  let index = 0;
+  let opened = false;
+  // URL of the track last loaded into the element
+  let loaded: string | undefined;
+  const listeners = new Set<(track: Track, index: number) => void>();
+
+  function load() {
+    loaded = tracks[index].url;
+    element.src = loaded;
+  }
+
+  function release(track: Track) {
+    if (objectUrls.delete(track.url)) {
+      URL.revokeObjectURL(track.url);
+    }
+  }
+
+  function checkIndex(i: number) {
+    if (!Number.isInteger(i) || i < 0 || i >= tracks.length) {
+      throw new Error(`No track ${i} in a playlist of ${tracks.length} tracks`);
+    }
+  }
+
+  // Move to the track at i, playing it if the playlist is the source in use
+  function select(i: number) {
+    checkIndex(i);
+    index = i;
+    if (opened) {
+      load();
+      // Rejected if the page hasn't been interacted with yet; the element's
+      // own controls can start it then
+      element.play().catch(() => {});
+    }
+    for (const listener of listeners) {
+      listener(tracks[i], i);
+    }
+  }
+
+  function onEnded() {
+    if (index < tracks.length - 1) {
+      select(index + 1);
+    }
+  }
+
+  return {
+    label,
+    monitor: true,
+    tracks: tracks as readonly Track[],
+    get index() {
+      return index;
+    },
+    get track(): Track | undefined {
+      return tracks[index];
+    },
+
+    async open(context: AudioContext) {
+      const node = elementNode(context, element);
+      opened = true;
+      element.addEventListener("ended", onEnded);
+      // Another source may have played something else through the element
+      if (tracks.length > 0 && loaded !== tracks[index].url) {
+        load();
+      }
+      return node;
+    },
+    close() {
+      opened = false;
+      element.removeEventListener("ended", onEnded);
+      element.pause();
+    },
+
+    // Append tracks, returning the index of the first added
+    add(...items: (string | File)[]) {
+      tracks.push(...toTracks(items));
+      return tracks.length - items.length;
+    },
+    // Remove the track at i. Removing the current track moves on to the one
+    // after it, or the one before if it was the last.
+    remove(i: number) {
+      checkIndex(i);
+      const [track] = tracks.splice(i, 1);
+      release(track);
+      if (i !== index) {
+        index -= i < index ? 1 : 0;
+        return;
+      }
+      if (tracks.length > 0) {
+        select(Math.min(index, tracks.length - 1));
+      } else if (opened) {
+        loaded = undefined;
+        element.pause();
+      }
+    },
+    select,
+    // Wraps round at the end
+    next() {
+      if (tracks.length > 0) {
+        select((index + 1) % tracks.length);
+      }
+    },
+    // Restarts the track if it has been playing a while, as players do
+    previous() {
+      if (element.currentTime > 3 || tracks.length === 0) {
+        element.currentTime = 0;
+      } else {
+        select((index - 1 + tracks.length) % tracks.length);
+      }
+    },
+    // Called when the playlist moves to another track. Returns a function
+    // that removes the listener.
+    onTrackChange(listener: (track: Track, index: number) => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    // Empty the playlist, unloading its local files, e.g. before replacing it
+    dispose() {
+      tracks.forEach(release);
+      tracks.length = 0;
+      index = 0;
+      listeners.clear();
+    },
+  };
+}
+
+export type Playlist = ReturnType<typeof createPlaylist>;
+
+// Call handler with the audio files dropped on target. Returns a function
+// that stops listening.
+export function onFileDrop(
+  target: HTMLElement,
+  handler: (files: File[]) => void,
+) {
+  const onDragOver = (event: DragEvent) => {
+    event.preventDefault();
+  };
+  const onDrop = (event: DragEvent) => {
+    event.preventDefault();
+    const files = [...(event.dataTransfer?.files ?? [])].filter(({ type }) =>
+      type.startsWith("audio/"),
+    );
+    if (files.length > 0) {
+      handler(files);
+    }
+  };
+  target.addEventListener("dragover", onDragOver);
+  target.addEventListener("drop", onDrop);
+  return () => {
+    target.removeEventListener("dragover", onDragOver);
+    target.removeEventListener("drop", onDrop);
+  };
+}
+
+// Feeds an analyser from one source at a time. The analyser is connected to
+// the speakers through a gain that mutes sources that aren't monitored. The
+// source is also split into its left and right channels, each with an
+// analyser of the same size; a mono source is heard on both.
+export function createAudioInput(
+  context: AudioContext,
+  analyser: AnalyserNode,
+) {
+  const speakers = context.createGain();
+  analyser.connect(speakers);
+  speakers.connect(context.destination);
+
+  const splitter = context.createChannelSplitter(2);
+  splitter.channelInterpretation = "speakers";
+  const [left, right] = [0, 1].map((channel) => {
+    const node = context.createAnalyser();
+    node.fftSize = analyser.fftSize;
+    node.smoothingTimeConstant = analyser.smoothingTimeConstant;
+    splitter.connect(node, channel);
+    return node;
+  });
+
+  let current: { source: AudioSource; node: AudioNode } | undefined;
+
+  function disconnect() {
+    if (current) {
+      current.node.disconnect(analyser);
+      current.node.disconnect(splitter);
+      current.source.close();
+      current = undefined;
+    }
+  }
+
+  return {
+    get source() {
+      return current?.source;
+    },
+    // Analysers of the left and right channels
+    left,
+    right,
+
+    // Switch to a source. If it fails to open, such as when the user doesn't
+    // allow the microphone, the current source carries on.
+    async use(source: AudioSource) {
+      if (source === current?.source) {
+        return;
+      }
+      const node = await source.open(context);
+      disconnect();
+      node.connect(analyser);
+      node.connect(splitter);
+      speakers.gain.value = source.monitor ? 1 : 0;
+      current = { source, node };
+      await context.resume();
+    },
+
+    dispose() {
+      disconnect();
+      splitter.disconnect();
+      analyser.disconnect(speakers);
+      speakers.disconnect();
+    },
+  };
+}
+
+export type AudioInput = ReturnType<typeof createAudioInput>;
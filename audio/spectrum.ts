@@ -0,0 +1,184 @@
+//--
+// The whole spectrum as a shader input
+//
+// createSpectrumTexture resamples the analyser's byte frequency data into a
+// fixed number of columns, on a log or linear frequency scale, and keeps the
+// last few frames as the rows of a data texture: row 0 is the newest frame.
+// Scenes sample it through the spectrum(u) and spectrumHistory(u, t) functions
+// from spectrumFunctions, so each splat can follow its own frequency, and a
+// spectrogram can scroll back in time.
+//--
+import * as THREE from "three";
+import { dyno } from "@sparkjsdev/spark";
+import { d, type FunctionDef } from "../dynoexp.ts";
+import { bandEdges } from "./bands.ts";
+
+const { dynoSampler2D, texture } = dyno;
+
+// Frames kept by default
+export const SPECTRUM_HISTORY = 64;
+
+export interface SpectrumOptions {
+  // Of the AudioContext and AnalyserNode the frequency data comes from
+  sampleRate: number;
+  fftSize: number;
+  // Columns, from the lowest frequency to the highest
+  size?: number;
+  // Frames kept, the newest first
+  history?: number;
+  // How frequencies spread across the columns
+  scale?: "log" | "linear";
+  // Lowest frequency on the log scale, in Hz
+  minFrequency?: number;
+}
+
+// The bins a column reads: a fractional bin to interpolate at, when the column
+// is narrower than a bin, or otherwise the bins [from, to) to average
+type Column = { at: number } | { from: number; to: number };
+
+function columns(
+  size: number,
+  scale: "log" | "linear",
+  bins: number,
+  binWidth: number,
+  minFrequency: number,
+): Column[] {
+  const nyquist = binWidth * bins;
+  const edges =
+    scale === "log"
+      ? bandEdges(size, "log", minFrequency, nyquist)
+      : Array.from({ length: size + 1 }, (_, i) => (nyquist * i) / size);
+  return Array.from({ length: size }, (_, i) => {
+    const from = Math.round(edges[i] / binWidth);
+    const to = Math.min(Math.round(edges[i + 1] / binWidth), bins);
+    if (to - from >= 2) {
+      return { from, to };
+    }
+    const centre = (edges[i] + edges[i + 1]) / 2 / binWidth;
+    return { at: Math.min(centre, bins - 1) };
+  });
+}
+
+export function createSpectrumTexture({
+  sampleRate,
+  fftSize,
+  size = 256,
+  history = SPECTRUM_HISTORY,
+  scale = "log",
+  minFrequency = 30,
+}: SpectrumOptions) {
+  if (!Number.isInteger(size) || size < 1) {
+    throw new Error(`Invalid spectrum size: ${size}`);
+  }
+  if (!Number.isInteger(history) || history < 1) {
+    throw new Error(`Invalid spectrum history: ${history}`);
+  }
+  const bins = fftSize / 2;
+  const layout = columns(size, scale, bins, sampleRate / fftSize, minFrequency);
+  const data = new Uint8Array(size * history);
+  const spectrum = new THREE.DataTexture(
+    data,
+    size,
+    history,
+    THREE.RedFormat,
+    THREE.UnsignedByteType,
+  );
+  spectrum.minFilter = THREE.LinearFilter;
+  spectrum.magFilter = THREE.LinearFilter;
+  spectrum.needsUpdate = true;
+
+  return {
+    texture: spectrum,
+    size,
+    history,
+    // The newest frame, one value per column from 0 to 255
+    data: data.subarray(0, size),
+
+    // Take this frame's frequency data, as from an AnalyserNode's
+    // getByteFrequencyData, scrolling the older frames back a row
+    update(frequencies: Uint8Array) {
+      if (frequencies.length !== bins) {
+        throw new Error(
+          `Expected a spectrum of ${bins} bins, got ${frequencies.length}`,
+        );
+      }
+      data.copyWithin(size, 0, size * (history - 1));
+      layout.forEach((column, i) => {
+        if ("at" in column) {
+          const low = Math.floor(column.at);
+          const high = Math.min(low + 1, bins - 1);
+          const t = column.at - low;
+          data[i] =
+            frequencies[low] + (frequencies[high] - frequencies[low]) * t;
+        } else {
+          let total = 0;
+          for (let bin = column.from; bin < column.to; bin++) {
+            total += frequencies[bin];
+          }
+          data[i] = total / (column.to - column.from);
+        }
+      });
+      spectrum.needsUpdate = true;
+    },
+
+    reset() {
+      data.fill(0);
+      spectrum.needsUpdate = true;
+    },
+
+    dispose() {
+      spectrum.dispose();
+    },
+  };
+}
+
+export type SpectrumTexture = ReturnType<typeof createSpectrumTexture>;
+
+// Stands in for the spectrum until the first frame arrives
+const SILENCE = new THREE.DataTexture(
+  new Uint8Array(1),
+  1,
+  1,
+  THREE.RedFormat,
+  THREE.UnsignedByteType,
+);
+SILENCE.needsUpdate = true;
+
+// A sampler uniform for a scene's globals, to set to the frame's spectrum
+// texture in onAudio
+export function spectrumUniform(name = "spectrum") {
+  return dynoSampler2D(SILENCE as THREE.Texture, name);
+}
+
+// spectrum(u) samples the newest frame at u, from 0 at the lowest frequency
+// to 1 at the highest; spectrumHistory(u, t) samples the frame t of the way
+// back through the history, from 0 for the newest to 1 for the oldest. Both
+// give levels from 0 to 1. Use them from a tag made by createDynoTag, e.g.
+// createDynoTag({ functions: spectrumFunctions(globals.spectrum) }), passing
+// the texture's history if it isn't the default.
+export function spectrumFunctions(
+  sampler: ReturnType<typeof spectrumUniform>,
+  history = SPECTRUM_HISTORY,
+): Record<string, FunctionDef> {
+  const float = () => "float";
+  // Texel centres of the first and last rows
+  const first = 0.5 / history;
+  const last = 1 - first;
+  const sample = (u: unknown, v: unknown) => {
+    const coord = d`vec2(${u}, ${v})` as dyno.DynoVal<"vec2">;
+    return d`${texture(sampler, coord)}.r`;
+  };
+  return {
+    spectrum: {
+      arity: 1,
+      impl: (u) => sample(u, first),
+      type: float,
+    },
+    spectrumHistory: {
+      arity: 2,
+      impl: (u, t) =>
+        sample(u, d`mix(${first}, ${last}, clamp(${t}, 0.0, 1.0))`),
+      type: float,
+    },
+  };
+}
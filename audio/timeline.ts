@@ -0,0 +1,256 @@
+//--
+// Feature timelines
+//
+// analyseSamples runs a whole track through the band analyser and beat
+// detector at a fixed frame rate and records the band levels, RMS level and
+// beat times as a timeline. createTimelinePlayer reads a timeline back at any
+// time, such as the audio element's currentTime, so the same song always
+// drives the visuals the same way, whatever the frame rate, and seeking stays
+// in sync. Timelines are saved as JSON: see tools/analyse.ts to make one from
+// a WAV file in Node, or decodeAudio to decode any format in the browser.
+//--
+import { type BandOptions, createBandAnalyser } from "./bands.ts";
+import {
+  type BeatOptions,
+  type BeatState,
+  createBeatDetector,
+} from "./beats.ts";
+import { analyserDecibels } from "./fft.ts";
+import type { DecodedAudio } from "./wav.ts";
+
+export interface Timeline {
+  version: 1;
+  // Frames per second; frame i is at time i / rate
+  rate: number;
+  // Seconds
+  duration: number;
+  // Frequencies bounding the bands, in Hz
+  edges: number[];
+  // Each frame's band levels, 0 to 1, frame after frame
+  bands: number[];
+  // Each frame's RMS level, 0 to 1
+  rms: number[];
+  // Times of the beats and onsets, in seconds
+  beats: number[];
+  onsets: number[];
+}
+
+export interface AnalyseOptions {
+  // Frames per second to record
+  rate?: number;
+  // Samples analysed per frame, a power of two
+  fftSize?: number;
+  bands?: Omit<BandOptions, "sampleRate" | "fftSize">;
+  beats?: BeatOptions;
+}
+
+// Decimal places kept in saved levels, to keep the files small
+const PRECISION = 1000;
+
+// The root mean square of some samples: 0 for silence, about 0.7 for a
+// full-scale sine
+export function rms(samples: Float32Array) {
+  let sum = 0;
+  for (const sample of samples) {
+    sum += sample * sample;
+  }
+  return samples.length > 0 ? Math.sqrt(sum / samples.length) : 0;
+}
+
+// Analyse a mono track. Each frame looks at the fftSize samples before its
+// time, with the window and scaling of an AnalyserNode whose
+// smoothingTimeConstant is 0, as the page's is, so the bands match the live
+// ones.
+export function analyseSamples(
+  samples: Float32Array,
+  sampleRate: number,
+  {
+    rate = 60,
+    fftSize = 2048,
+    bands: bandOptions,
+    beats: beatOptions,
+  }: AnalyseOptions = {},
+): Timeline {
+  if (!(rate > 0)) {
+    throw new Error(`Invalid timeline rate: ${rate}`);
+  }
+  const bands = createBandAnalyser({ ...bandOptions, sampleRate, fftSize });
+  const detector = createBeatDetector(beatOptions);
+  const beats: number[] = [];
+  const onsets: number[] = [];
+  detector.onBeat(({ time }) => beats.push(time));
+  detector.onOnset(({ time }) => onsets.push(time));
+
+  const duration = samples.length / sampleRate;
+  const frames = Math.floor(duration * rate) + 1;
+  const timeline: Timeline = {
+    version: 1,
+    rate,
+    duration,
+    edges: bands.edges,
+    bands: [],
+    rms: [],
+    beats,
+    onsets,
+  };
+  const window = new Float32Array(fftSize);
+  const round = (value: number) => Math.round(value * PRECISION) / PRECISION;
+  for (let frame = 0; frame < frames; frame++) {
+    const time = frame / rate;
+    const end = Math.round(time * sampleRate);
+    // Zeros before the start of the track
+    window.fill(0);
+    window.set(
+      samples.subarray(Math.max(0, end - fftSize), end),
+      Math.max(0, fftSize - end),
+    );
+    for (const level of bands.update(analyserDecibels(window), 1 / rate)) {
+      timeline.bands.push(round(level));
+    }
+    timeline.rms.push(round(rms(window)));
+    detector.process(window, time);
+  }
+  return timeline;
+}
+
+// Check that parsed JSON is a timeline this version can play
+export function parseTimeline(json: string): Timeline {
+  const timeline = JSON.parse(json);
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid timeline: ${reason}`);
+  };
+  if (!timeline || typeof timeline !== "object") {
+    fail("not an object");
+  }
+  if (timeline.version !== 1) {
+    fail(`unsupported version ${timeline.version}`);
+  }
+  for (const key of ["edges", "bands", "rms", "beats", "onsets"]) {
+    if (!Array.isArray(timeline[key])) {
+      fail(`missing ${key}`);
+    }
+  }
+  const frames = timeline.rms.length;
+  const count = timeline.edges.length - 1;
+  if (!(timeline.rate > 0) || frames < 1 || count < 1) {
+    fail("no frames");
+  }
+  if (timeline.bands.length !== frames * count) {
+    fail(
+      `expected ${frames * count} band levels, got ${timeline.bands.length}`,
+    );
+  }
+  return timeline;
+}
+
+// What a timeline says about one moment, in the shape scenes read. Only these
+// parts of a scene's AudioFrame are recorded; the others come from the live
+// analyser, and scenes that read them set liveAudio.
+export interface TimelineFrame {
+  bands: Float32Array;
+  rms: number;
+  beat: BeatState;
+}
+
+// Read a timeline at any time, interpolating between its frames. Beats are
+// counted from the start of the track, so bars stay in step when seeking.
+export function createTimelinePlayer(
+  timeline: Timeline,
+  {
+    beatsPerBar = 4,
+    pulseDecay = 0.15,
+  }: Pick<BeatOptions, "pulseDecay"> & { beatsPerBar?: number } = {},
+) {
+  const count = timeline.edges.length - 1;
+  const frames = timeline.rms.length;
+  const bands = new Float32Array(count);
+  const { beats } = timeline;
+
+  // The number of beats at or before a time
+  function beatsBefore(time: number) {
+    let low = 0;
+    let high = beats.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (beats[middle] <= time) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return low;
+  }
+
+  function beatState(time: number): BeatState {
+    const passed = beatsBefore(time);
+    const last = passed - 1;
+    if (last < 0) {
+      return {
+        bpm: undefined,
+        phase: 0,
+        pulse: 0,
+        beats: 0,
+        bar: 0,
+        beatInBar: 0,
+      };
+    }
+    // The interval the time falls in, or the last one after the final beat
+    const interval =
+      last + 1 < beats.length
+        ? beats[last + 1] - beats[last]
+        : last > 0
+          ? beats[last] - beats[last - 1]
+          : undefined;
+    const since = time - beats[last];
+    return {
+      bpm: interval ? 60 / interval : undefined,
+      phase: interval ? (since / interval) % 1 : 0,
+      pulse: Math.exp(-since / pulseDecay),
+      beats: passed,
+      bar: Math.floor(last / beatsPerBar),
+      beatInBar: last % beatsPerBar,
+    };
+  }
+
+  return {
+    timeline,
+    // The features at a time in seconds, clamped to the track. The bands
+    // array is reused from call to call.
+    frame(time: number): TimelineFrame {
+      const position = Math.min(Math.max(time * timeline.rate, 0), frames - 1);
+      const i = Math.floor(position);
+      const j = Math.min(i + 1, frames - 1);
+      const t = position - i;
+      for (let band = 0; band < count; band++) {
+        const a = timeline.bands[i * count + band];
+        const b = timeline.bands[j * count + band];
+        bands[band] = a + (b - a) * t;
+      }
+      const rms = timeline.rms[i] + (timeline.rms[j] - timeline.rms[i]) * t;
+      return { bands, rms, beat: beatState(time) };
+    },
+  };
+}
+
+export type TimelinePlayer = ReturnType<typeof createTimelinePlayer>;
+
+// Decode a track in the browser, in any format it supports, mixed down to
+// mono for analyseSamples
+export async function decodeAudio(url: string): Promise<DecodedAudio> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Could not load ${url}: ${response.status}`);
+  }
+  const data = await response.arrayBuffer();
+  // The context is only used to decode, which resamples to its rate
+  const context = new OfflineAudioContext(1, 1, 44100);
+  const buffer = await context.decodeAudioData(data);
+  const samples = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] += data[i] / buffer.numberOfChannels;
+    }
+  }
+  return { sampleRate: buffer.sampleRate, samples };
+}
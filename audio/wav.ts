@@ -0,0 +1,100 @@
+//--
+// WAV decoding, so tracks can be analysed in Node where there is no
+// decodeAudioData. Reads PCM at 8, 16, 24 or 32 bits and 32-bit float.
+//--
+
+export interface DecodedAudio {
+  sampleRate: number;
+  // The channels mixed down to one, from -1 to 1
+  samples: Float32Array;
+}
+
+export function decodeWav(data: ArrayBuffer): DecodedAudio {
+  const view = new DataView(data);
+  const tag = (offset: number) =>
+    String.fromCharCode(
+      ...new Uint8Array(data, offset, Math.min(4, data.byteLength - offset)),
+    );
+  if (data.byteLength < 12 || tag(0) !== "RIFF" || tag(8) !== "WAVE") {
+    throw new Error("Not a WAV file");
+  }
+
+  let format = { code: 0, channels: 0, rate: 0, bits: 0 };
+  // Walk the chunks for the format and the data
+  for (let offset = 12; offset + 8 <= data.byteLength;) {
+    const id = tag(offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+    if (id === "fmt ") {
+      format = {
+        code: view.getUint16(body, true),
+        channels: view.getUint16(body + 2, true),
+        rate: view.getUint32(body + 4, true),
+        bits: view.getUint16(body + 14, true),
+      };
+      // WAVE_FORMAT_EXTENSIBLE keeps the real format in its sub-format
+      if (format.code === 0xfffe) {
+        format.code = view.getUint16(body + 24, true);
+      }
+    } else if (id === "data") {
+      return {
+        sampleRate: format.rate,
+        samples: mixDown(
+          view,
+          body,
+          Math.min(size, data.byteLength - body),
+          format,
+        ),
+      };
+    }
+    // Chunks are padded to an even size
+    offset = body + size + (size & 1);
+  }
+  throw new Error("WAV file has no data");
+}
+
+// Reads one sample at a byte offset, scaled to -1 to 1
+function sampleReader(view: DataView, code: number, bits: number) {
+  if (code === 3 && bits === 32) {
+    return (at: number) => view.getFloat32(at, true);
+  }
+  if (code !== 1) {
+    return;
+  }
+  switch (bits) {
+    case 8:
+      return (at: number) => (view.getUint8(at) - 128) / 128;
+    case 16:
+      return (at: number) => view.getInt16(at, true) / 32768;
+    case 24:
+      return (at: number) =>
+        ((view.getInt8(at + 2) << 16) | view.getUint16(at, true)) / 8388608;
+    case 32:
+      return (at: number) => view.getInt32(at, true) / 2147483648;
+  }
+}
+
+function mixDown(
+  view: DataView,
+  start: number,
+  length: number,
+  { code, channels, bits }: { code: number; channels: number; bits: number },
+) {
+  const bytes = bits / 8;
+  const read = sampleReader(view, code, bits);
+  if (!read || channels < 1) {
+    throw new Error(
+      `Unsupported WAV format ${code} with ${bits} bits and ${channels} channels`,
+    );
+  }
+  const frames = Math.floor(length / (bytes * channels));
+  const samples = new Float32Array(frames);
+  for (let frame = 0; frame < frames; frame++) {
+    let sum = 0;
+    for (let channel = 0; channel < channels; channel++) {
+      sum += read(start + (frame * channels + channel) * bytes);
+    }
+    samples[frame] = sum / channels;
+  }
+  return samples;
+}
@@ -0,0 +1,435 @@
+//--
+// Camera autopilot
+//
+// Flies the camera along a keyframed path for unattended screens: a smooth
+// Catmull-Rom spline through the keyframes' positions and look targets,
+// either once, timed to the track's currentTime, or looping. cameraPreset
+// builds orbit, dolly and fly-through loops around a scene's camera pose.
+// A path can cut to its next keyframe every few beats or surge ahead on each
+// beat. Any input from the user hands the camera back to them where it is;
+// after a while idle, the autopilot blends back onto its path. Paths are plain
+// JSON, to save and load as a file.
+//--
+import type { BeatState } from "./audio/index.ts";
+import { isObject } from "./files.ts";
+import type { CameraPose } from "./scenes/scene.ts";
+
+type Vec3 = [number, number, number];
+
+export interface CameraKeyframe {
+  // Seconds into the path
+  time: number;
+  position: Vec3;
+  target: Vec3;
+}
+
+export interface CameraPath {
+  name?: string;
+  // Keyframes in time order
+  keyframes: CameraKeyframe[];
+  // Seconds before the path repeats, its keyframes all in [0, duration). A
+  // path without one plays once and holds its last keyframe.
+  duration?: number;
+  beat?: {
+    // Beats between cuts to the next keyframe
+    cut?: number;
+    // Extra path seconds per second at the top of each beat's pulse
+    surge?: number;
+  };
+}
+
+export type CameraPreset = "orbit" | "dolly" | "flythrough";
+
+export const CAMERA_PRESETS: CameraPreset[] = ["orbit", "dolly", "flythrough"];
+
+function isVec3(value: unknown) {
+  return (
+    Array.isArray(value) &&
+    value.length === 3 &&
+    value.every((x) => Number.isFinite(x))
+  );
+}
+
+function checkPath(path: unknown): string | undefined {
+  if (!isObject(path) || !Array.isArray(path.keyframes)) {
+    return "expected an object with a keyframes array";
+  }
+  const { keyframes, duration, beat } = path;
+  if (keyframes.length === 0) {
+    return "no keyframes";
+  }
+  if (
+    duration !== undefined &&
+    !(typeof duration === "number" && Number.isFinite(duration) && duration > 0)
+  ) {
+    return `duration ${duration} is not a positive number of seconds`;
+  }
+  let last = -Infinity;
+  for (const [i, keyframe] of keyframes.entries()) {
+    if (!Number.isFinite(keyframe?.time)) {
+      return `keyframe ${i} has no time`;
+    }
+    if (!isVec3(keyframe.position) || !isVec3(keyframe.target)) {
+      return `keyframe ${i} needs an [x, y, z] position and target`;
+    }
+    if (keyframe.time <= last) {
+      return `keyframe ${i} at ${keyframe.time}s is not after the one before`;
+    }
+    if (duration !== undefined && keyframe.time >= duration) {
+      return `keyframe ${i} at ${keyframe.time}s is past the duration`;
+    }
+    last = keyframe.time;
+  }
+  if (beat !== undefined) {
+    if (!isObject(beat)) {
+      return "beat must be an object";
+    }
+    if (
+      beat.cut !== undefined &&
+      !(Number.isInteger(beat.cut) && (beat.cut as number) > 0)
+    ) {
+      return `beat cut ${beat.cut} is not a whole number of beats`;
+    }
+    if (
+      beat.surge !== undefined &&
+      !(Number.isFinite(beat.surge) && (beat.surge as number) >= 0)
+    ) {
+      return `beat surge ${beat.surge} is not a number, 0 or more`;
+    }
+  }
+}
+
+// Check that parsed JSON is a camera path
+export function parseCameraPath(path: unknown): CameraPath {
+  const problem = checkPath(path);
+  if (problem) {
+    throw new Error(`Invalid camera path: ${problem}`);
+  }
+  return path as CameraPath;
+}
+
+function catmullRom(p0: Vec3, p1: Vec3, p2: Vec3, p3: Vec3, u: number): Vec3 {
+  const u2 = u * u;
+  const u3 = u2 * u;
+  return p1.map(
+    (_, i) =>
+      0.5 *
+      (2 * p1[i] +
+        (p2[i] - p0[i]) * u +
+        (2 * p0[i] - 5 * p1[i] + 4 * p2[i] - p3[i]) * u2 +
+        (3 * p1[i] - p0[i] - 3 * p2[i] + p3[i]) * u3),
+  ) as Vec3;
+}
+
+function lerp(from: Vec3, to: Vec3, t: number): Vec3 {
+  return from.map((value, i) => value + (to[i] - value) * t) as Vec3;
+}
+
+// Where t seconds falls on a path, wrapped into the first cycle of a looping
+// one
+function pathTime({ keyframes, duration }: CameraPath, t: number) {
+  if (duration === undefined) {
+    return t;
+  }
+  const start = keyframes[0].time;
+  return ((((t - start) % duration) + duration) % duration) + start;
+}
+
+// The pose t seconds into a path
+export function sampleCameraPath(path: CameraPath, t: number): CameraPose {
+  const { keyframes, duration } = path;
+  const count = keyframes.length;
+  const pose = ({ position, target }: CameraKeyframe): CameraPose => ({
+    position: [...position],
+    target: [...target],
+  });
+  if (count === 1) {
+    return pose(keyframes[0]);
+  }
+  // The last keyframe at or before a time
+  const before = (time: number) => {
+    let index = 0;
+    while (index + 1 < count && keyframes[index + 1].time <= time) {
+      index++;
+    }
+    return index;
+  };
+  let at = t;
+  // The keyframe before at, and how long until the next
+  let index: number;
+  let span: number;
+  if (duration === undefined) {
+    if (t <= keyframes[0].time) {
+      return pose(keyframes[0]);
+    }
+    if (t >= keyframes[count - 1].time) {
+      return pose(keyframes[count - 1]);
+    }
+    index = before(t);
+    span = keyframes[index + 1].time - keyframes[index].time;
+  } else {
+    at = pathTime(path, t);
+    index = before(at);
+    const next =
+      index + 1 < count
+        ? keyframes[index + 1].time
+        : keyframes[0].time + duration;
+    span = next - keyframes[index].time;
+  }
+  // Neighbours wrap round a looping path and stop at the ends of the others
+  const key = (i: number) =>
+    keyframes[
+      duration === undefined
+        ? Math.min(Math.max(i, 0), count - 1)
+        : (i + count) % count
+    ];
+  const u = (at - keyframes[index].time) / span;
+  const [k0, k1, k2, k3] = [-1, 0, 1, 2].map((offset) => key(index + offset));
+  return {
+    position: catmullRom(k0.position, k1.position, k2.position, k3.position, u),
+    target: catmullRom(k0.target, k1.target, k2.target, k3.target, u),
+  };
+}
+
+// The keyframes of a preset, flown around centre, lasting duration seconds
+function presetKeyframes(
+  preset: CameraPreset,
+  position: Vec3,
+  centre: Vec3,
+  duration: number,
+): CameraKeyframe[] {
+  const offset = position.map((value, i) => value - centre[i]) as Vec3;
+  const keyframe = (time: number, position: Vec3, target: Vec3) => ({
+    time,
+    position,
+    target,
+  });
+  switch (preset) {
+    case "orbit": {
+      const radius = Math.hypot(offset[0], offset[2]);
+      const start = Math.atan2(offset[2], offset[0]);
+      const steps = 8;
+      return Array.from({ length: steps }, (_, i) => {
+        const angle = start + (2 * Math.PI * i) / steps;
+        return keyframe(
+          (duration * i) / steps,
+          [
+            centre[0] + radius * Math.cos(angle),
+            position[1],
+            centre[2] + radius * Math.sin(angle),
+          ],
+          centre,
+        );
+      });
+    }
+    case "dolly":
+      return [
+        keyframe(0, position, centre),
+        keyframe(duration / 2, lerp(centre, position, 0.3), centre),
+      ];
+    case "flythrough": {
+      // Across the centre to the far side, then back round beside it
+      const side: Vec3 = [-offset[2], 0, offset[0]];
+      const points: Vec3[] = [
+        position,
+        lerp(centre, position, 0.1),
+        centre.map((value, i) => 2 * value - position[i]) as Vec3,
+        centre.map((value, i) => value + side[i]) as Vec3,
+      ];
+      // Looking where it is heading
+      return points.map((point, i) =>
+        keyframe(
+          (duration * i) / points.length,
+          point,
+          lerp(point, points[(i + 1) % points.length], 0.5),
+        ),
+      );
+    }
+  }
+}
+
+// A looping path around a scene's camera pose: an orbit of the point distance
+// ahead of the camera, a dolly towards it and back, or a fly-through past it
+// and round again, each lasting duration seconds, and following the beat if
+// given a beat setting
+export function cameraPreset(
+  preset: CameraPreset,
+  { position, target }: CameraPose,
+  {
+    distance = 10,
+    duration = 24,
+    beat,
+  }: { distance?: number; duration?: number; beat?: CameraPath["beat"] } = {},
+): CameraPath {
+  if (!CAMERA_PRESETS.includes(preset)) {
+    throw new Error(
+      `Unknown camera preset "${preset}", expected one of ${CAMERA_PRESETS.join(", ")}`,
+    );
+  }
+  const length = Math.hypot(...target.map((value, i) => value - position[i]));
+  const centre = position.map(
+    (value, i) => value + ((target[i] - value) / (length || 1)) * distance,
+  ) as Vec3;
+  return {
+    name: preset,
+    duration,
+    keyframes: presetKeyframes(preset, position, centre, duration),
+    ...(beat && { beat }),
+  };
+}
+
+export function createAutopilot({
+  path,
+  blend = 2,
+  resumeAfter = 30,
+}: {
+  path?: CameraPath;
+  // Seconds to blend from where the camera is onto the path
+  blend?: number;
+  // Seconds without input before the autopilot takes the camera back
+  resumeAfter?: number;
+} = {}) {
+  let current = path && parseCameraPath(structuredClone(path));
+  let enabled = false;
+  let flying = false;
+  // Path seconds gained from cuts and surges, ahead of the clock
+  let offset = 0;
+  let idle = 0;
+  let blendFrom: CameraPose | undefined;
+  let blended = 0;
+  let lastBeats: number | undefined;
+  const listeners = new Set<() => void>();
+
+  function changed() {
+    for (const listener of listeners) {
+      listener();
+    }
+  }
+
+  function load(value: unknown) {
+    current = parseCameraPath(structuredClone(value));
+    offset = 0;
+    // Blend from wherever the camera is onto the new path
+    blendFrom = undefined;
+    changed();
+  }
+
+  // Jump the playhead to the path's next keyframe
+  function cut(time: number) {
+    const { keyframes, duration } = current!;
+    const local = pathTime(current!, time + offset);
+    const next = keyframes.find((keyframe) => keyframe.time > local);
+    const to = next ? next.time : keyframes[0].time + (duration ?? 0);
+    if (next || duration !== undefined) {
+      offset += to - local;
+    }
+  }
+
+  return {
+    // A copy of the path, to edit and load back
+    get path(): CameraPath | undefined {
+      return current && structuredClone(current);
+    },
+
+    // Whether autopilot mode is on, and whether it is flying the camera now
+    // rather than waiting for the user to go idle
+    get enabled() {
+      return enabled;
+    },
+    get flying() {
+      return flying;
+    },
+
+    load,
+
+    // Turn autopilot mode on, taking the camera straight away, or off
+    setEnabled(on: boolean) {
+      if (on && !current) {
+        throw new Error("The autopilot has no camera path to fly");
+      }
+      enabled = on;
+      flying = on;
+      blendFrom = undefined;
+      idle = 0;
+      changed();
+    },
+
+    // Call on input from the user, to hand them the camera
+    userInput() {
+      idle = 0;
+      if (flying) {
+        flying = false;
+        changed();
+      }
+    },
+
+    // The pose for this frame, or undefined if the user has the camera. time
+    // is the clock the path follows, such as the track's currentTime; camera
+    // is where the camera is now, to blend from when taking it back.
+    update(
+      {
+        time,
+        deltaTime,
+        beat,
+      }: { time: number; deltaTime: number; beat?: BeatState },
+      camera: CameraPose,
+    ): CameraPose | undefined {
+      const path = current;
+      if (!enabled || !path) {
+        return;
+      }
+      if (!flying) {
+        idle += deltaTime;
+        if (idle < resumeAfter) {
+          return;
+        }
+        flying = true;
+        blendFrom = undefined;
+        changed();
+      }
+      if (!blendFrom) {
+        blendFrom = camera;
+        blended = 0;
+      }
+      if (beat) {
+        if (
+          path.beat?.cut &&
+          lastBeats !== undefined &&
+          beat.beats > lastBeats &&
+          beat.beats % path.beat.cut === 0
+        ) {
+          cut(time);
+        }
+        lastBeats = beat.beats;
+        offset += deltaTime * (path.beat?.surge ?? 0) * beat.pulse;
+      }
+      const pose = sampleCameraPath(path, time + offset);
+      blended += deltaTime;
+      const t = blend > 0 ? Math.min(blended / blend, 1) : 1;
+      const eased = t * t * (3 - 2 * t);
+      return {
+        position: lerp(blendFrom.position, pose.position, eased),
+        target: lerp(blendFrom.target, pose.target, eased),
+      };
+    },
+
+    // Called after the path or mode changes. Returns a function that removes
+    // the listener.
+    onChange(listener: () => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    exportPath() {
+      return JSON.stringify(current, null, 2);
+    },
+
+    importPath(json: string) {
+      load(JSON.parse(json));
+    },
+  };
+}
+
+export type Autopilot = ReturnType<typeof createAutopilot>;
@@ -0,0 +1,265 @@
+//--
+// Debug views of dyno graphs
+//
+// dumpGlsl and dumpDot show what a d template or a shaderBox generator builds,
+// as GLSL source and as a Graphviz DOT graph. Neither needs a WebGL context,
+// so their output can be snapshot-tested in Node.
+//--
+import { dyno } from "@sparkjsdev/spark";
+
+const {
+  Compilation,
+  DynoBlock,
+  DynoLiteral,
+  DynoOutput,
+  DynoValue,
+  dynoBlock,
+} = dyno;
+
+type Block = InstanceType<typeof DynoBlock>;
+type Val = Parameters<typeof dyno.valType>[0];
+type DynoType = string | { type: string };
+
+// The parts of a dyno node that the dumps read
+interface GraphNode {
+  inputs: Record<string, unknown>;
+  outTypes: Record<string, DynoType>;
+}
+
+// Where an input comes from: an output of another node, or a literal that is
+// inlined into the GLSL
+type InputSource =
+  { node: GraphNode; key: string } | { literal: string } | undefined;
+
+function typeName(type: DynoType) {
+  return typeof type === "string" ? type : type.type;
+}
+
+// A value from d (or any dyno value), a dynoBlock, or the result of shaderBox
+export type DumpTarget = unknown;
+
+// The block to dump. Lone values are wrapped in a block with a single output
+// named "value".
+function toBlock(target: DumpTarget): Block {
+  if (target instanceof DynoBlock) {
+    return target;
+  }
+  if (target && typeof target === "object" && "shadergen" in target) {
+    const generator = (target.shadergen as { generator?: unknown }).generator;
+    if (!(generator instanceof DynoBlock)) {
+      throw new Error("shaderBox has no generator block to dump");
+    }
+    return generator;
+  }
+  const type = dyno.valType(target as Val);
+  return dynoBlock({}, { value: type }, () => ({
+    value: target as Val,
+  })) as unknown as Block;
+}
+
+// Names for the block's inputs and outputs in the dumped code: their keys
+function keyNames(types: Record<string, unknown>) {
+  return Object.fromEntries(Object.keys(types).map((key) => [key, key]));
+}
+
+function sourceOf(value: unknown): InputSource {
+  let current = value;
+  while (current) {
+    if (current instanceof DynoValue) {
+      if (current instanceof DynoOutput) {
+        return { node: current.dyno as GraphNode, key: current.key };
+      }
+      if (current instanceof DynoLiteral) {
+        return { literal: current.getLiteral() };
+      }
+      return undefined;
+    }
+    current = (current as { dynoOut: () => unknown }).dynoOut();
+  }
+  return undefined;
+}
+
+// Matches the comment dyno writes before each node's statements, e.g.
+// "// Add(value_1, 2.0) => (sum_2)"
+const NODE_COMMENT = /^\/\/ \w+\((.*)\) => \((.*)\)$/;
+
+// Mark the top-level nodes whose outputs are read by more than one node
+function markShared(statements: string[]) {
+  const comments = statements
+    .map((line) => NODE_COMMENT.exec(line))
+    .filter((match) => match !== null);
+  return statements.map((line) => {
+    const match = NODE_COMMENT.exec(line);
+    if (!match) {
+      return line;
+    }
+    const names = match[2].split(", ").filter(Boolean);
+    const uses = comments.filter(([, inputs]) =>
+      names.some((name) => new RegExp(`\\b${name}\\b`).test(inputs)),
+    ).length;
+    return uses > 1 ? `${line} [shared by ${uses}]` : line;
+  });
+}
+
+// GLSL for a d value, dynoBlock or shaderBox: the globals it needs (uniforms
+// and helper functions) followed by a generate() function with the block's
+// inputs and outputs as parameters. Nodes whose result is used more than
+// once are marked "[shared by N]".
+export function dumpGlsl(target: DumpTarget): string {
+  const block = toBlock(target);
+  const compile = new Compilation();
+  // The parameters of generate() are already declared
+  for (const name of [
+    ...Object.keys(block.inTypes),
+    ...Object.keys(block.outTypes),
+  ]) {
+    compile.declares.add(name);
+  }
+  const { statements } = block.generateBlock({
+    inputs: keyNames(block.inTypes),
+    outputs: keyNames(block.outTypes),
+    compile,
+  });
+
+  const params = [
+    ...Object.entries(block.inTypes).map(
+      ([key, type]) => `in ${dyno.dynoDeclare(key, type)}`,
+    ),
+    ...Object.entries(block.outTypes).map(
+      ([key, type]) => `out ${dyno.dynoDeclare(key, type)}`,
+    ),
+  ];
+  const body = markShared(statements).map((line) =>
+    `${compile.indent}${line}`.trimEnd(),
+  );
+  return [
+    ...[...compile.globals].flatMap((global) => [global.trim(), ""]),
+    `void generate(${params.join(", ")}) {`,
+    ...body,
+    "}",
+    "",
+  ].join("\n");
+}
+
+// Label lines for a node: its class, output types and, for uniforms, the
+// current value
+function nodeLabel(node: GraphNode) {
+  const lines = [node.constructor.name];
+  const types = Object.entries(node.outTypes);
+  if (types.length === 1) {
+    lines.push(typeName(types[0][1]));
+  } else {
+    // Group outputs by type, e.g. "x, y, z: float" for a split
+    const keys = new Map<string, string[]>();
+    for (const [key, type] of types) {
+      const name = typeName(type);
+      keys.set(name, [...(keys.get(name) ?? []), key]);
+    }
+    for (const [name, group] of keys) {
+      lines.push(`${group.join(", ")}: ${name}`);
+    }
+  }
+  if (node instanceof dyno.DynoUniform) {
+    const value = node.value as { toArray?: () => number[] };
+    lines.push(`= ${value?.toArray ? value.toArray().join(", ") : value}`);
+  }
+  return lines.join("\n");
+}
+
+// Graphviz DOT graph for a d value, dynoBlock or shaderBox. Nodes are dyno
+// operations, literals are drawn at each use, and nodes read by more than one
+// node are filled and marked "shared by N". Blocks nested inside the graph,
+// such as hashes, are drawn as single nodes.
+export function dumpDot(target: DumpTarget): string {
+  const block = toBlock(target);
+  const blockInputs: Record<string, unknown> = {};
+  for (const [key, type] of Object.entries(block.inTypes)) {
+    blockInputs[key] = new DynoLiteral(type as never, key);
+  }
+  const blockOutputs: Record<string, unknown> = {};
+  for (const [key, type] of Object.entries(block.outTypes)) {
+    blockOutputs[key] = new DynoValue(type as never);
+  }
+  const options = { roots: [] as GraphNode[] };
+  const returned = (block.construct as (...args: unknown[]) => unknown)(
+    blockInputs,
+    blockOutputs,
+    options,
+  ) as Record<string, unknown> | undefined;
+
+  const ids = new Map<GraphNode, string>();
+  // Ids of the nodes reading each node
+  const readers = new Map<GraphNode, Set<string>>();
+  const nodes: GraphNode[] = [];
+  const edges: string[] = [];
+  let literals = 0;
+
+  // Edge from an input's source to `to`, adding the source's subgraph first
+  function connect(value: unknown, to: string, label: string) {
+    const source = sourceOf(value);
+    if (!source) {
+      return;
+    }
+    if ("literal" in source) {
+      const id = `l${literals++}`;
+      edges.push(
+        `  ${id} [label=${JSON.stringify(source.literal)}, shape=plaintext];`,
+      );
+      edges.push(`  ${id} -> ${to} [label=${JSON.stringify(label)}];`);
+      return;
+    }
+    const from = visit(source.node);
+    const nodeReaders = readers.get(source.node) ?? new Set<string>();
+    readers.set(source.node, nodeReaders.add(to));
+    const outputs = Object.keys(source.node.outTypes);
+    const edgeLabel = outputs.length > 1 ? `${source.key} → ${label}` : label;
+    edges.push(`  ${from} -> ${to} [label=${JSON.stringify(edgeLabel)}];`);
+  }
+
+  function visit(node: GraphNode): string {
+    let id = ids.get(node);
+    if (id === undefined) {
+      id = `n${ids.size}`;
+      ids.set(node, id);
+      nodes.push(node);
+      for (const [key, input] of Object.entries(node.inputs)) {
+        connect(input, id, key);
+      }
+    }
+    return id;
+  }
+
+  for (const root of options.roots) {
+    visit(root);
+  }
+  const outputs: string[] = [];
+  for (const [key, type] of Object.entries(block.outTypes)) {
+    const id = `out_${key}`;
+    const label = `${key}: ${typeName(type as DynoType)}`;
+    outputs.push(
+      `  ${id} [label=${JSON.stringify(label)}, shape=doubleoctagon];`,
+    );
+    connect(returned?.[key] ?? blockOutputs[key], id, key);
+  }
+
+  const lines = nodes.map((node) => {
+    const count = readers.get(node)?.size ?? 0;
+    let label = nodeLabel(node);
+    let style = "";
+    if (count > 1) {
+      label += `\nshared by ${count}`;
+      style = ', style=filled, fillcolor="#ffe08a"';
+    }
+    return `  ${ids.get(node)} [label=${JSON.stringify(label)}${style}];`;
+  });
+  return [
+    "digraph dyno {",
+    "  rankdir=LR;",
+    '  node [shape=box, fontname="monospace"];',
+    ...lines,
+    ...outputs,
+    ...edges,
+    "}",
+    "",
+  ].join("\n");
+}
@@ -17,37 +17,303 @@ const {
   mod,
   mul,
   div,
+  neg,
+  and,
+  or,
+  not,
+  lessThan,
+  lessThanEqual,
+  greaterThan,
+  greaterThanEqual,
+  equal,
+  notEqual,
+  select,
+  abs,
+  sign,
+  floor,
+  ceil,
+  trunc,
+  round,
+  fract,
   max,
   min,
+  clamp,
   mix,
+  step,
+  smoothstep,
+  pow,
+  exp,
+  exp2,
+  log,
+  log2,
+  sqrt,
+  inversesqrt,
+  radians,
+  degrees,
   sin,
   cos,
-  pow,
-  fract,
+  tan,
+  asin,
+  acos,
+  atan,
+  atan2,
+  length,
+  distance,
+  dot,
+  cross,
+  normalize,
+  reflectVec,
+  refractVec,
+  hash,
+  hash2,
+  hash3,
+  hash4,
+  hashFloat,
+  hashVec2,
+  hashVec3,
+  hashVec4,
   split,
+  swizzle,
+  combine,
+  float,
+  vec2,
+  vec3,
+  vec4,
   dynoConst,
   dynoFloat,
   dynoVec3,
+  dynoVec4,
+  dynoInt,
   dynoLiteral,
-  sqrt,
-  step,
+  literalZero,
+  literalOne,
 } = dyno;
 
 // Type definitions for dyno values
 export type DynoValue = unknown; // Change to unknown to fix type errors while preserving functionality
 
-// Operator precedence levels
+// Static type of a d expression: a dyno type name such as "float" or "vec3",
+// or "unknown" where it can't be inferred (e.g. user functions without a
+// `type` rule). Checks involving an unknown type are skipped.
+export type ExprType = string;
+
+// Error thrown for malformed or ill-typed d templates. The message shows the
+// template text with a caret under the offending span; interpolated values
+// appear as ${0}, ${1}, ...
+export class DynoExpressionError extends Error {
+  reason: string;
+  source: string;
+  start: number;
+  end: number;
+
+  constructor(reason: string, source: string, start: number, end: number) {
+    super(`${reason}\n${formatSourceCaret(source, start, end)}`);
+    this.name = "DynoExpressionError";
+    this.reason = reason;
+    this.source = source;
+    this.start = start;
+    this.end = end;
+  }
+}
+
+// Render the source line containing `start` with carets under [start, end)
+function formatSourceCaret(source: string, start: number, end: number) {
+  const lineStart = source.lastIndexOf("\n", start - 1) + 1;
+  const newline = source.indexOf("\n", start);
+  const lineEnd = newline === -1 ? source.length : newline;
+  const line = source.slice(lineStart, lineEnd);
+  // Keep tabs so the caret lines up with the source line
+  const padding = line.slice(0, start - lineStart).replace(/[^\t]/g, " ");
+  const width = Math.max(1, Math.min(end, lineEnd) - start);
+  return `  ${line}\n  ${padding}${"^".repeat(width)}`;
+}
+
+// Element type and size of each vector type
+const VECTOR_TYPES: Record<string, { element: ExprType; size: number }> = {};
+for (const [prefix, element] of [
+  ["", "float"],
+  ["i", "int"],
+  ["u", "uint"],
+  ["b", "bool"],
+]) {
+  for (const size of [2, 3, 4]) {
+    VECTOR_TYPES[`${prefix}vec${size}`] = { element, size };
+  }
+}
+
+const SCALAR_NUMERIC_TYPES = new Set(["float", "int", "uint"]);
+const MATRIX_TYPES = new Set(["mat2", "mat3", "mat4"]);
+
+function isVectorType(type: ExprType) {
+  return Object.hasOwn(VECTOR_TYPES, type);
+}
+
+function elementType(type: ExprType) {
+  return isVectorType(type) ? VECTOR_TYPES[type].element : type;
+}
+
+function vectorSize(type: ExprType) {
+  return isVectorType(type) ? VECTOR_TYPES[type].size : 1;
+}
+
+// Type with `size` components of `element`, e.g. ("float", 3) -> "vec3"
+function vectorType(element: ExprType, size: number): ExprType {
+  if (size === 1) {
+    return element;
+  }
+  const prefix = { float: "", int: "i", uint: "u", bool: "b" }[element];
+  return `${prefix}vec${size}`;
+}
+
+// float, vec2, vec3 or vec4
+function isFloatType(type: ExprType) {
+  return elementType(type) === "float";
+}
+
+// Scalars and vectors of float, int or uint
+function isNumericType(type: ExprType) {
+  return SCALAR_NUMERIC_TYPES.has(elementType(type));
+}
+
+function isSignedType(type: ExprType) {
+  return isFloatType(type) || elementType(type) === "int";
+}
+
+// Type of a built dyno value; user struct types (e.g. Gsplat) are "unknown"
+function typeOf(value: DynoValue): ExprType {
+  const type = dyno.valType(value as Parameters<typeof dyno.valType>[0]);
+  return typeof type === "string" ? type : "unknown";
+}
+
+// Result type of an arithmetic operator, following GLSL's rules for mixing
+// scalars, vectors and matrices
+function arithmeticType(op: string, a: ExprType, b: ExprType): ExprType {
+  if (op === "%") {
+    if (isFloatType(a) && (b === a || b === "float")) {
+      return a;
+    }
+  } else if (isNumericType(a) && isNumericType(b)) {
+    if (a === b) {
+      return a;
+    }
+    if (!isVectorType(a) && elementType(b) === a) {
+      return b;
+    }
+    if (!isVectorType(b) && elementType(a) === b) {
+      return a;
+    }
+  } else if (MATRIX_TYPES.has(a) || MATRIX_TYPES.has(b)) {
+    if (a === b || b === "float") {
+      return a;
+    }
+    if (a === "float") {
+      return b;
+    }
+    if (op === "*") {
+      const size = Number((MATRIX_TYPES.has(a) ? a : b).slice(3));
+      const other = MATRIX_TYPES.has(a) ? b : a;
+      if (other === vectorType("float", size)) {
+        return other;
+      }
+    }
+  }
+  throw new Error(`Operator '${op}' cannot combine ${a} and ${b}`);
+}
+
+// Result type of a binary operator
+function binaryType(op: string, a: ExprType, b: ExprType): ExprType {
+  if (a === "unknown" || b === "unknown") {
+    return "unknown";
+  }
+  switch (op) {
+    case "<":
+    case "<=":
+    case ">":
+    case ">=":
+      if (a === b && isNumericType(a)) {
+        return vectorType("bool", vectorSize(a));
+      }
+      throw new Error(
+        `Operator '${op}' expects matching numeric operands, got ${a} and ${b}`,
+      );
+    case "==":
+    case "!=":
+      if (a === b) {
+        return vectorType("bool", vectorSize(a));
+      }
+      throw new Error(
+        `Operator '${op}' expects matching operands, got ${a} and ${b}`,
+      );
+    case "&&":
+    case "||":
+      if (a === "bool" && b === "bool") {
+        return "bool";
+      }
+      throw new Error(
+        `Operator '${op}' expects bool operands, got ${a} and ${b}`,
+      );
+    default:
+      return arithmeticType(op, a, b);
+  }
+}
+
+// Result type of a prefix operator
+function unaryType(op: string, a: ExprType): ExprType {
+  if (a === "unknown") {
+    return a;
+  }
+  if (op === "-" && (isSignedType(a) || MATRIX_TYPES.has(a))) {
+    return a;
+  }
+  if (op === "!" && elementType(a) === "bool") {
+    return a;
+  }
+  throw new Error(`Operator '${op}' cannot be applied to ${a}`);
+}
+
+// Result type of `.prop` on a value of type `type`. `prop` is a swizzle of
+// 1-4 components, all from either xyzw or rgba.
+function propertyType(type: ExprType, prop: string): ExprType {
+  if (type === "unknown") {
+    return type;
+  }
+  if (!isVectorType(type)) {
+    throw new Error(`Cannot access .${prop} on ${type}`);
+  }
+  const set = "xyzw".includes(prop[0]) ? "xyzw" : "rgba";
+  const size = vectorSize(type);
+  const valid = [...prop].every((c) => {
+    const index = set.indexOf(c);
+    return index >= 0 && index < size;
+  });
+  if (!valid) {
+    throw new Error(`Invalid component .${prop} for ${type}`);
+  }
+  if (prop.length > 4) {
+    throw new Error(`Swizzle .${prop} has more than 4 components`);
+  }
+  return vectorType(elementType(type), prop.length);
+}
+
+// Operator precedence levels, following GLSL (lowest binds loosest)
 const PRECEDENCE = {
-  "+": 1,
-  "-": 1,
-  "*": 2,
-  "/": 2,
-  "%": 2,
-  mix: 3,
-  max: 3,
-  min: 3,
-  property: 4, // Property access has higher precedence than operators
-  call: 5, // Function calls have highest precedence
+  "?": 1, // Conditional, right-associative
+  "||": 2,
+  "&&": 3,
+  "==": 4,
+  "!=": 4,
+  "<": 5,
+  "<=": 5,
+  ">": 5,
+  ">=": 5,
+  "+": 6,
+  "-": 6,
+  "*": 7,
+  "/": 7,
+  "%": 7,
+  unary: 8, // Prefix - and !
+  property: 9, // Property access has higher precedence than operators
+  call: 10, // Function calls have highest precedence
 };
 
 // Operator function map with proper typing
@@ -57,40 +323,466 @@ const operators = {
   "*": (a: DynoValue, b: DynoValue) => mul(a, b),
   "/": (a: DynoValue, b: DynoValue) => div(a, b),
   "%": (a: DynoValue, b: DynoValue) => mod(a, b),
+  "<": (a: DynoValue, b: DynoValue) => lessThan(a, b),
+  "<=": (a: DynoValue, b: DynoValue) => lessThanEqual(a, b),
+  ">": (a: DynoValue, b: DynoValue) => greaterThan(a, b),
+  ">=": (a: DynoValue, b: DynoValue) => greaterThanEqual(a, b),
+  "==": (a: DynoValue, b: DynoValue) => equal(a, b),
+  "!=": (a: DynoValue, b: DynoValue) => notEqual(a, b),
+  "&&": (a: DynoValue, b: DynoValue) => and(a, b),
+  "||": (a: DynoValue, b: DynoValue) => or(a, b),
+};
+
+// Prefix operator map
+const prefixOperators = {
+  "-": (a: DynoValue) => neg(a),
+  "!": (a: DynoValue) => not(a),
+};
+
+// Conditional operator: cond ? a : b
+function conditional(cond: DynoValue, a: DynoValue, b: DynoValue) {
+  return select(cond, a, b);
+}
+
+// A function callable from d templates. `arity` is either an exact argument
+// count or an inclusive [min, max] range. `type` maps argument types to the
+// result type and throws if they don't fit; without it the result type is
+// "unknown" and the call is not checked.
+export interface FunctionDef {
+  arity: number | [number, number];
+  impl: (...args: DynoValue[]) => DynoValue;
+  type?: (argTypes: ExprType[]) => ExprType;
+  // Computes the same result on the CPU; needed to call it from dynoEval
+  cpu?: (...args: CpuValue[]) => CpuValue;
+}
+
+// Type rules for the builtins, named after the GLSL signatures they accept.
+// genType is float, vec2, vec3 or vec4.
+
+function requireFloat(type: ExprType) {
+  if (!isFloatType(type)) {
+    throw new Error(`expects float or vector arguments, got ${type}`);
+  }
+}
+
+function requireMatching(types: ExprType[]) {
+  if (types.some((type) => type !== types[0])) {
+    throw new Error(`expects matching argument types, got ${types.join(", ")}`);
+  }
+}
+
+// genType f(genType)
+const genTypeRule = ([a]: ExprType[]) => {
+  requireFloat(a);
+  return a;
+};
+
+// genType f(genType, genType, ...)
+const sameGenTypeRule = (types: ExprType[]) => {
+  requireFloat(types[0]);
+  requireMatching(types);
+  return types[0];
+};
+
+// T f(T) for signed float or int types
+const signedRule = ([a]: ExprType[]) => {
+  if (!isSignedType(a)) {
+    throw new Error(`expects a signed argument, got ${a}`);
+  }
+  return a;
+};
+
+// T f(T, T, ...) or T f(T, scalar, ...), as in min, max, mod and clamp
+const scalarTailRule = ([first, ...rest]: ExprType[]) => {
+  if (!isNumericType(first)) {
+    throw new Error(`expects numeric arguments, got ${first}`);
+  }
+  const scalar = elementType(first);
+  if (
+    !rest.every((type) => type === first) &&
+    !rest.every((type) => type === scalar)
+  ) {
+    throw new Error(
+      `expects arguments of type ${first} or ${scalar}, got ${rest.join(", ")}`,
+    );
+  }
+  return first;
+};
+
+// genType mix(genType, genType, genType | float)
+const mixRule = ([a, b, t]: ExprType[]) => {
+  sameGenTypeRule([a, b]);
+  if (t !== a && t !== "float") {
+    throw new Error(`expects a ${a} or float blend factor, got ${t}`);
+  }
+  return a;
+};
+
+// genType step(genType | float, genType)
+const stepRule = ([edge, x]: ExprType[]) => {
+  requireFloat(x);
+  if (edge !== x && edge !== "float") {
+    throw new Error(`expects a ${x} or float edge, got ${edge}`);
+  }
+  return x;
+};
+
+// genType smoothstep(genType | float, genType | float, genType)
+const smoothstepRule = ([edge0, edge1, x]: ExprType[]) => {
+  requireFloat(x);
+  if (edge0 !== edge1 || (edge0 !== x && edge0 !== "float")) {
+    throw new Error(`expects ${x} or float edges, got ${edge0} and ${edge1}`);
+  }
+  return x;
+};
+
+// atan(genType) or atan(genType, genType)
+const atanRule = (types: ExprType[]) =>
+  types.length === 1 ? genTypeRule(types) : sameGenTypeRule(types);
+
+// float f(genType, ...), as in length, distance and dot
+const lengthRule = (types: ExprType[]) => {
+  sameGenTypeRule(types);
+  return "float";
+};
+
+// vec3 cross(vec3, vec3)
+const crossRule = ([a, b]: ExprType[]) => {
+  if (a !== "vec3" || b !== "vec3") {
+    throw new Error(`expects vec3 arguments, got ${a} and ${b}`);
+  }
+  return "vec3";
+};
+
+// genType refract(genType, genType, float)
+const refractRule = ([i, n, eta]: ExprType[]) => {
+  sameGenTypeRule([i, n]);
+  if (eta !== "float") {
+    throw new Error(`expects a float eta, got ${eta}`);
+  }
+  return i;
+};
+
+// Hashes accept any scalar or vector and return a fixed type
+const hashRule = (result: ExprType) => (types: ExprType[]) => {
+  if (!isNumericType(types[0]) && elementType(types[0]) !== "bool") {
+    throw new Error(`expects a scalar or vector argument, got ${types[0]}`);
+  }
+  return result;
+};
+
+// vecN(...) accepts a single scalar (broadcast), a single vector with at least
+// N components (truncated), or scalars and vectors whose components fill the
+// result, where only the last argument may have components left over
+const vectorConstructorRule = (size: number) => (types: ExprType[]) => {
+  let count = 0;
+  for (const type of types) {
+    if (!isNumericType(type) && elementType(type) !== "bool") {
+      throw new Error(`expects scalar or vector arguments, got ${type}`);
+    }
+    if (count >= size) {
+      throw new Error(`has too many arguments, ${type} would be unused`);
+    }
+    count += vectorSize(type);
+  }
+  if (count < size && !(types.length === 1 && !isVectorType(types[0]))) {
+    throw new Error(`expects ${size} components, got ${count}`);
+  }
+  return vectorType("float", size);
 };
 
+// Build a float vector from GLSL-style constructor arguments
+function constructVector(size: number, args: DynoValue[]): DynoValue {
+  const types = args.map(typeOf);
+  // A single argument is a conversion, broadcast or truncation
+  if (args.length === 1) {
+    const [arg] = args;
+    if (types[0] === vectorType("float", size)) {
+      return arg;
+    }
+    return size === 2 ? vec2(arg) : size === 3 ? vec3(arg) : vec4(arg);
+  }
+  // Otherwise gather scalar components left to right
+  const components: DynoValue[] = [];
+  for (const [i, arg] of args.entries()) {
+    let parts = [arg];
+    if (isVectorType(types[i])) {
+      const outputs = split(arg).outputs;
+      parts = [..."xyzw".slice(0, vectorSize(types[i]))].map((c) => outputs[c]);
+    }
+    for (const part of parts) {
+      components.push(elementType(types[i]) === "float" ? part : float(part));
+    }
+  }
+  const [x, y, z, w] = components;
+  return combine({ vectorType: vectorType("float", size), x, y, z, w });
+}
+
 // Function map with proper typing
-const functions = {
-  mix: (a: DynoValue, b: DynoValue, t: DynoValue) => {
-    return mix(a, b, t);
+const functions: Record<string, FunctionDef> = {
+  // Constants
+  PI: { arity: 0, impl: () => dynoLiteral("float", "PI"), type: () => "float" },
+
+  // Vector constructors
+  vec2: {
+    arity: [1, 2],
+    impl: (...args) => constructVector(2, args),
+    type: vectorConstructorRule(2),
+  },
+  vec3: {
+    arity: [1, 3],
+    impl: (...args) => constructVector(3, args),
+    type: vectorConstructorRule(3),
+  },
+  vec4: {
+    arity: [1, 4],
+    impl: (...args) => constructVector(4, args),
+    type: vectorConstructorRule(4),
+  },
+
+  // Component-wise math
+  abs: { arity: 1, impl: (a) => abs(a), type: signedRule },
+  sign: { arity: 1, impl: (a) => sign(a), type: signedRule },
+  floor: { arity: 1, impl: (a) => floor(a), type: genTypeRule },
+  ceil: { arity: 1, impl: (a) => ceil(a), type: genTypeRule },
+  trunc: { arity: 1, impl: (a) => trunc(a), type: genTypeRule },
+  round: { arity: 1, impl: (a) => round(a), type: genTypeRule },
+  fract: { arity: 1, impl: (a) => fract(a), type: genTypeRule },
+  mod: { arity: 2, impl: (a, b) => mod(a, b), type: scalarTailRule },
+  min: { arity: 2, impl: (a, b) => min(a, b), type: scalarTailRule },
+  max: { arity: 2, impl: (a, b) => max(a, b), type: scalarTailRule },
+  clamp: {
+    arity: 3,
+    impl: (x, lo, hi) => clamp(x, lo, hi),
+    type: scalarTailRule,
   },
-  max: (a: DynoValue, b: DynoValue) => {
-    return max(a, b);
+  mix: { arity: 3, impl: (a, b, t) => mix(a, b, t), type: mixRule },
+  step: { arity: 2, impl: (edge, x) => step(edge, x), type: stepRule },
+  smoothstep: {
+    arity: 3,
+    impl: (edge0, edge1, x) => smoothstep(edge0, edge1, x),
+    type: smoothstepRule,
   },
-  min: (a: DynoValue, b: DynoValue) => {
-    return min(a, b);
+
+  // Exponential
+  pow: { arity: 2, impl: (a, b) => pow(a, b), type: sameGenTypeRule },
+  exp: { arity: 1, impl: (a) => exp(a), type: genTypeRule },
+  exp2: { arity: 1, impl: (a) => exp2(a), type: genTypeRule },
+  log: { arity: 1, impl: (a) => log(a), type: genTypeRule },
+  log2: { arity: 1, impl: (a) => log2(a), type: genTypeRule },
+  sqrt: { arity: 1, impl: (a) => sqrt(a), type: genTypeRule },
+  inversesqrt: { arity: 1, impl: (a) => inversesqrt(a), type: genTypeRule },
+
+  // Trigonometry
+  radians: { arity: 1, impl: (a) => radians(a), type: genTypeRule },
+  degrees: { arity: 1, impl: (a) => degrees(a), type: genTypeRule },
+  sin: { arity: 1, impl: (a) => sin(a), type: genTypeRule },
+  cos: { arity: 1, impl: (a) => cos(a), type: genTypeRule },
+  tan: { arity: 1, impl: (a) => tan(a), type: genTypeRule },
+  asin: { arity: 1, impl: (a) => asin(a), type: genTypeRule },
+  acos: { arity: 1, impl: (a) => acos(a), type: genTypeRule },
+  // atan(y_over_x) or atan(y, x), as in GLSL
+  atan: {
+    arity: [1, 2],
+    impl: (y, x) => (x === undefined ? atan(y) : atan2(y, x)),
+    type: atanRule,
   },
-  sin: (arg: DynoValue) => {
-    return sin(arg);
+
+  // Geometry
+  length: { arity: 1, impl: (a) => length(a), type: lengthRule },
+  distance: { arity: 2, impl: (a, b) => distance(a, b), type: lengthRule },
+  dot: { arity: 2, impl: (a, b) => dot(a, b), type: lengthRule },
+  cross: { arity: 2, impl: (a, b) => cross(a, b), type: crossRule },
+  normalize: { arity: 1, impl: (a) => normalize(a), type: genTypeRule },
+  reflect: {
+    arity: 2,
+    impl: (i, n) => reflectVec(i, n),
+    type: sameGenTypeRule,
   },
-  cos: (arg: DynoValue) => {
-    return cos(arg);
+  refract: {
+    arity: 3,
+    impl: (i, n, eta) => refractVec(i, n, eta),
+    type: refractRule,
   },
-  fract: (arg: DynoValue) => {
-    return fract(arg);
+
+  // Hashing (dyno's pseudo-random helpers)
+  hash: { arity: 1, impl: (a) => hash(a), type: hashRule("uint") },
+  hash2: { arity: 1, impl: (a) => hash2(a), type: hashRule("uvec2") },
+  hash3: { arity: 1, impl: (a) => hash3(a), type: hashRule("uvec3") },
+  hash4: { arity: 1, impl: (a) => hash4(a), type: hashRule("uvec4") },
+  hashFloat: { arity: 1, impl: (a) => hashFloat(a), type: hashRule("float") },
+  hashVec2: { arity: 1, impl: (a) => hashVec2(a), type: hashRule("vec2") },
+  hashVec3: { arity: 1, impl: (a) => hashVec3(a), type: hashRule("vec3") },
+  hashVec4: { arity: 1, impl: (a) => hashVec4(a), type: hashRule("vec4") },
+};
+
+// Reductions unrolled at template-evaluation time: sum(i, 1, 5, expr) binds
+// the constant i to 1, 2, ..., 5 in turn and combines the five copies of
+// expr. max and min are reductions only when called with four arguments.
+type LiteralType = Parameters<typeof literalZero>[0];
+
+interface ReductionDef {
+  combine: (a: DynoValue, b: DynoValue) => DynoValue;
+  // Same combination on the CPU, for dynoEval
+  evaluate: (a: CpuTyped, b: CpuTyped) => CpuTyped;
+  // Value of an empty range, if the reduction has an identity
+  identity?: 0 | 1;
+}
+
+const reductions: Record<string, ReductionDef> = {
+  sum: {
+    combine: (a, b) => add(a, b),
+    evaluate: (a, b) => cpuBinary("+", a, b),
+    identity: 0,
   },
-  sqrt: (arg: DynoValue) => {
-    return sqrt(arg);
+  product: {
+    combine: (a, b) => mul(a, b),
+    evaluate: (a, b) => cpuBinary("*", a, b),
+    identity: 1,
   },
-  step: (a: DynoValue, b: DynoValue) => {
-    return step(a, b);
+  max: {
+    combine: (a, b) => max(a, b),
+    evaluate: (a, b) => componentwise(a.type, [a, b], Math.max),
   },
-  pow: (a: DynoValue, b: DynoValue) => {
-    return pow(a, b);
+  min: {
+    combine: (a, b) => min(a, b),
+    evaluate: (a, b) => componentwise(a.type, [a, b], Math.min),
   },
-  PI: () => dynoLiteral("float", "PI"),
 };
 
+// Upper bound on iterations, to catch runaway ranges
+const MAX_UNROLL = 256;
+
+// Names that registerFunction may not replace
+const BUILTIN_FUNCTIONS = new Set([
+  ...Object.keys(functions),
+  ...Object.keys(reductions),
+]);
+
+const IDENTIFIER_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+// Register a function that every d template can call by name, e.g.
+// registerFunction("octave", 2, (x, n) => d`sin(${x} * ${n})`). Pass `type`
+// to have calls type-checked; otherwise the result type is "unknown". Pass
+// `cpu` to make it callable from dynoEval.
+export function registerFunction(
+  name: string,
+  arity: FunctionDef["arity"],
+  impl: FunctionDef["impl"],
+  type?: FunctionDef["type"],
+  cpu?: FunctionDef["cpu"],
+) {
+  if (!IDENTIFIER_PATTERN.test(name)) {
+    throw new Error(`Invalid function name: ${name}`);
+  }
+  if (BUILTIN_FUNCTIONS.has(name)) {
+    throw new Error(`Cannot redefine builtin function: ${name}`);
+  }
+  functions[name] = { arity, impl, type, cpu };
+}
+
+// Named values and functions visible to a scoped tag from createDynoTag
+export interface DynoScope {
+  vars?: Record<string, DynoValue | number>;
+  functions?: Record<string, FunctionDef>;
+}
+
+// Scoped functions shadow registered and builtin ones
+function lookupFunction(name: string, scope: DynoScope) {
+  if (scope.functions && Object.hasOwn(scope.functions, name)) {
+    return scope.functions[name];
+  }
+  return Object.hasOwn(functions, name) ? functions[name] : undefined;
+}
+
+// Throws if a call passes the wrong number of arguments
+function checkArity(name: string, def: FunctionDef, count: number) {
+  const [lo, hi] = Array.isArray(def.arity)
+    ? def.arity
+    : [def.arity, def.arity];
+  if (count < lo || count > hi) {
+    const expected = lo === hi ? `${lo}` : `${lo} to ${hi}`;
+    const plural = hi === 1 ? "argument" : "arguments";
+    throw new Error(
+      `Function ${name} expects ${expected} ${plural}, got ${count}`,
+    );
+  }
+}
+
+// True if a call is a reduction rather than an ordinary function call
+function isReduction(name: string, args: unknown[]) {
+  if (!Object.hasOwn(reductions, name)) {
+    return false;
+  }
+  return (name !== "max" && name !== "min") || args.length === 4;
+}
+
+// Copy of `scope` with `name` bound to a constant
+function withVar(scope: DynoScope, name: string, value: number): DynoScope {
+  return { ...scope, vars: { ...scope.vars, [name]: value } };
+}
+
+// Numeric value of a float constant, or undefined for anything else
+// (uniforms such as dynoFloat can change, so they don't count)
+function constantOf(value: DynoValue): number | undefined {
+  if (
+    value instanceof dyno.DynoConst &&
+    value.type === "float" &&
+    typeof value.value === "number"
+  ) {
+    return value.value;
+  }
+  return undefined;
+}
+
+// Value of an expression made only of literals, interpolated numbers and
+// loop variables, or undefined if it depends on anything else
+function constantValue(
+  node: ExprNode,
+  values: DynoValue[],
+  scope: DynoScope,
+): number | undefined {
+  switch (node.kind) {
+    case "number":
+      return node.value;
+    case "value":
+      return constantOf(values[node.index]);
+    case "identifier": {
+      const vars = scope.vars;
+      if (vars && Object.hasOwn(vars, node.name)) {
+        return constantOf(toDynoValue(vars[node.name]));
+      }
+      return undefined;
+    }
+    case "unary": {
+      const a = constantValue(node.operand, values, scope);
+      return node.op === "-" && a !== undefined ? -a : undefined;
+    }
+    case "binary": {
+      const a = constantValue(node.left, values, scope);
+      const b = constantValue(node.right, values, scope);
+      if (a === undefined || b === undefined) {
+        return undefined;
+      }
+      switch (node.op) {
+        case "+":
+          return a + b;
+        case "-":
+          return a - b;
+        case "*":
+          return a * b;
+        case "/":
+          return a / b;
+        case "%":
+          return a - b * Math.floor(a / b);
+      }
+      return undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
 // Helper to check if a value is a valid dyno type
 function isValidDynoType(value: unknown): value is DynoValue {
   if (!value || typeof value !== "object") {
@@ -103,11 +795,21 @@ function isValidDynoType(value: unknown): value is DynoValue {
     return true;
   }
 
+  // Literal GLSL, such as the inputs of a dynoBlock
+  if (value instanceof dyno.DynoLiteral) {
+    return true;
+  }
+
   // Check if it's a combine operation by looking for its specific properties
   if ("outTypes" in value) {
     return true;
   }
 
+  // Check for a single output of a dyno, e.g. split(v).outputs.x
+  if ("dyno" in value && "key" in value && "type" in value) {
+    return true;
+  }
+
   return false;
 }
 
@@ -119,106 +821,129 @@ type TokenType =
   | "paren"
   | "value"
   | "property"
-  | "constant";
+  | "identifier";
 
 interface Token {
   type: TokenType;
   value: string;
   precedence?: number;
+  // Character offsets of the token in the template source
+  start: number;
+  end: number;
 }
 
+// Matches one raw token at a time: interpolated values, numbers, property
+// accesses, identifiers, multi-character operators and single characters
+const TOKEN_PATTERN =
+  /\$\{\d+\}|(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?|\.[a-zA-Z_][a-zA-Z0-9_]*|[a-zA-Z_][a-zA-Z0-9_]*|<=|>=|==|!=|&&|\|\||[-+*/%<>!?:(),]/y;
+
 class Tokenizer {
   private tokens: Token[] = [];
   private current = 0;
+  readonly source: string;
 
-  constructor(expr: string, values: DynoValue[]) {
-    // First, replace all ${n} with a special token
-    const processedExpr = expr
-      .replace(/\${(\d+)}/g, (_, index) => `__VAL${index}__`)
-      .replace(/[()]/g, " $& ") // Add spaces around parentheses
-      .replace(/,/g, " , "); // Add spaces around commas
-
-    // Split on spaces and parentheses, but keep parentheses as separate tokens
-    const rawTokens = processedExpr.split(/\s+/).filter((t) => t);
-
-    // Convert raw tokens to typed tokens
-    for (let i = 0; i < rawTokens.length; i++) {
-      const token = rawTokens[i];
+  constructor(source: string) {
+    this.source = source;
 
-      if (
-        token.startsWith("__VAL") &&
-        token.includes(".") &&
-        token.match(/^__VAL\d+__\.[a-zA-Z_][a-zA-Z0-9_]*$/)
-      ) {
-        // Handle __VALn__.property
-        const parts = token.split(".", 2); // Split into exactly two parts
-        const valToken = parts[0]; // __VALn__
-        const propToken = parts[1]; // property
-        this.tokens.push({ type: "value", value: valToken, precedence: 0 });
-        this.tokens.push({
-          type: "property",
-          value: propToken,
-          precedence: PRECEDENCE.property,
-        });
-      } else if (token.startsWith("__VAL")) {
-        // Handle plain __VALn__ (e.g. __VAL0__)
-        this.tokens.push({ type: "value", value: token, precedence: 0 });
-      } else if (token === "(" || token === ")") {
-        this.tokens.push({ type: "paren", value: token });
-      } else if (token === ",") {
-        this.tokens.push({ type: "operator", value: token, precedence: 0 }); // Handle comma as operator with lowest precedence
-      } else if (token in operators) {
-        this.tokens.push({
-          type: "operator",
-          value: token,
-          precedence: PRECEDENCE[token as keyof typeof PRECEDENCE],
-        });
-      } else if (token in functions) {
-        if (token === "PI") {
-          this.tokens.push({ type: "constant", value: token });
-        } else {
-          // console.log("functino token", token);
-          this.tokens.push({
-            type: "function",
-            value: token,
-            precedence: PRECEDENCE.call,
-          });
-        }
-      } else if (token.includes(".")) {
-        // First check if it's a decimal number
-        const num = Number.parseFloat(token);
-        if (!Number.isNaN(num)) {
-          this.tokens.push({ type: "number", value: token });
-        } else if (token.startsWith("__VAL")) {
-          // Handle property access for __VALn__.property
-          const [obj, prop] = token.split(".", 2);
-          this.tokens.push({ type: "value", value: obj });
-          this.tokens.push({
-            type: "property",
-            value: prop,
-            precedence: PRECEDENCE.property,
-          });
-        } else {
-          throw new Error(`Invalid token: ${token}`);
-        }
-      } else {
-        const num = Number.parseFloat(token);
-        if (!Number.isNaN(num)) {
-          this.tokens.push({ type: "number", value: token });
-        } else {
-          throw new Error(`Invalid token: ${token}`);
-        }
+    let pos = 0;
+    while (pos < source.length) {
+      if (/\s/.test(source[pos])) {
+        pos++;
+        continue;
+      }
+      TOKEN_PATTERN.lastIndex = pos;
+      const match = TOKEN_PATTERN.exec(source);
+      if (!match) {
+        const rest = source.slice(pos).split(/\s/)[0];
+        throw new DynoExpressionError(
+          `Invalid token: ${rest}`,
+          source,
+          pos,
+          pos + rest.length,
+        );
       }
+      this.tokens.push(this.classify(match[0], pos, source));
+      pos += match[0].length;
+    }
+  }
+
+  // Convert a raw token to a typed token
+  private classify(token: string, start: number, source: string): Token {
+    const end = start + token.length;
+
+    if (token.startsWith("${")) {
+      // Handle interpolated values (e.g. ${0})
+      return {
+        type: "value",
+        value: token.slice(2, -1),
+        precedence: 0,
+        start,
+        end,
+      };
+    }
+    if (token.startsWith(".") && !/^\.\d/.test(token)) {
+      // Handle .property following a value or parenthesized expression
+      return {
+        type: "property",
+        value: token.slice(1),
+        precedence: PRECEDENCE.property,
+        start,
+        end,
+      };
+    }
+    if (token === "(" || token === ")") {
+      return { type: "paren", value: token, start, end };
+    }
+    if (token === "," || token === ":") {
+      // Separators have the lowest precedence and end the current operand
+      return { type: "operator", value: token, precedence: 0, start, end };
     }
+    if (token === "!") {
+      // Prefix-only operator, so it never continues an infix expression
+      return { type: "operator", value: token, start, end };
+    }
+    if (Object.hasOwn(operators, token) || token === "?") {
+      return {
+        type: "operator",
+        value: token,
+        precedence: PRECEDENCE[token as keyof typeof PRECEDENCE],
+        start,
+        end,
+      };
+    }
+    if (IDENTIFIER_PATTERN.test(token)) {
+      // Names followed by "(" are calls; others are resolved against the
+      // scope when the expression is checked
+      const isCall = /^\s*\(/.test(source.slice(end));
+      return {
+        type: isCall ? "function" : "identifier",
+        value: token,
+        precedence: isCall ? PRECEDENCE.call : 0,
+        start,
+        end,
+      };
+    }
+    return { type: "number", value: token, start, end };
   }
 
   peek(): Token | null {
     return this.current < this.tokens.length ? this.tokens[this.current] : null;
   }
 
+  peekAt(offset: number): Token | null {
+    const index = this.current + offset;
+    return index < this.tokens.length ? this.tokens[index] : null;
+  }
+
   advance(): Token {
     if (this.current >= this.tokens.length) {
-      throw new Error("Unexpected end of expression");
+      const end = this.source.length;
+      throw new DynoExpressionError(
+        "Unexpected end of expression",
+        this.source,
+        end,
+        end + 1,
+      );
     }
     return this.tokens[this.current++];
   }
@@ -229,30 +954,58 @@ class Tokenizer {
   }
 }
 
+// Parsed d expression. Every node records its span in the template source.
+type ExprNode = { start: number; end: number } & (
+  | { kind: "number"; value: number }
+  | { kind: "value"; index: number }
+  | { kind: "identifier"; name: string }
+  | { kind: "unary"; op: string; operand: ExprNode }
+  | { kind: "binary"; op: string; left: ExprNode; right: ExprNode }
+  | {
+      kind: "conditional";
+      cond: ExprNode;
+      whenTrue: ExprNode;
+      whenFalse: ExprNode;
+    }
+  | { kind: "call"; name: string; args: ExprNode[] }
+  | { kind: "property"; object: ExprNode; name: string }
+);
+
 class PrattParser {
   private tokenizer: Tokenizer;
-  private values: DynoValue[];
+  private source: string;
+  // End offset of the most recently consumed closing parenthesis
+  private lastEnd = 0;
 
-  constructor(expr: string, values: DynoValue[]) {
-    this.tokenizer = new Tokenizer(expr, values);
-    this.values = values;
+  constructor(source: string) {
+    this.tokenizer = new Tokenizer(source);
+    this.source = source;
   }
 
-  parseExpression(precedence = 0): DynoValue {
-    debugLog("parseExpression called with precedence:", precedence);
+  error(message: string, at: { start: number; end: number }) {
+    return new DynoExpressionError(message, this.source, at.start, at.end);
+  }
 
+  // Parse the whole template, rejecting anything left over
+  parse(): ExprNode {
     // Handle empty expressions
     if (!this.tokenizer.peek()) {
       debugLog("Empty expression, returning default value");
-      return dynoConst("float", 0);
+      return { kind: "number", value: 0, start: 0, end: 0 };
     }
+    const node = this.parseExpression();
+    const extra = this.tokenizer.peek();
+    if (extra) {
+      throw this.error(`Unexpected token: ${extra.value}`, extra);
+    }
+    return node;
+  }
+
+  parseExpression(precedence = 0): ExprNode {
+    debugLog("parseExpression called with precedence:", precedence);
 
     let left = this.parsePrefix();
     debugLog("After parsePrefix, left:", left);
-    // console.log(
-    //   "After parsePrefix, this.tokenizer.peek()",
-    //   this.tokenizer.peek(),
-    // );
 
     while (true) {
       const token = this.tokenizer.peek();
@@ -290,25 +1043,25 @@ class PrattParser {
     return left;
   }
 
-  parsePrefix(): DynoValue {
+  parsePrefix(): ExprNode {
     const token = this.tokenizer.advance();
+    const { start, end } = token;
     debugLog("parsePrefix processing token:", token);
 
     if (token.type === "number") {
-      const result = dynoConst("float", Number.parseFloat(token.value));
-      debugLog("Parsed number:", result);
-      return result;
+      const value = Number(token.value);
+      if (Number.isNaN(value)) {
+        throw this.error(`Invalid number: ${token.value}`, token);
+      }
+      return { kind: "number", value, start, end };
     }
 
     if (token.type === "value") {
-      const index = Number.parseInt(token.value.slice(5, -2));
-      const value = this.values[index];
-      if (!isValidDynoType(value)) {
-        console.log("value", value);
-        throw new Error(`Invalid interpolated value at index ${index}`);
-      }
-      debugLog("Parsed value:", value);
-      return value;
+      return { kind: "value", index: Number(token.value), start, end };
+    }
+
+    if (token.type === "identifier") {
+      return { kind: "identifier", name: token.value, start, end };
     }
 
     if (token.type === "function") {
@@ -316,152 +1069,1096 @@ class PrattParser {
       return this.parseFunctionCall(token);
     }
 
-    if (token.type === "constant") {
-      // PI is a constant, directly use its function which returns a DynoLiteral
-      const result = functions.PI();
-      debugLog("Parsed constant (PI):", result);
-      return result; // functions.PI() already returns a complete DynoValue (DynoLiteral)
-    }
-
     if (token.type === "paren" && token.value === "(") {
       debugLog("Parsing parenthesized expression");
       const expr = this.parseExpression();
+      this.expectClosingParen("Expected closing parenthesis");
+      // Widen the span to include the parentheses
+      return { ...expr, start, end: this.lastEnd };
+    }
+
+    if (
+      token.type === "operator" &&
+      Object.hasOwn(prefixOperators, token.value)
+    ) {
+      debugLog("Parsing prefix operator:", token.value);
+      // Negative number literals stay a single constant
+      const next = this.tokenizer.peek();
+      const following = this.tokenizer.peekAt(1);
       if (
-        !this.tokenizer.match("paren") ||
-        this.tokenizer.advance().value !== ")"
+        token.value === "-" &&
+        next?.type === "number" &&
+        following?.type !== "property"
       ) {
-        throw new Error("Expected closing parenthesis");
+        this.tokenizer.advance();
+        const value = -Number(next.value);
+        return { kind: "number", value, start, end: next.end };
       }
-      debugLog("Parsed parenthesized expression:", expr);
-      return expr;
+      const operand = this.parseExpression(PRECEDENCE.unary);
+      return {
+        kind: "unary",
+        op: token.value,
+        operand,
+        start,
+        end: operand.end,
+      };
     }
 
-    throw new Error(`Unexpected token: ${token.value}`);
+    throw this.error(`Unexpected token: ${token.value}`, token);
+  }
+
+  private expectClosingParen(message: string) {
+    const token = this.tokenizer.peek();
+    if (!token || token.type !== "paren" || token.value !== ")") {
+      const end = this.source.length;
+      throw this.error(message, token ?? { start: end, end: end + 1 });
+    }
+    this.lastEnd = this.tokenizer.advance().end;
   }
 
-  parseInfix(left: DynoValue, operator: Token): DynoValue {
+  parseInfix(left: ExprNode, operator: Token): ExprNode {
     debugLog("parseInfix - left:", left, "operator:", operator);
+    if (operator.value === "?") {
+      return this.parseConditional(left);
+    }
     const right = this.parseExpression(operator.precedence);
     debugLog("parseInfix - right:", right);
-
-    // Return the direct result from the operator without wrapping
-    debugLog("parseInfix - operator:", operator.value);
-    debugLog("parseInfix - left:", left);
-    debugLog("parseInfix - right:", right);
-    const result = operators[operator.value as keyof typeof operators](
+    return {
+      kind: "binary",
+      op: operator.value,
       left,
       right,
-    );
-    debugLog("parseInfix - result:", result);
-    return result as DynoValue;
+      start: left.start,
+      end: right.end,
+    };
   }
 
-  parseFunctionCall(func: Token): DynoValue {
-    //console.log("parseFunctionCall - function:", func.value);
-    if (
-      !this.tokenizer.match("paren") ||
-      this.tokenizer.advance().value !== "("
-    ) {
-      throw new Error(
-        `Expected opening parenthesis after function ${func.value}`,
+  parseConditional(cond: ExprNode): ExprNode {
+    const whenTrue = this.parseExpression(0);
+    const colon = this.tokenizer.peek();
+    if (colon?.value !== ":") {
+      throw this.error(
+        "Expected ':' in conditional expression",
+        colon ?? { start: this.source.length, end: this.source.length + 1 },
       );
     }
+    this.tokenizer.advance(); // consume colon
+    // One below "?" so that a ? b : c ? d : e nests to the right
+    const whenFalse = this.parseExpression(PRECEDENCE["?"] - 1);
+    debugLog("parseConditional - branches:", whenTrue, whenFalse);
+    return {
+      kind: "conditional",
+      cond,
+      whenTrue,
+      whenFalse,
+      start: cond.start,
+      end: whenFalse.end,
+    };
+  }
 
-    const args: DynoValue[] = [];
-
-    // Use 0 precedence to parse the full expression as argument
-    //console.log("this.tokenizer.peek()", this.tokenizer.peek());
-    const arg = this.parseExpression(0);
-    args.push(arg);
-    debugLog("parseFunctionCall - argument:", arg);
-    //console.log("this.tokenizer.peek()", this.tokenizer.peek());
-    // FIXME: this is a hack to support arity up to three
-    if (this.tokenizer.peek()?.value === ",") {
-      this.tokenizer.advance(); // consume comma
-      const secondArg = this.parseExpression(0);
-      args.push(secondArg);
-      if (this.tokenizer.peek()?.value === ",") {
+  parseFunctionCall(func: Token): ExprNode {
+    // The tokenizer only marks names followed by "(" as functions
+    this.tokenizer.advance(); // consume opening parenthesis
+
+    const args: ExprNode[] = [];
+
+    // Parse comma-separated arguments until the closing parenthesis, using 0
+    // precedence so each argument is a full expression
+    const next = this.tokenizer.peek();
+    if (!(next?.type === "paren" && next.value === ")")) {
+      while (true) {
+        const arg = this.parseExpression(0);
+        args.push(arg);
+        debugLog("parseFunctionCall - argument:", arg);
+        if (this.tokenizer.peek()?.value !== ",") {
+          break;
+        }
         this.tokenizer.advance(); // consume comma
-        const thirdArg = this.parseExpression(0);
-        args.push(thirdArg);
       }
     }
 
-    if (
-      !this.tokenizer.match("paren") ||
-      this.tokenizer.advance().value !== ")"
-    ) {
-      const nextToken = this.tokenizer.peek();
-      console.log(
-        "Expected closing parenthesis after function. Instead found: ",
-        nextToken,
-      );
-      throw new Error(
-        `Expected closing parenthesis after function ${func.value}`,
-      );
-    }
-
-    // Return the direct result from the function without wrapping
+    this.expectClosingParen(
+      `Expected closing parenthesis after function ${func.value}`,
+    );
     debugLog("parseFunctionCall - function:", func.value);
     debugLog("parseFunctionCall - arguments:", args);
-    const result = functions[func.value as keyof typeof functions](...args);
-    debugLog("parseFunctionCall - result:", result);
-    return result as DynoValue;
+    return {
+      kind: "call",
+      name: func.value,
+      args,
+      start: func.start,
+      end: this.lastEnd,
+    };
   }
 
-  parsePropertyAccess(left: DynoValue, property: Token): DynoValue {
+  parsePropertyAccess(left: ExprNode, property: Token): ExprNode {
     debugLog("parsePropertyAccess - left:", left, "property:", property);
-    if (!isValidDynoType(left)) {
-      throw new Error(`Invalid value for property access: ${left}`);
-    }
-    const result = split(left).outputs[property.value];
-    debugLog("parsePropertyAccess - result:", result);
-    return result;
+    return {
+      kind: "property",
+      object: left,
+      name: property.value,
+      start: left.start,
+      end: property.end,
+    };
   }
 }
 
-// Main tag function
-export function dynoTag(
-  strings: TemplateStringsArray,
-  ...values: DynoValue[]
-): DynoValue {
-  // convert all javascript numbers to dynoFloat
-  const processedValues = values.map((value) => {
-    debugLog("value", value);
-    if (typeof value === "number") {
-      return dynoConst("float", value);
-    }
-    return value;
-  });
+// Infers the static type of every node, throwing DynoExpressionError at the
+// first ill-formed or ill-typed subexpression
+class TypeChecker {
+  private source: string;
+  private values: DynoValue[];
+  private scope: DynoScope;
+
+  constructor(source: string, values: DynoValue[], scope: DynoScope) {
+    this.source = source;
+    this.values = values;
+    this.scope = scope;
+  }
 
-  // Validate interpolated values
-  for (const value of processedValues) {
+  error(message: string, node: ExprNode) {
+    return new DynoExpressionError(message, this.source, node.start, node.end);
+  }
+
+  // Run a type rule, reporting its failure at `node`
+  private rule(node: ExprNode, fn: () => ExprType, prefix = "") {
+    try {
+      return fn();
+    } catch (error) {
+      throw this.error(`${prefix}${(error as Error).message}`, node);
+    }
+  }
+
+  private typeOfValue(value: DynoValue, node: ExprNode, what: string) {
     if (!isValidDynoType(value)) {
-      debugLog("value", value);
-      throw new Error(`Invalid dyno type: ${value}`);
+      throw this.error(`Invalid dyno value for ${what}`, node);
+    }
+    return this.rule(
+      node,
+      () => typeOf(value),
+      `Cannot determine type of ${what}: `,
+    );
+  }
+
+  check(node: ExprNode): ExprType {
+    switch (node.kind) {
+      case "number":
+        return "float";
+      case "value":
+        return this.typeOfValue(
+          this.values[node.index],
+          node,
+          `interpolated value \${${node.index}}`,
+        );
+      case "identifier": {
+        const vars = this.scope.vars;
+        if (vars && Object.hasOwn(vars, node.name)) {
+          return this.typeOfValue(
+            toDynoValue(vars[node.name]),
+            node,
+            node.name,
+          );
+        }
+        // A zero-arity function used without parentheses, e.g. PI
+        const def = lookupFunction(node.name, this.scope);
+        if (def && !Array.isArray(def.arity) && def.arity === 0) {
+          return def.type ? def.type([]) : "unknown";
+        }
+        throw this.error(`Unknown identifier: ${node.name}`, node);
+      }
+      case "unary": {
+        const operand = this.check(node.operand);
+        return this.rule(node, () => unaryType(node.op, operand));
+      }
+      case "binary": {
+        const left = this.check(node.left);
+        const right = this.check(node.right);
+        return this.rule(node, () => binaryType(node.op, left, right));
+      }
+      case "conditional": {
+        const cond = this.check(node.cond);
+        const whenTrue = this.check(node.whenTrue);
+        const whenFalse = this.check(node.whenFalse);
+        if (cond !== "bool" && cond !== "unknown") {
+          throw this.error(`Condition must be bool, got ${cond}`, node.cond);
+        }
+        if (whenTrue === "unknown" || whenFalse === "unknown") {
+          return "unknown";
+        }
+        if (whenTrue !== whenFalse) {
+          throw this.error(
+            `Conditional branches have different types: ${whenTrue} and ${whenFalse}`,
+            node,
+          );
+        }
+        return whenTrue;
+      }
+      case "call": {
+        if (isReduction(node.name, node.args)) {
+          return this.checkReduction(node);
+        }
+        const def = lookupFunction(node.name, this.scope);
+        if (!def) {
+          throw this.error(`Unknown function: ${node.name}`, node);
+        }
+        this.rule(node, () => {
+          checkArity(node.name, def, node.args.length);
+          return "";
+        });
+        const argTypes = node.args.map((arg) => this.check(arg));
+        if (!def.type || argTypes.includes("unknown")) {
+          return "unknown";
+        }
+        const type = def.type;
+        return this.rule(node, () => type(argTypes), `Function ${node.name} `);
+      }
+      case "property": {
+        const object = this.check(node.object);
+        return this.rule(node, () => propertyType(object, node.name));
+      }
     }
   }
 
-  // Combine all parts into a single expression
-  let fullExpr = "";
-  for (let i = 0; i < strings.length; i++) {
-    fullExpr += strings[i];
-    if (i < values.length) {
-      fullExpr += `$${i}`; // Use $0, $1, etc. as placeholders
+  // Integer loop bound that must be known at template-evaluation time
+  private checkBound(node: ExprNode) {
+    const value = constantValue(node, this.values, this.scope);
+    if (value === undefined || !Number.isInteger(value)) {
+      throw this.error("Loop bounds must be constant integers", node);
     }
+    return value;
+  }
+
+  private checkReduction(node: ExprNode & { kind: "call" }): ExprType {
+    const [variable, startNode, endNode, body] = node.args;
+    if (node.args.length !== 4 || variable.kind !== "identifier") {
+      throw this.error(
+        `${node.name} expects (variable, start, end, expression)`,
+        node,
+      );
+    }
+    const start = this.checkBound(startNode);
+    const end = this.checkBound(endNode);
+    if (end - start + 1 > MAX_UNROLL) {
+      throw this.error(
+        `Range ${start} to ${end} unrolls to more than ${MAX_UNROLL} terms`,
+        node,
+      );
+    }
+
+    // The body's type doesn't depend on the loop variable's value
+    const bodyType = new TypeChecker(
+      this.source,
+      this.values,
+      withVar(this.scope, variable.name, start),
+    ).check(body);
+    if (bodyType !== "unknown" && !isNumericType(bodyType)) {
+      throw this.error(
+        `${node.name} expects a numeric expression, got ${bodyType}`,
+        body,
+      );
+    }
+    if (
+      end < start &&
+      !(reductions[node.name].identity !== undefined && isFloatType(bodyType))
+    ) {
+      throw this.error(`Empty range ${start} to ${end} in ${node.name}`, node);
+    }
+    return bodyType;
+  }
+}
+
+// Constant folding and sharing of built nodes
+
+// Value of a constant, or undefined for anything that can change or isn't a
+// scalar or vector
+function constantData(value: DynoValue) {
+  return value instanceof dyno.DynoConst ? readCpuValue(value) : undefined;
+}
+
+// One constant node per type and value, keeping at most MAX_CONSTANTS of them:
+// values that change every frame would otherwise grow it forever
+const constants = new Map<string, DynoValue>();
+const MAX_CONSTANTS = 4096;
+
+function constant(type: ExprType, value: CpuValue): DynoValue {
+  // Keep -0 apart from 0
+  const key = `${type}:${JSON.stringify(value, (_, x) => (Object.is(x, -0) ? "-0" : x))}`;
+  let node = constants.get(key);
+  if (node === undefined) {
+    node = dynoConst(type as LiteralType, value);
+    if (constants.size >= MAX_CONSTANTS) {
+      // Forget the oldest; a later use builds a new node in its place
+      constants.delete(constants.keys().next().value as string);
+    }
+    constants.set(key, node);
   }
+  return node;
+}
 
-  // Replace the placeholders with ${index} for parsing
-  const expr = fullExpr.replace(/\$(\d+)/g, "${$1}");
+// Constant result of an operation whose inputs are all constants, computed on
+// the CPU. Non-finite results are left for the GPU to compute.
+function fold(inputs: DynoValue[], evaluate: (args: CpuTyped[]) => CpuTyped) {
+  const args = inputs.map(constantData);
+  if (!args.every((arg) => arg !== undefined)) {
+    return undefined;
+  }
+  const result = evaluate(args as CpuTyped[]);
+  if (!result.data.every(Number.isFinite)) {
+    return undefined;
+  }
+  return constant(result.type, fromCpuTyped(result));
+}
 
-  // Parse the complete expression using Pratt parser
-  const parser = new PrattParser(expr, processedValues);
-  return parser.parseExpression();
+// Built nodes by operation and inputs, so that identical subexpressions share
+// one dyno node and are computed once in the shader. Entries hang off the
+// first input and are collected along with it.
+const sharedNodes = new WeakMap<object, Map<string, DynoValue>>();
+const nodeIds = new WeakMap<object, number>();
+let nextNodeId = 0;
+
+// Node and output key behind an input. dyno creates a new DynoOutput on every
+// access to `outputs`, so outputs are identified by their node and key.
+function inputOwner(value: DynoValue): [object, string] {
+  if (value instanceof dyno.DynoOutput) {
+    return [value.dyno, value.key];
+  }
+  return [value as object, ""];
+}
+
+function nodeId(value: DynoValue) {
+  const [owner, key] = inputOwner(value);
+  let id = nodeIds.get(owner);
+  if (id === undefined) {
+    id = nextNodeId++;
+    nodeIds.set(owner, id);
+  }
+  return key ? `${id}.${key}` : `${id}`;
+}
+
+// Node for `op` on `inputs`, built at most once while the inputs are alive
+function shared(op: string, inputs: DynoValue[], build: () => DynoValue) {
+  const [first, ...rest] = inputs;
+  if (!first) {
+    return build();
+  }
+  const [owner, outKey] = inputOwner(first);
+  const key = `${op}(${[outKey, ...rest.map(nodeId)].join(",")})`;
+  let nodes = sharedNodes.get(owner);
+  if (!nodes) {
+    nodes = new Map();
+    sharedNodes.set(owner, nodes);
+  }
+  let node = nodes.get(key);
+  if (node === undefined) {
+    node = build();
+    nodes.set(key, node);
+  }
+  return node;
+}
+
+// Builds the dyno graph for a checked expression, folding constant
+// subexpressions and reusing nodes for repeated ones
+class DynoBuilder {
+  private values: DynoValue[];
+  private scope: DynoScope;
+
+  constructor(values: DynoValue[], scope: DynoScope) {
+    this.values = values;
+    this.scope = scope;
+  }
+
+  build(node: ExprNode): DynoValue {
+    switch (node.kind) {
+      case "number":
+        return constant("float", node.value);
+      case "value":
+        return this.values[node.index];
+      case "identifier": {
+        const vars = this.scope.vars;
+        if (vars && Object.hasOwn(vars, node.name)) {
+          return toDynoValue(vars[node.name]);
+        }
+        // Constants such as PI are zero-arity functions
+        return this.call(node.name, []);
+      }
+      case "unary": {
+        const { op } = node;
+        const operand = this.build(node.operand);
+        return (
+          fold([operand], ([a]) => cpuUnary(op, a)) ??
+          shared(`unary${op}`, [operand], () =>
+            prefixOperators[op as keyof typeof prefixOperators](operand),
+          )
+        );
+      }
+      case "binary": {
+        const { op } = node;
+        const left = this.build(node.left);
+        const right = this.build(node.right);
+        return (
+          fold([left, right], ([a, b]) => cpuBinary(op, a, b)) ??
+          shared(op, [left, right], () =>
+            operators[op as keyof typeof operators](left, right),
+          )
+        );
+      }
+      case "conditional": {
+        const cond = this.build(node.cond);
+        // A constant condition picks its branch without building the other
+        const known = constantData(cond);
+        if (known) {
+          return this.build(known.data[0] ? node.whenTrue : node.whenFalse);
+        }
+        const whenTrue = this.build(node.whenTrue);
+        const whenFalse = this.build(node.whenFalse);
+        return shared("?:", [cond, whenTrue, whenFalse], () =>
+          conditional(cond, whenTrue, whenFalse),
+        );
+      }
+      case "call": {
+        if (isReduction(node.name, node.args)) {
+          return this.buildReduction(node);
+        }
+        return this.call(
+          node.name,
+          node.args.map((arg) => this.build(arg)),
+        );
+      }
+      case "property": {
+        const { name } = node;
+        const object = this.build(node.object);
+        const folded = fold([object], ([a]) => cpuSwizzle(a, name));
+        if (folded) {
+          return folded;
+        }
+        if (name.length === 1) {
+          const parts = shared("split", [object], () => split(object));
+          return (parts as { outputs: Record<string, DynoValue> }).outputs[
+            name
+          ];
+        }
+        return shared(`.${name}`, [object], () => swizzle(object, name));
+      }
+    }
+  }
+
+  private call(name: string, args: DynoValue[]): DynoValue {
+    const def = lookupFunction(name, this.scope) as FunctionDef;
+    debugLog("DynoBuilder - call:", name, args);
+    // Only builtins are known to be pure; other functions build fresh nodes
+    if (!isBuiltin(name, def)) {
+      return def.impl(...args);
+    }
+    return (
+      fold(args, (values) => cpuBuiltin(name, values)) ??
+      shared(`call:${name}`, args, () => def.impl(...args))
+    );
+  }
+
+  private buildReduction(node: ExprNode & { kind: "call" }): DynoValue {
+    const [variable, startNode, endNode, body] = node.args;
+    const name = (variable as { name: string }).name;
+    const reduction = reductions[node.name];
+    const start = constantValue(startNode, this.values, this.scope) as number;
+    const end = constantValue(endNode, this.values, this.scope) as number;
+
+    // Build the body once per iteration with the loop variable as a constant
+    const buildTerm = (i: number) =>
+      new DynoBuilder(this.values, withVar(this.scope, name, i)).build(body);
+
+    if (end < start) {
+      // The checker only allows empty ranges for reductions with an identity
+      const type = typeOf(buildTerm(start)) as LiteralType;
+      const empty = reduction.identity === 0 ? literalZero : literalOne;
+      return dynoLiteral(type, empty(type));
+    }
+    let result = buildTerm(start);
+    for (let i = start + 1; i <= end; i++) {
+      const term = buildTerm(i);
+      result =
+        fold([result, term], ([a, b]) => reduction.evaluate(a, b)) ??
+        shared(`reduce:${node.name}`, [result, term], () =>
+          reduction.combine(result, term),
+        );
+    }
+    return result;
+  }
+}
+
+// Result of dynoEval: numbers for float, int and uint, booleans for bool, and
+// arrays of either for vectors
+export type CpuValue = number | boolean | number[] | boolean[];
+
+// A value inside the CPU evaluator; bool components are stored as 0 and 1
+interface CpuTyped {
+  type: ExprType;
+  data: number[];
+}
+
+// Store a component the way GLSL would for its element type. Floats stay in
+// double precision.
+function storeAs(element: ExprType, x: number) {
+  switch (element) {
+    case "int":
+      return x | 0;
+    case "uint":
+      return x >>> 0;
+    case "bool":
+      return x ? 1 : 0;
+    default:
+      return x;
+  }
+}
+
+// Components of a number, boolean, array or THREE vector, or undefined for
+// anything else
+function cpuData(value: unknown): number[] | undefined {
+  if (typeof value === "number" || typeof value === "boolean") {
+    return [Number(value)];
+  }
+  if (Array.isArray(value)) {
+    return value.every((x) => typeof x === "number" || typeof x === "boolean")
+      ? value.map(Number)
+      : undefined;
+  }
+  if (
+    value instanceof THREE.Vector2 ||
+    value instanceof THREE.Vector3 ||
+    value instanceof THREE.Vector4
+  ) {
+    return (value as { toArray(): number[] }).toArray();
+  }
+  return undefined;
+}
+
+// Type a plain value: numbers are floats, booleans are bools and arrays of 2
+// to 4 components are vectors of either
+function cpuTyped(value: unknown): CpuTyped | undefined {
+  const data = cpuData(value);
+  if (!data || data.length > 4) {
+    return undefined;
+  }
+  const flat = Array.isArray(value) ? value[0] : value;
+  const element = typeof flat === "boolean" ? "bool" : "float";
+  return { type: vectorType(element, data.length), data };
+}
+
+function fromCpuTyped({ type, data }: CpuTyped): CpuValue {
+  const values = elementType(type) === "bool" ? data.map(Boolean) : data;
+  return isVectorType(type) ? (values as CpuValue) : values[0];
+}
+
+// Bindings for dynoEval as dyno values, so that the type checker sees them:
+// booleans, number arrays and THREE vectors become constants
+function toEvalValue(value: DynoValue | number): DynoValue {
+  if (typeof value === "number" || isValidDynoType(value)) {
+    return toDynoValue(value);
+  }
+  const typed = cpuTyped(value);
+  if (!typed) {
+    return value;
+  }
+  const { type, data } = typed;
+  return dynoConst(type as LiteralType, data.length === 1 ? data[0] : data);
+}
+
+// Apply `fn` to each component of a `type` result, broadcasting scalar
+// arguments
+function componentwise(
+  type: ExprType,
+  args: CpuTyped[],
+  fn: (...xs: number[]) => number,
+): CpuTyped {
+  const element = elementType(type);
+  const data = [];
+  for (let i = 0; i < vectorSize(type); i++) {
+    const xs = args.map((arg) =>
+      arg.data.length === 1 ? arg.data[0] : arg.data[i],
+    );
+    data.push(storeAs(element, fn(...xs)));
+  }
+  return { type, data };
+}
+
+// GLSL mod, which takes the sign of the divisor unlike JavaScript's %
+const glslMod = (x: number, y: number) => x - y * Math.floor(x / y);
+
+const cpuOperators: Record<string, (a: number, b: number) => number> = {
+  "+": (a, b) => a + b,
+  "-": (a, b) => a - b,
+  "*": (a, b) => a * b,
+  "/": (a, b) => a / b,
+  "%": glslMod,
+  "<": (a, b) => Number(a < b),
+  "<=": (a, b) => Number(a <= b),
+  ">": (a, b) => Number(a > b),
+  ">=": (a, b) => Number(a >= b),
+  "==": (a, b) => Number(a === b),
+  "!=": (a, b) => Number(a !== b),
+  "&&": (a, b) => Number(a && b),
+  "||": (a, b) => Number(a || b),
+};
+
+// Binary operator on the CPU, with 32-bit wrapping integer arithmetic
+function cpuBinary(op: string, a: CpuTyped, b: CpuTyped): CpuTyped {
+  const type = binaryType(op, a.type, b.type);
+  let fn = cpuOperators[op];
+  if (elementType(type) === "int" || elementType(type) === "uint") {
+    if (op === "*") {
+      fn = Math.imul;
+    } else if (op === "/") {
+      fn = (x, y) => Math.trunc(x / y);
+    }
+  }
+  return componentwise(type, [a, b], fn);
+}
+
+// Component-wise builtin that maps numbers to numbers
+const lift =
+  (fn: (...xs: number[]) => number) => (args: CpuTyped[], type: ExprType) =>
+    componentwise(type, args, fn);
+
+const cpuFloat = (x: number): CpuTyped => ({ type: "float", data: [x] });
+
+const cpuVector = (data: number[]): CpuTyped => ({
+  type: vectorType("float", data.length),
+  data,
+});
+
+function dotData(a: number[], b: number[]) {
+  return a.reduce((sum, x, i) => sum + x * b[i], 0);
+}
+
+// Components of a GLSL-style vector constructor call
+function cpuConstructVector(type: ExprType, args: CpuTyped[]): CpuTyped {
+  const size = vectorSize(type);
+  const data = args.flatMap((arg) => arg.data);
+  return {
+    type,
+    data: data.length === 1 ? Array(size).fill(data[0]) : data.slice(0, size),
+  };
+}
+
+// PCG hashing, matching dyno's pcg_mix, pcg_next and pcg_hash on 32-bit
+// unsigned words
+const PCG_MIX = [1, 0x9e3779b9, 0x85ebca6b, 0xc2b2ae35];
+
+// Bits of each component as a uint: floats by their IEEE 754 bits, as
+// floatBitsToUint does, and integers by two's complement
+function uintBits({ type, data }: CpuTyped) {
+  if (isFloatType(type)) {
+    return [...new Uint32Array(new Float32Array(data).buffer)];
+  }
+  return data.map((x) => x >>> 0);
+}
+
+function pcgMix(bits: number[]) {
+  return (
+    bits.reduce((state, bit, i) => state + Math.imul(PCG_MIX[i], bit), 0) >>> 0
+  );
+}
+
+function pcgNext(state: number) {
+  return (Math.imul(state, 747796405) + 2891336453) >>> 0;
+}
+
+function pcgHash(state: number) {
+  const hash = Math.imul((state >>> ((state >>> 28) + 4)) ^ state, 277803737);
+  return ((hash >>> 22) ^ hash) >>> 0;
+}
+
+// `count` pseudo-random words for a value, as in dyno's hash to hash4
+function pcgWords(value: CpuTyped, count: number) {
+  let state = pcgMix(uintBits(value));
+  const words = [];
+  for (let i = 0; i < count; i++) {
+    state = pcgNext(state);
+    words.push(pcgHash(state));
+  }
+  return words;
+}
+
+// Words scaled to [0, 1) in single precision, as in dyno's hashFloat
+const unitWords = (words: number[]) =>
+  words.map((word) => Math.fround(Math.fround(word) * 2 ** -32));
+
+// CPU implementations of the builtins, called with checked arguments and the
+// result type from the builtin's type rule
+const cpuFunctions: Record<
+  string,
+  (args: CpuTyped[], type: ExprType) => CpuTyped
+> = {
+  PI: () => cpuFloat(Math.PI),
+
+  vec2: (args, type) => cpuConstructVector(type, args),
+  vec3: (args, type) => cpuConstructVector(type, args),
+  vec4: (args, type) => cpuConstructVector(type, args),
+
+  abs: lift(Math.abs),
+  sign: lift(Math.sign),
+  floor: lift(Math.floor),
+  ceil: lift(Math.ceil),
+  trunc: lift(Math.trunc),
+  // Halves round away from zero
+  round: lift((x) => Math.sign(x) * Math.round(Math.abs(x))),
+  fract: lift((x) => x - Math.floor(x)),
+  mod: lift(glslMod),
+  min: lift(Math.min),
+  max: lift(Math.max),
+  clamp: lift((x, lo, hi) => Math.min(Math.max(x, lo), hi)),
+  mix: lift((a, b, t) => a * (1 - t) + b * t),
+  step: lift((edge, x) => (x < edge ? 0 : 1)),
+  smoothstep: lift((edge0, edge1, x) => {
+    const t = Math.min(Math.max((x - edge0) / (edge1 - edge0), 0), 1);
+    return t * t * (3 - 2 * t);
+  }),
+
+  pow: lift(Math.pow),
+  exp: lift(Math.exp),
+  exp2: lift((x) => 2 ** x),
+  log: lift(Math.log),
+  log2: lift(Math.log2),
+  sqrt: lift(Math.sqrt),
+  inversesqrt: lift((x) => 1 / Math.sqrt(x)),
+
+  radians: lift((x) => (x * Math.PI) / 180),
+  degrees: lift((x) => (x * 180) / Math.PI),
+  sin: lift(Math.sin),
+  cos: lift(Math.cos),
+  tan: lift(Math.tan),
+  asin: lift(Math.asin),
+  acos: lift(Math.acos),
+  atan: lift((y, x) => (x === undefined ? Math.atan(y) : Math.atan2(y, x))),
+
+  length: ([a]) => cpuFloat(Math.hypot(...a.data)),
+  distance: ([a, b]) =>
+    cpuFloat(Math.hypot(...a.data.map((x, i) => x - b.data[i]))),
+  dot: ([a, b]) => cpuFloat(dotData(a.data, b.data)),
+  cross: ([{ data: a }, { data: b }]) =>
+    cpuVector([
+      a[1] * b[2] - a[2] * b[1],
+      a[2] * b[0] - a[0] * b[2],
+      a[0] * b[1] - a[1] * b[0],
+    ]),
+  normalize: ([a], type) => {
+    const length = Math.hypot(...a.data);
+    return componentwise(type, [a], (x) => x / length);
+  },
+  reflect: ([i, n], type) => {
+    const d = dotData(n.data, i.data);
+    return componentwise(type, [i, n], (x, y) => x - 2 * d * y);
+  },
+  refract: (
+    [
+      i,
+      n,
+      {
+        data: [eta],
+      },
+    ],
+    type,
+  ) => {
+    const d = dotData(n.data, i.data);
+    const k = 1 - eta * eta * (1 - d * d);
+    if (k < 0) {
+      return componentwise(type, [], () => 0);
+    }
+    return componentwise(
+      type,
+      [i, n],
+      (x, y) => eta * x - (eta * d + Math.sqrt(k)) * y,
+    );
+  },
+
+  hash: ([a]) => ({ type: "uint", data: pcgWords(a, 1) }),
+  hash2: ([a]) => ({ type: "uvec2", data: pcgWords(a, 2) }),
+  hash3: ([a]) => ({ type: "uvec3", data: pcgWords(a, 3) }),
+  hash4: ([a]) => ({ type: "uvec4", data: pcgWords(a, 4) }),
+  hashFloat: ([a]) => cpuFloat(unitWords(pcgWords(a, 1))[0]),
+  hashVec2: ([a]) => cpuVector(unitWords(pcgWords(a, 2))),
+  hashVec3: ([a]) => cpuVector(unitWords(pcgWords(a, 3))),
+  hashVec4: ([a]) => cpuVector(unitWords(pcgWords(a, 4))),
+};
+
+// Current value of a constant or uniform, or undefined if it isn't one or
+// holds something other than a scalar or vector
+function readCpuValue(value: DynoValue): CpuTyped | undefined {
+  const type = typeOf(value);
+  const data =
+    value && typeof value === "object" && "value" in value
+      ? cpuData(value.value)
+      : undefined;
+  const element = elementType(type);
+  if (
+    !data ||
+    !(isNumericType(type) || element === "bool") ||
+    data.length !== vectorSize(type)
+  ) {
+    return undefined;
+  }
+  return { type, data: data.map((x) => storeAs(element, x)) };
+}
+
+function cpuUnary(op: string, a: CpuTyped): CpuTyped {
+  const type = unaryType(op, a.type);
+  return componentwise(type, [a], (x) => (op === "-" ? -x : Number(!x)));
+}
+
+function cpuSwizzle(a: CpuTyped, prop: string): CpuTyped {
+  const set = "xyzw".includes(prop[0]) ? "xyzw" : "rgba";
+  return {
+    type: propertyType(a.type, prop),
+    data: [...prop].map((c) => a.data[set.indexOf(c)]),
+  };
+}
+
+// Builtin call on the CPU, with the result type from its type rule
+function cpuBuiltin(name: string, args: CpuTyped[]): CpuTyped {
+  const rule = functions[name].type as NonNullable<FunctionDef["type"]>;
+  return cpuFunctions[name](args, rule(args.map((arg) => arg.type)));
+}
+
+// True if `def` is the builtin `name` rather than a function shadowing it
+function isBuiltin(name: string, def: FunctionDef) {
+  return Object.hasOwn(cpuFunctions, name) && def === functions[name];
+}
+
+// Computes the value of a checked expression on the CPU. Interpolated values
+// and variables must be numbers, constants or uniforms, whose current value
+// is used; dyno graph nodes can't be evaluated.
+class CpuEvaluator {
+  private source: string;
+  private values: DynoValue[];
+  private scope: DynoScope;
+
+  constructor(source: string, values: DynoValue[], scope: DynoScope) {
+    this.source = source;
+    this.values = values;
+    this.scope = scope;
+  }
+
+  error(message: string, node: ExprNode) {
+    return new DynoExpressionError(message, this.source, node.start, node.end);
+  }
+
+  private read(value: DynoValue, node: ExprNode, what: string): CpuTyped {
+    const typed = readCpuValue(value);
+    if (!typed) {
+      throw this.error(
+        `Cannot evaluate ${what} on the CPU: expected a scalar or vector value, constant or uniform`,
+        node,
+      );
+    }
+    return typed;
+  }
+
+  evaluate(node: ExprNode): CpuTyped {
+    switch (node.kind) {
+      case "number":
+        return cpuFloat(node.value);
+      case "value":
+        return this.read(
+          this.values[node.index],
+          node,
+          `interpolated value \${${node.index}}`,
+        );
+      case "identifier": {
+        const vars = this.scope.vars;
+        if (vars && Object.hasOwn(vars, node.name)) {
+          return this.read(toDynoValue(vars[node.name]), node, node.name);
+        }
+        // Constants such as PI are zero-arity functions
+        return this.call(node, node.name, []);
+      }
+      case "unary":
+        return cpuUnary(node.op, this.evaluate(node.operand));
+      case "binary":
+        return cpuBinary(
+          node.op,
+          this.evaluate(node.left),
+          this.evaluate(node.right),
+        );
+      case "conditional":
+        return this.evaluate(node.cond).data[0]
+          ? this.evaluate(node.whenTrue)
+          : this.evaluate(node.whenFalse);
+      case "call":
+        if (isReduction(node.name, node.args)) {
+          return this.evaluateReduction(node);
+        }
+        return this.call(
+          node,
+          node.name,
+          node.args.map((arg) => this.evaluate(arg)),
+        );
+      case "property":
+        return cpuSwizzle(this.evaluate(node.object), node.name);
+    }
+  }
+
+  private call(node: ExprNode, name: string, args: CpuTyped[]): CpuTyped {
+    const def = lookupFunction(name, this.scope) as FunctionDef;
+    const argTypes = args.map((arg) => arg.type);
+    // Builtins run their own CPU implementation unless shadowed
+    if (isBuiltin(name, def)) {
+      return cpuBuiltin(name, args);
+    }
+    if (!def.cpu) {
+      throw this.error(`Function ${name} has no CPU implementation`, node);
+    }
+    const result = cpuTyped(def.cpu(...args.map(fromCpuTyped)));
+    if (!result) {
+      throw this.error(`Function ${name} returned an invalid CPU value`, node);
+    }
+    // Let the type rule decide between e.g. float and int results
+    const type = def.type ? def.type(argTypes) : result.type;
+    if (vectorSize(type) !== result.data.length) {
+      throw this.error(
+        `Function ${name} returned ${result.type} on the CPU, expected ${type}`,
+        node,
+      );
+    }
+    const element = elementType(type);
+    return { type, data: result.data.map((x) => storeAs(element, x)) };
+  }
+
+  private evaluateReduction(node: ExprNode & { kind: "call" }): CpuTyped {
+    const [variable, startNode, endNode, body] = node.args;
+    const name = (variable as { name: string }).name;
+    const reduction = reductions[node.name];
+    const start = constantValue(startNode, this.values, this.scope) as number;
+    const end = constantValue(endNode, this.values, this.scope) as number;
+
+    const evaluateTerm = (i: number) =>
+      new CpuEvaluator(
+        this.source,
+        this.values,
+        withVar(this.scope, name, i),
+      ).evaluate(body);
+
+    if (end < start) {
+      // The checker only allows empty ranges for reductions with an identity
+      const { type } = evaluateTerm(start);
+      return componentwise(type, [], () => reduction.identity as number);
+    }
+    let result = evaluateTerm(start);
+    for (let i = start + 1; i <= end; i++) {
+      result = reduction.evaluate(result, evaluateTerm(i));
+    }
+    return result;
+  }
+}
+
+// JavaScript numbers become float constants; everything else passes through
+function toDynoValue(value: DynoValue | number): DynoValue {
+  if (typeof value === "number") {
+    return constant("float", value);
+  }
+  return value;
+}
+
+// Template text with ${0}, ${1}, ... standing in for interpolated values
+function templateSource(strings: TemplateStringsArray) {
+  let source = strings[0];
+  for (let i = 1; i < strings.length; i++) {
+    source += `\${${i - 1}}${strings[i]}`;
+  }
+  return source;
+}
+
+// Parsed templates by their strings array, which JavaScript reuses each time
+// the same template literal is evaluated
+const parsedTemplates = new WeakMap<
+  TemplateStringsArray,
+  { source: string; ast: ExprNode }
+>();
+
+function parseCached(strings: TemplateStringsArray) {
+  let parsed = parsedTemplates.get(strings);
+  if (!parsed) {
+    const source = templateSource(strings);
+    parsed = { source, ast: new PrattParser(source).parse() };
+    parsedTemplates.set(strings, parsed);
+  }
+  return parsed;
+}
+
+function parseTemplate(
+  strings: TemplateStringsArray,
+  values: DynoValue[],
+  scope: DynoScope,
+): DynoValue {
+  // convert all javascript numbers to dynoFloat
+  const processedValues = values.map((value) => {
+    debugLog("value", value);
+    return toDynoValue(value);
+  });
+
+  // Parse once per template, then check types before building any dyno nodes
+  const { source, ast } = parseCached(strings);
+  new TypeChecker(source, processedValues, scope).check(ast);
+  return new DynoBuilder(processedValues, scope).build(ast);
+}
+
+// Main tag function
+export function dynoTag(
+  strings: TemplateStringsArray,
+  ...values: DynoValue[]
+): DynoValue {
+  return parseTemplate(strings, values, {});
+}
+
+// Create a tag whose templates can refer to `vars` and call `functions` by
+// name, e.g. createDynoTag({ vars: { time: dynoTime } })`sin(time)`
+export function createDynoTag(scope: DynoScope) {
+  return (strings: TemplateStringsArray, ...values: DynoValue[]) =>
+    parseTemplate(strings, values, scope);
 }
 
 // Shorthand export
 export const d = dynoTag;
 
+function evaluateTemplate(
+  strings: TemplateStringsArray,
+  values: DynoValue[],
+  scope: DynoScope,
+): CpuValue {
+  const vars = scope.vars ?? {};
+  const evalScope = {
+    ...scope,
+    vars: Object.fromEntries(
+      Object.entries(vars).map(([name, value]) => [name, toEvalValue(value)]),
+    ),
+  };
+  const processedValues = values.map(toEvalValue);
+
+  // Same parse and checks as d, so both accept exactly the same templates
+  const { source, ast } = parseCached(strings);
+  new TypeChecker(source, processedValues, evalScope).check(ast);
+  const result = new CpuEvaluator(source, processedValues, evalScope).evaluate(
+    ast,
+  );
+  return fromCpuTyped(result);
+}
+
+// Evaluate a template on the CPU with GLSL semantics instead of building a
+// dyno graph, e.g. dynoEval`mod(${[-1, 2]}, 3)` returns [2, 2]. Values may be
+// numbers, booleans, arrays, THREE vectors, or dyno constants and uniforms.
+export function dynoEval(
+  strings: TemplateStringsArray,
+  ...values: DynoValue[]
+): CpuValue {
+  return evaluateTemplate(strings, values, {});
+}
+
+// Scoped counterpart of dynoEval. Pass the scope of a createDynoTag tag, with
+// `cpu` implementations for its functions, to preview what its templates
+// compute, e.g. for one splat index and time.
+export function createDynoEval(scope: DynoScope) {
+  return (strings: TemplateStringsArray, ...values: DynoValue[]) =>
+    evaluateTemplate(strings, values, scope);
+}
+
 // Test suite
 export function runTests() {
   debugLog("Running dynoexp tests...");
@@ -480,6 +2177,83 @@ export function runTests() {
     }
   }
 
+  // Assertions
+  function expectType(result: DynoValue, type: string) {
+    const actual = typeOf(result);
+    if (actual !== type) {
+      throw new Error(`Expected type ${type}, got ${actual}`);
+    }
+  }
+
+  // Result is built by a node of class `node`, e.g. dyno.Add, with output
+  // type `type`
+  function expectNode(
+    result: DynoValue,
+    node: abstract new (...args: never[]) => unknown,
+    type: string,
+  ) {
+    const owner = result instanceof dyno.DynoOutput ? result.dyno : result;
+    if (!(owner instanceof node)) {
+      const actual = (owner as object)?.constructor?.name;
+      throw new Error(`Expected a ${node.name} node, got ${actual}`);
+    }
+    expectType(result, type);
+  }
+
+  function expectValue(actual: CpuValue, expected: CpuValue) {
+    const a = [actual].flat();
+    const e = [expected].flat();
+    const close = a.every((x, i) =>
+      typeof x === "number"
+        ? Math.abs(x - (e[i] as number)) < 1e-6
+        : x === e[i],
+    );
+    if (a.length !== e.length || !close) {
+      throw new Error(`Expected ${e}, got ${a}`);
+    }
+  }
+
+  function expectConstant(result: DynoValue, expected: CpuValue) {
+    if (!(result instanceof dyno.DynoConst)) {
+      throw new Error("Expected a folded constant");
+    }
+    expectValue(result.value as CpuValue, expected);
+  }
+
+  // `fn` throws a DynoExpressionError whose reason starts with `reason`,
+  // positioned at `start`
+  function expectError(fn: () => void, reason: string, start: number) {
+    try {
+      fn();
+    } catch (error) {
+      if (!(error instanceof DynoExpressionError)) {
+        throw error;
+      }
+      if (!error.reason.startsWith(reason) || error.start !== start) {
+        throw new Error(
+          `Expected "${reason}" at ${start}, got "${error.reason}" at ${error.start}`,
+        );
+      }
+      return;
+    }
+    throw new Error(`Should have thrown "${reason}"`);
+  }
+
+  // `fn` throws an error whose message starts with `message`
+  function expectThrows(fn: () => void, message: string) {
+    try {
+      fn();
+    } catch (error) {
+      if (!(error as Error).message.startsWith(message)) {
+        throw new Error(
+          `Expected "${message}", got "${(error as Error).message}"`,
+        );
+      }
+      return;
+    }
+    throw new Error(`Should have thrown "${message}"`);
+  }
+
   // Test data
   const testVec3 = dynoVec3(new THREE.Vector3(1, 2, 3));
   const five = 5.0;
@@ -491,135 +2265,134 @@ export function runTests() {
 
   // Basic arithmetic tests
   test("Basic addition", () => {
-    const result = d`${testFloat} + ${testConst}`;
-    debugLog("Addition result:", result);
+    expectNode(d`${testFloat} + ${testConst}`, dyno.Add, "float");
   });
 
   test("Basic multiplication", () => {
-    const result = d`${testFloat} * 2`;
-    debugLog("Multiplication result:", result);
+    expectNode(d`${testFloat} * 2`, dyno.Mul, "float");
   });
 
   test("Basic float literal", () => {
-    const result = d`${testFloat} / .2`;
-    debugLog("Basic float literal result:", result);
+    expectNode(d`${testFloat} / .2`, dyno.Div, "float");
+    expectValue(dynoEval`${testFloat} / .2`, 25);
   });
 
   test("Complex arithmetic", () => {
     const result = d`(${testFloat} + ${testConst}) * 2`;
-    debugLog("Complex arithmetic result:", result);
+    expectNode(result, dyno.Mul, "float");
+    expectValue(dynoEval`(${testFloat} + ${testConst}) * 2`, 30);
   });
 
   // Vector property access tests
   test("Vector x property", () => {
-    const result = d`${testVec3}.x`;
+    expectNode(d`${testVec3}.x`, dyno.Split, "float");
+    expectValue(dynoEval`${testVec3}.x`, 1);
   });
 
   test("Vector y property", () => {
-    const result = d`${testVec3}.y`;
+    expectNode(d`${testVec3}.y`, dyno.Split, "float");
+    expectValue(dynoEval`${testVec3}.y`, 2);
   });
 
   test("Vector z property", () => {
-    const result = d`${testVec3}.z`;
+    expectNode(d`${testVec3}.z`, dyno.Split, "float");
+    expectValue(dynoEval`${testVec3}.z`, 3);
   });
 
   // Function tests
   test("Sin function", () => {
-    const result = d`sin(${testFloat})`;
+    expectNode(d`sin(${testFloat})`, dyno.Sin, "float");
   });
 
   test("Cos function", () => {
-    const result = d`cos(${testFloat})`;
+    expectNode(d`cos(${testFloat})`, dyno.Cos, "float");
   });
 
   test("Fract function", () => {
-    const result = d`fract(${testFloat})`;
+    expectNode(d`fract(${testFloat})`, dyno.Fract, "float");
   });
 
   // PI constant test
   test("PI constant", () => {
-    const result = d`PI`;
+    expectConstant(d`PI`, Math.PI);
   });
 
   // Complex expression tests
   test("Complex vector expression", () => {
     const result = d`sin(${testVec3}.x * PI) + cos(${testVec3}.y)`;
+    expectNode(result, dyno.Add, "float");
   });
 
   test("Nested function calls", () => {
-    const result = d`sin(cos(${testFloat}))`;
+    expectNode(d`sin(cos(${testFloat}))`, dyno.Sin, "float");
   });
 
   // Error cases
   test("Invalid function name", () => {
-    try {
-      d`invalidFunc(${testFloat})`;
-      throw new Error("Should have thrown for invalid function");
-    } catch (error) {
-      // Expected error
-    }
+    expectError(
+      () => d`invalidFunc(${testFloat})`,
+      "Unknown function: invalidFunc",
+      0,
+    );
   });
 
   test("Invalid property access", () => {
-    try {
-      d`${testFloat}.invalid`;
-      throw new Error("Should have thrown for invalid property");
-    } catch (error) {
-      // Expected error
-    }
+    expectError(() => d`${testFloat}.invalid`, "Cannot access .invalid", 0);
   });
 
   test("Invalid operator", () => {
-    try {
-      d`${testFloat} ^ ${testConst}`;
-      throw new Error("Should have thrown for invalid operator");
-    } catch (error) {
-      // Expected error
-    }
+    expectError(() => d`${testFloat} ^ ${testConst}`, "Invalid token: ^", 5);
   });
 
   // Edge cases
   test("Empty expression", () => {
-    const result = d``;
+    expectConstant(d``, 0);
   });
 
   test("Single value", () => {
-    const result = d`${testFloat}`;
+    if (d`${testFloat}` !== testFloat) {
+      throw new Error("A lone value should be returned as is");
+    }
   });
 
   test("Multiple spaces", () => {
-    const result = d`${testFloat}  +  ${testConst}`;
+    expectNode(d`${testFloat}  +  ${testConst}`, dyno.Add, "float");
   });
 
   test("Modulus operation", () => {
-    const result = d`${testFloat} % ${testConst}`;
+    expectNode(d`${testFloat} % ${testConst}`, dyno.Mod, "float");
   });
 
   test("Complex expression with modulus", () => {
-    const result = d`(${testFloat} + ${testConst}) % 2`;
+    expectNode(d`(${testFloat} + ${testConst}) % 2`, dyno.Mod, "float");
+    expectValue(dynoEval`(${testFloat} + ${testConst}) % 2`, 1);
   });
 
   test("Modulus operation with vector", () => {
-    const result = d`${testVec3}.x % ${testConst}`;
+    expectNode(d`${testVec3}.x % ${testConst}`, dyno.Mod, "float");
   });
 
   test("Complex arithmetic with vectors", () => {
     // box.miny + (position.y * (box.max.y - box.min.y))
     const result = d`${testVec3}.x + (${testVec3}.y * (${testVec3}.z - ${testVec3}.x))`;
-    debugLog("result", result);
+    expectNode(result, dyno.Add, "float");
+    expectValue(
+      dynoEval`${testVec3}.x + (${testVec3}.y * (${testVec3}.z - ${testVec3}.x))`,
+      5,
+    );
   });
 
   test("Normal variable", () => {
     const testFloat = 3.0;
-    const result = d`${testFloat} + 1`;
+    expectConstant(d`${testFloat} + 1`, 4);
   });
 
   test("Max function", () => {
-    const result = d`max(${testFloat}, 2)`;
+    expectNode(d`max(${testFloat}, 2)`, dyno.Max, "float");
   });
 
   test("Sqrt function", () => {
-    const result = d`sqrt(${testFloat})`;
+    expectNode(d`sqrt(${testFloat})`, dyno.Sqrt, "float");
   });
 
   test("Mix function", () => {
@@ -627,10 +2400,535 @@ export function runTests() {
     const testVec3b = dynoVec3(new THREE.Vector3(1, 2, 3));
     const testVec3c = dynoVec3(new THREE.Vector3(1, 2, 3));
     const result = d`mix(${testVec3a}, ${testVec3b}, ${testVec3c})`;
+    expectNode(result, dyno.Mix, "vec3");
   });
 
   test("Complex expression", () => {
     const result = d`${testFloat}+${testConst}/${testVec3}.x+PI/2`;
+    expectNode(result, dyno.Add, "float");
+  });
+
+  // Unary, comparison, logical and conditional operators
+  test("Unary minus", () => {
+    expectType(d`-${testFloat}`, "float");
+  });
+
+  test("Unary minus on vector property", () => {
+    expectType(d`-${testVec3}.x * 2`, "float");
+  });
+
+  test("Negative literal", () => {
+    const result = d`-1.5`;
+    if ((result as { value: number }).value !== -1.5) {
+      throw new Error("Negative literal should fold to a constant");
+    }
+  });
+
+  test("Binary minus without spaces", () => {
+    expectType(d`${testFloat}-1`, "float");
+  });
+
+  test("Comparison operators", () => {
+    expectType(d`${testFloat} < ${testConst}`, "bool");
+    expectType(d`${testFloat} <= ${testConst}`, "bool");
+    expectType(d`${testFloat} > 0.5`, "bool");
+    expectType(d`${testFloat} >= 0.5`, "bool");
+    expectType(d`${testFloat} == ${testConst}`, "bool");
+    expectType(d`${testFloat} != ${testConst}`, "bool");
+  });
+
+  test("Arithmetic binds tighter than comparison", () => {
+    expectType(d`${testFloat} + 1 > ${testConst} * 2`, "bool");
+  });
+
+  test("Logical operators", () => {
+    expectType(d`${testFloat} > 0.5 && ${testConst} < 20`, "bool");
+    expectType(d`${testFloat} > 0.5 || !(${testConst} < 20)`, "bool");
+  });
+
+  test("Conditional operator", () => {
+    expectType(d`${testFloat} > 0.5 ? ${testConst} : 1`, "float");
+  });
+
+  test("Conditional with vectors", () => {
+    expectType(d`${testFloat}>0.5?${testVec3}:-${testVec3}`, "vec3");
+  });
+
+  test("Nested conditional is right-associative", () => {
+    expectType(
+      d`${testFloat} < 1 ? 1 : ${testFloat} < 2 ? 2 : ${testFloat} < 3 ? 3 : 4`,
+      "float",
+    );
+  });
+
+  test("Conditional inside function call", () => {
+    expectType(d`max(${testFloat} > 1 ? ${testFloat} : 1, 2)`, "float");
+  });
+
+  // Builtin library
+  test("Unary builtins", () => {
+    expectType(d`abs(${testFloat})`, "float");
+    expectType(d`sign(${testFloat})`, "float");
+    expectType(d`floor(${testFloat})`, "float");
+    expectType(d`ceil(${testFloat})`, "float");
+    expectType(d`exp(${testFloat})`, "float");
+    expectType(d`log(${testFloat})`, "float");
+    expectType(d`tan(${testFloat})`, "float");
+    expectType(d`atan(${testFloat})`, "float");
+  });
+
+  test("Clamp and smoothstep", () => {
+    expectType(d`clamp(${testFloat}, 0, 1)`, "float");
+    expectType(d`smoothstep(0, 1, ${testFloat})`, "float");
+  });
+
+  test("Two-argument atan", () => {
+    expectType(d`atan(${testVec3}.y, ${testVec3}.x)`, "float");
+  });
+
+  test("Geometric builtins", () => {
+    expectType(d`length(${testVec3})`, "float");
+    expectType(d`distance(${testVec3}, ${testVec3})`, "float");
+    expectType(d`dot(${testVec3}, ${testVec3})`, "float");
+    expectType(d`cross(${testVec3}, ${testVec3})`, "vec3");
+    expectType(d`normalize(${testVec3})`, "vec3");
+    expectType(d`reflect(${testVec3}, normalize(${testVec3}))`, "vec3");
+  });
+
+  test("Hash builtins", () => {
+    expectType(d`hashFloat(${testFloat})`, "float");
+    expectType(d`hashVec3(${testFloat})`, "vec3");
+  });
+
+  test("Nested calls with many arguments", () => {
+    expectType(
+      d`clamp(mix(${testFloat}, 1, 0.5), min(0, ${testFloat}), max(1, 2))`,
+      "float",
+    );
+  });
+
+  test("Too many arguments", () => {
+    expectError(
+      () => d`sin(${testFloat}, 1)`,
+      "Function sin expects 1 argument, got 2",
+      0,
+    );
+  });
+
+  test("Too few arguments", () => {
+    expectError(
+      () => d`clamp(${testFloat}, 0)`,
+      "Function clamp expects 3 arguments, got 2",
+      0,
+    );
+  });
+
+  // Registered functions and scoped names
+  test("Registered function", () => {
+    registerFunction("testWave", 2, (x, n) => d`sin(${x} * ${n})`);
+    try {
+      expectType(d`testWave(${testFloat}, 3) + 1`, "float");
+    } finally {
+      // Leave the table as other templates found it
+      delete functions.testWave;
+    }
+  });
+
+  test("Cannot redefine builtin", () => {
+    expectThrows(
+      () => registerFunction("sin", 1, (x) => x),
+      "Cannot redefine builtin function: sin",
+    );
+  });
+
+  test("Scoped variables", () => {
+    const t = createDynoTag({ vars: { time: testFloat, pos: testVec3, k: 2 } });
+    expectType(t`sin(time * k) + pos.x`, "float");
+    expectType(t`pos * ${testConst}`, "vec3");
+  });
+
+  test("Scoped functions", () => {
+    const t = createDynoTag({
+      vars: { time: testFloat },
+      functions: {
+        wobble: { arity: [1, 2], impl: (x, k) => d`sin(${x}) * ${k ?? 1}` },
+      },
+    });
+    expectType(t`wobble(time) + wobble(time, 0.5)`, "float");
+  });
+
+  test("Scoped function shadows builtin", () => {
+    const t = createDynoTag({
+      functions: { sin: { arity: 1, impl: (x) => d`cos(${x})` } },
+    });
+    expectNode(t`sin(${testFloat})`, dyno.Cos, "float");
+  });
+
+  test("Scope is not visible to d", () => {
+    createDynoTag({ vars: { time: testFloat } });
+    expectError(() => d`time + 1`, "Unknown identifier: time", 0);
+  });
+
+  // Source positions and static types
+  test("Error position for unknown identifier", () => {
+    expectError(() => d`${testFloat} + foo * 2`, "Unknown identifier", 7);
+  });
+
+  test("Error message shows a caret", () => {
+    try {
+      d`${testFloat} + foo`;
+    } catch (error) {
+      const lines = (error as Error).message.split("\n");
+      if (lines[1] !== "  ${0} + foo" || lines[2] !== "         ^^^") {
+        throw new Error(`Unexpected message: ${(error as Error).message}`);
+      }
+      return;
+    }
+    throw new Error("Should have thrown for unknown identifier");
+  });
+
+  test("Error position for unclosed call", () => {
+    expectError(() => d`sin(${testFloat}`, "Expected closing parenthesis", 8);
+  });
+
+  test("Error position for trailing token", () => {
+    expectError(() => d`${testFloat} 2`, "Unexpected token", 5);
+  });
+
+  test("Vector size mismatch", () => {
+    const testVec4 = dynoVec4(new THREE.Vector4(1, 2, 3, 4));
+    expectError(
+      () => d`1 + ${testVec3} * ${testVec4}`,
+      "Operator '*' cannot combine vec3 and vec4",
+      4,
+    );
+  });
+
+  test("Int and float mismatch", () => {
+    const testInt = dynoInt(2);
+    expectError(() => d`${testInt} * 2`, "Operator '*'", 0);
+  });
+
+  test("Scalar and vector arithmetic", () => {
+    expectType(d`${testVec3} * 2 + ${testFloat}`, "vec3");
+  });
+
+  test("Property access on float", () => {
+    expectError(() => d`${testFloat}.invalid`, "Cannot access .invalid", 0);
+  });
+
+  test("Component out of range", () => {
+    expectError(() => d`1 + ${testVec3}.w`, "Invalid component .w", 4);
+  });
+
+  test("Conditional branch mismatch", () => {
+    expectError(
+      () => d`${testFloat} > 1 ? ${testVec3} : ${testFloat}`,
+      "Conditional branches have different types",
+      0,
+    );
+  });
+
+  test("Non-bool condition", () => {
+    expectError(() => d`${testFloat} ? 1 : 2`, "Condition must be bool", 0);
+  });
+
+  test("Builtin argument types", () => {
+    expectError(
+      () => d`cross(${testVec3}, ${testFloat})`,
+      "Function cross expects vec3 arguments",
+      0,
+    );
+  });
+
+  // Swizzles and vector constructors
+  test("Two-component swizzle", () => {
+    expectType(d`${testVec3}.xz`, "vec2");
+  });
+
+  test("Color swizzle", () => {
+    const testVec4 = dynoVec4(new THREE.Vector4(1, 2, 3, 4));
+    expectType(d`${testVec4}.rgb * 0.5`, "vec3");
+  });
+
+  test("Reordering swizzle", () => {
+    expectType(d`${testVec3}.zyx + ${testVec3}`, "vec3");
+  });
+
+  test("Swizzle chain", () => {
+    expectType(d`${testVec3}.zyx.xxyy.w`, "float");
+  });
+
+  test("Mixed swizzle sets", () => {
+    expectError(() => d`${testVec3}.xg`, "Invalid component .xg", 0);
+  });
+
+  test("Swizzle out of range", () => {
+    expectError(() => d`${testVec3}.xyw`, "Invalid component .xyw", 0);
+  });
+
+  test("Swizzle too long", () => {
+    expectError(() => d`${testVec3}.xxyyz`, "Swizzle .xxyyz", 0);
+  });
+
+  test("vec3 from scalars", () => {
+    expectType(d`vec3(${testFloat}, 1, ${testVec3}.x)`, "vec3");
+  });
+
+  test("vec4 from vector and scalar", () => {
+    expectType(d`vec4(${testVec3}, 1)`, "vec4");
+  });
+
+  test("vec4 from two vec2", () => {
+    expectType(d`vec4(${testVec3}.xy, ${testVec3}.zx)`, "vec4");
+  });
+
+  test("Scalar broadcast and truncation", () => {
+    expectType(d`vec2(${testFloat})`, "vec2");
+    expectType(d`vec2(${testVec3})`, "vec2");
+  });
+
+  test("Constructor with int component", () => {
+    expectType(d`vec2(${dynoInt(3)}, 1)`, "vec2");
+  });
+
+  test("Constructor with too few components", () => {
+    expectError(
+      () => d`vec3(${testFloat}, 1)`,
+      "Function vec3 expects 3 components",
+      0,
+    );
+  });
+
+  test("Constructor with unused argument", () => {
+    expectError(
+      () => d`vec3(${testVec3}, 1)`,
+      "Function vec3 has too many arguments",
+      0,
+    );
+  });
+
+  // Unrolled reductions
+  test("Sum over a constant range", () => {
+    const result = d`sum(i, 1, 5, ${testFloat} * i)`;
+    expectType(result, "float");
+  });
+
+  test("Product and max reductions", () => {
+    expectType(d`product(k, 1, 3, ${testFloat} + k)`, "float");
+    expectType(d`max(k, 0, 2, sin(${testFloat} * k))`, "float");
+    expectType(d`min(k, 0, 2, ${testVec3} * k)`, "vec3");
+  });
+
+  test("Two-argument max is still a function", () => {
+    expectType(d`max(${testFloat}, 2)`, "float");
+  });
+
+  test("Interpolated loop bound", () => {
+    const octaves = 4;
+    expectType(d`sum(i, 1, ${octaves}, pow(0.5, i))`, "float");
+  });
+
+  test("Nested reductions", () => {
+    expectType(d`sum(i, 1, 3, sum(j, i, 3, ${testFloat} * i * j))`, "float");
+  });
+
+  test("Loop variable in scoped function", () => {
+    const t = createDynoTag({
+      vars: { time: testFloat },
+      functions: {
+        wave: { arity: 1, impl: (n) => d`sin(${testFloat} * ${n})` },
+      },
+    });
+    expectType(t`sum(i, 1, 3, wave(i) * time)`, "float");
+  });
+
+  test("Empty sum is zero", () => {
+    expectType(d`sum(i, 1, 0, ${testVec3} * i)`, "vec3");
+  });
+
+  test("Non-constant loop bound", () => {
+    expectError(
+      () => d`sum(i, 1, ${testFloat}, i)`,
+      "Loop bounds must be constant",
+      10,
+    );
+  });
+
+  test("Empty max range", () => {
+    expectError(() => d`max(i, 3, 1, i)`, "Empty range 3 to 1", 0);
+  });
+
+  test("Loop variable is not visible outside", () => {
+    expectError(() => d`sum(i, 1, 2, i) + i`, "Unknown identifier: i", 18);
+  });
+
+  test("Missing conditional branch", () => {
+    expectError(
+      () => d`${testFloat} > 0.5 ? ${testConst}`,
+      "Expected ':' in conditional expression",
+      17,
+    );
+  });
+
+  // CPU evaluation
+  test("Evaluate arithmetic", () => {
+    expectValue(dynoEval`(${testFloat} + ${testConst}) * 2`, 30);
+    expectValue(dynoEval`${testFloat} / .2 - 1`, 24);
+  });
+
+  test("Evaluate GLSL mod and fract", () => {
+    expectValue(dynoEval`mod(-1, 3)`, 2);
+    expectValue(dynoEval`-7 % 3`, 2);
+    expectValue(dynoEval`fract(-0.25)`, 0.75);
+    expectValue(dynoEval`mod(${[-1, 5]}, 3)`, [2, 2]);
+  });
+
+  test("Evaluate vectors and swizzles", () => {
+    expectValue(dynoEval`${testVec3}.zyx * 2 + 1`, [7, 5, 3]);
+    expectValue(dynoEval`vec4(${testVec3}.xy, 0, 1).wzyx`, [1, 0, 2, 1]);
+    expectValue(dynoEval`vec3(2)`, [2, 2, 2]);
+    expectValue(dynoEval`${new THREE.Vector2(3, 4)}.yx`, [4, 3]);
+  });
+
+  test("Evaluate mix, step and smoothstep", () => {
+    expectValue(dynoEval`mix(0, 10, 0.25)`, 2.5);
+    expectValue(dynoEval`mix(vec2(0), ${[2, 4]}, 0.5)`, [1, 2]);
+    expectValue(dynoEval`step(0.5, ${[0.2, 0.8]})`, [0, 1]);
+    expectValue(dynoEval`smoothstep(0, 1, 0.5)`, 0.5);
+  });
+
+  test("Evaluate geometric builtins", () => {
+    expectValue(dynoEval`length(${[3, 4]})`, 5);
+    expectValue(dynoEval`cross(${[1, 0, 0]}, ${[0, 1, 0]})`, [0, 0, 1]);
+    expectValue(dynoEval`normalize(${[0, 3, 4]})`, [0, 0.6, 0.8]);
+    expectValue(dynoEval`reflect(${[1, -1]}, ${[0, 1]})`, [1, 1]);
+  });
+
+  test("Evaluate comparisons and conditionals", () => {
+    expectValue(dynoEval`${testFloat} > 1 ? 1 : 2`, 1);
+    expectValue(dynoEval`!(${testFloat} > 1) || ${true}`, true);
+    expectValue(dynoEval`${[1, 2, 3]} < ${[3, 2, 1]}`, [true, false, false]);
+  });
+
+  test("Evaluate integer arithmetic", () => {
+    expectValue(dynoEval`${dynoInt(-7)} / ${dynoInt(2)}`, -3);
+    expectValue(dynoEval`${dynoInt(0x7fffffff)} + ${dynoInt(1)}`, -(2 ** 31));
+  });
+
+  test("Evaluate reductions", () => {
+    expectValue(dynoEval`sum(i, 1, 5, i)`, 15);
+    expectValue(dynoEval`product(i, 1, 4, i)`, 24);
+    expectValue(dynoEval`max(i, 0, 3, -(i - 2) * (i - 2))`, 0);
+    expectValue(dynoEval`sum(i, 1, 0, ${testVec3} * i)`, [0, 0, 0]);
+  });
+
+  test("Evaluate hashes", () => {
+    expectValue(dynoEval`hash(${dynoConst("uint", 7)})`, 2120684060);
+    expectValue(
+      dynoEval`hash2(${dynoConst("ivec2", [1, 2])})`,
+      [3328209154, 2110175674],
+    );
+    expectValue(dynoEval`hashFloat(1)`, 0.944264);
+  });
+
+  test("Evaluate with scope", () => {
+    const scope: DynoScope = {
+      vars: { time: 0.5, offset: testVec3 },
+      functions: {
+        wave: {
+          arity: 1,
+          impl: (x) => d`sin(${x} * PI)`,
+          cpu: (x) => Math.sin((x as number) * Math.PI),
+        },
+      },
+    };
+    const evaluate = createDynoEval(scope);
+    expectValue(evaluate`wave(time) + offset.x`, 2);
+    expectType(createDynoTag(scope)`wave(time) + offset.x`, "float");
+  });
+
+  test("Function without CPU implementation", () => {
+    const evaluate = createDynoEval({
+      functions: { wave: { arity: 1, impl: (x) => d`sin(${x})` } },
+    });
+    expectError(() => evaluate`1 + wave(2)`, "Function wave has no CPU", 4);
+  });
+
+  test("Dyno graph values can't be evaluated", () => {
+    const node = d`sin(${testFloat})`;
+    expectError(() => dynoEval`1 + ${node}`, "Cannot evaluate", 4);
+  });
+
+  test("Evaluation is type-checked", () => {
+    expectError(() => dynoEval`${[1, 2]} + ${[1, 2, 3]}`, "Operator '+'", 0);
+  });
+
+  // Template cache, constant folding and shared nodes
+  test("Parsed template is cached", () => {
+    const tag = (strings: TemplateStringsArray, ...values: unknown[]) =>
+      strings;
+    const strings = tag`${0} + 1`;
+    if (parseCached(strings) !== parseCached(strings)) {
+      throw new Error("Template should be parsed once");
+    }
+  });
+
+  test("Fold literal arithmetic", () => {
+    expectConstant(d`(1 + 1) * ${3}`, 6);
+    expectConstant(d`pow(${0.5}, 1)`, 0.5);
+    expectConstant(d`PI / 2`, Math.PI / 2);
+    expectConstant(d`vec3(1, 2, 3).zyx`, [3, 2, 1]);
+    expectConstant(d`sum(i, 1, 4, pow(0.5, i))`, 0.9375);
+  });
+
+  test("Constant condition picks a branch", () => {
+    if (d`1 < 2 ? ${testFloat} : 0` !== testFloat) {
+      throw new Error("Expected the true branch itself");
+    }
+  });
+
+  test("Uniforms and non-finite results are not folded", () => {
+    for (const result of [d`${testFloat} + 1`, d`1 / 0`]) {
+      if (result instanceof dyno.DynoConst) {
+        throw new Error("Should not have been folded");
+      }
+    }
+  });
+
+  test("Constant cache is bounded", () => {
+    for (let i = 0; i <= MAX_CONSTANTS; i++) {
+      constant("float", i + 0.5);
+    }
+    if (constants.size > MAX_CONSTANTS) {
+      throw new Error(
+        `Expected at most ${MAX_CONSTANTS}, got ${constants.size}`,
+      );
+    }
+    if (constant("float", 1) !== constant("float", 1)) {
+      throw new Error("Expected recent constants still shared");
+    }
+  });
+
+  test("Identical subexpressions share nodes", () => {
+    const wave = (x: DynoValue) => d`sin(${x} * 2)`;
+    if (wave(testFloat) !== wave(testFloat)) {
+      throw new Error("Expected the same node for the same template");
+    }
+    if (d`${testFloat} + 1` === d`${testFloat} + 2`) {
+      throw new Error("Different expressions should not share nodes");
+    }
+    if (d`sin(${testFloat} * 2)` !== wave(testFloat)) {
+      throw new Error("Expected the same node across templates");
+    }
+    if (d`${testVec3}.x + 1` !== d`${testVec3}.x + 1`) {
+      throw new Error("Expected the same node for the same component");
+    }
+  });
+
+  test("Literal inputs, such as a dynoBlock's", () => {
+    const index = dyno.dynoLiteral("int", "index");
+    expectNode(d`${index} + ${index}`, dyno.Add, "int");
   });
 
   // Print summary
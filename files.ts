@@ -0,0 +1,57 @@
+//--
+// Saving and loading files from the page
+//
+// downloadFile hands text to the browser to save as a file, and onFileChosen
+// opens a file picker from a button and passes on the chosen file's text.
+// isObject helps the parsers of loaded JSON check its shape.
+//--
+
+// Whether parsed JSON is an object, rather than an array, null or a primitive
+export function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+// Download text as a file called name
+export function downloadFile(
+  name: string,
+  text: string,
+  type = "application/json",
+) {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  link.click();
+  // The download may only start once the click has been handled, so keep the
+  // URL until then
+  setTimeout(() => URL.revokeObjectURL(url));
+}
+
+// Open input, a hidden file input, when button is clicked and call load with
+// the text of the file chosen. If load throws, the error is shown in an
+// alert. Returns a function that stops listening.
+export function onFileChosen(
+  button: HTMLElement,
+  input: HTMLInputElement,
+  load: (text: string, file: File) => void | Promise<void>,
+) {
+  const onClick = () => input.click();
+  const onChange = async () => {
+    const file = input.files?.[0];
+    // Let the same file be chosen again
+    input.value = "";
+    if (file) {
+      try {
+        await load(await file.text(), file);
+      } catch (error) {
+        alert(`Could not load ${file.name}: ${(error as Error).message}`);
+      }
+    }
+  };
+  button.addEventListener("click", onClick);
+  input.addEventListener("change", onChange);
+  return () => {
+    button.removeEventListener("click", onClick);
+    input.removeEventListener("change", onChange);
+  };
+}
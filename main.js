@@ -1,204 +1,250 @@
 // --
-// Dynamic Audio Visualization using FBM 
+// Dynamic Audio Visualization: audio-reactive scenes from scenes/
 // --
 import * as THREE from "three";
 
-import { dyno } from "@sparkjsdev/spark";
-
-const { mul, combine, dynoVec3, dynoConst, dynoFloat, hashVec4 } = dyno;
-
-// These are helper files to remove a bunch of the dyno / shader boilerplate
-import { d } from "./dynoexp.ts";
-import * as ShaderGen from "./shadergen.js";
+// Debug views of the generated shaders, the scene modules and their tweak panel
+import { dumpGlsl, dumpDot } from "./dynodebug.ts";
+import { SCENES, createSceneSelector } from "./scenes/index.ts";
+import { createTweakPanel } from "./tweakpanel.ts";
+import { createMidiBindings, parseMidiMapping, webMidi } from "./midi.ts";
+import { palettes } from "./palette.ts";
+import { cameraPreset, createAutopilot } from "./autopilot.ts";
+import { downloadFile, onFileChosen } from "./files.ts";
+import {
+  analyseSamples,
+  audioInputs,
+  createAudioInput,
+  createBandAnalyser,
+  createBeatDetector,
+  createFeatureExtractor,
+  createPlaylist,
+  createSpectrumTexture,
+  createTimelinePlayer,
+  decodeAudio,
+  microphoneSource,
+  onFileDrop,
+  parseTimeline,
+} from "./audio/index.ts";
 
 import {
   SparkRenderer,
   FpsMovement,
   PointerControls,
-  SplatMesh,
   VRButton,
-  constructGrid,
 } from "@sparkjsdev/spark";
 
-// Set of global variables that are available to the shader during the render loop
-const globalSpeed = dynoFloat(1.5);
-const globalScale = dynoFloat(0.4);
-const globalFrequency = dynoFloat(0.2);
-const globalAmplitude = dynoFloat(1);
-const globalPhase = dynoFloat(0.5);
-const globalOctaves = dynoFloat(5);
-const globalLacunarity = dynoFloat(2.0);
-const globalPersistence = dynoFloat(0.5);
-
-const globalOpacity = dynoFloat(0.5);
-const globalRed = dynoFloat(0.16);
-const globalGreen = dynoFloat(0.16);
-const globalBlue = dynoFloat(0.32);
-const globalRed2 = dynoFloat(0.36);
-const globalGreen2 = dynoFloat(0.36);
-const globalBlue2 = dynoFloat(0.64);
-
-function renderfunc(index, dynoTime, dynoGlobals) {
-  const random = hashVec4(index);
-  let position = dynoConst("vec3", [0, 0, 0]);
-
-  const amplitude = globalAmplitude;
-  const frequency = globalFrequency;
-  const speed = globalSpeed;
-  const phase = globalPhase;
-
-  // fBm parameters
-  const lacunarity = globalLacunarity; // How frequency increases each octave
-  const persistence = globalPersistence; // How amplitude decreases each octave
-
-  const xPos = d`(${random}.x * ${dynoTime} * ${speed}) % 15`;
-  const zPos = d`${random}.z * 15`;
-
-  // Base value for fBm noise
-  let yPos = d`0.0`;
-
-  // Dynamically build fBm noise by summing octaves
-
-  // octave 1
-  // Calculate this octave's amplitude and frequency
-  let octaveAmp = d`${amplitude} * pow(${persistence}, 1)`;
-  let octaveFreq = d`${frequency} * pow(${lacunarity}, 1)`;
-
-  // // Time offset for this octave
-  let timeOffset = d`${dynoTime} * ${phase} * (1+1)`;
-
-  // // Calculate this octave's contribution and add it to the result
-  let octaveValue = d`${octaveAmp} * sin(${xPos} * ${octaveFreq} + ${timeOffset}) * sin(${zPos} * ${octaveFreq} + ${timeOffset})`;
-
-  yPos = d`${yPos} + ${octaveValue}`;
-
-  // Octave 2
-  let doOctave = d`step(2, ${globalOctaves})`;
-  octaveAmp = d`${amplitude} * pow(${persistence}, 2)`;
-  octaveFreq = d`${frequency} * pow(${lacunarity}, 2)`;
-  timeOffset = d`${dynoTime} * ${phase} * (2+1)`;
-  octaveValue = d`${octaveAmp} * sin(${xPos} * ${octaveFreq} + ${timeOffset}) * sin(${zPos} * ${octaveFreq} + ${timeOffset})`;
-  yPos = d`${yPos} + ${doOctave} * ${octaveValue}`;
-
-  // Octave 3
-  doOctave = d`step(3, ${globalOctaves})`;
-  octaveAmp = d`${amplitude} * pow(${persistence}, 3)`;
-  octaveFreq = d`${frequency} * pow(${lacunarity}, 3)`;
-  timeOffset = d`${dynoTime} * ${phase} * (3+1)`;
-  octaveValue = d`${octaveAmp} * sin(${xPos} * ${octaveFreq} + ${timeOffset}) * sin(${zPos} * ${octaveFreq} + ${timeOffset})`;
-  yPos = d`${yPos} + (${doOctave} * ${octaveValue})`;
-
-  // Octave 4
-  doOctave = d`step(4, ${globalOctaves})`;
-  octaveAmp = d`${amplitude} * pow(${persistence}, 4)`;
-  octaveFreq = d`${frequency} * pow(${lacunarity}, 4)`;
-  timeOffset = d`${dynoTime} * ${phase} * (4+1)`;
-  octaveValue = d`${octaveAmp} * sin(${xPos} * ${octaveFreq} + ${timeOffset}) * sin(${zPos} * ${octaveFreq} + ${timeOffset})`;
-  yPos = d`${yPos} + (${doOctave} * ${octaveValue})`;
-
-  // Octave 5
-  doOctave = d`step(5, ${globalOctaves})`;
-  octaveAmp = d`${amplitude} * pow(${persistence}, 5)`;
-  octaveFreq = d`${frequency} * pow(${lacunarity}, 5)`;
-  timeOffset = d`${dynoTime} * ${phase} * (5+1)`;
-  octaveValue = d`${octaveAmp} * sin(${xPos} * ${octaveFreq} + ${timeOffset}) * sin(${zPos} * ${octaveFreq} + ${timeOffset})`;
-  yPos = d`${yPos} + (${doOctave} * ${octaveValue})`;
-
-  position = combine({ vectorType: "vec3", x: xPos, y: yPos, z: zPos });
-
-  const dynoColor1 = combine({
-    vectorType: "vec3",
-    x: globalRed,
-    y: globalGreen,
-    z: globalBlue,
-  });
-  const dynoColor2 = combine({
-    vectorType: "vec3",
-    x: globalRed2,
-    y: globalGreen2,
-    z: globalBlue2,
-  });
-
-  const mix = d`sin(${yPos}+.5)`;
-  const rgb = d`mix(${dynoColor1}, ${dynoColor2}, ${mix})`;
-
-  const anisoScale = dynoConst("vec3", [1, 1.5, 1]);
-
-  const scales = d`${anisoScale} * ${dynoGlobals.scale}`;
-  const dynoOpacity = globalOpacity;
-
-  const quaternion = dynoConst(
-    "vec4",
-    new THREE.Quaternion(
-      Math.random() * 0.1,
-      Math.random() * 0.1,
-      Math.random() * 0.1,
-      1,
-    ),
-  );
-
-  return {
-    position: position,
-    rgb: rgb,
-    opacity: dynoOpacity,
-    scales: scales,
-    quaternion: quaternion,
-  };
-}
-
 const audio = document.getElementById('audio');
 
 const audioCtx = new (window.AudioContext || window.webkitAudioContext)();
 const analyser = audioCtx.createAnalyser();
-analyser.fftSize = 128; // You can try 256, 512, etc.
+// Enough bins to resolve the low bands; the band analyser does the smoothing
+analyser.fftSize = 2048;
+analyser.smoothingTimeConstant = 0;
 
-const source = audioCtx.createMediaElementSource(audio);
-source.connect(analyser);
-analyser.connect(audioCtx.destination);
+// The analyser stays put while the source feeding it changes
+const input = createAudioInput(audioCtx, analyser);
 
 const bufferLength = analyser.frequencyBinCount;
 console.log("bufferLength: ", bufferLength);
 const dataArray = new Uint8Array(bufferLength);
+const decibels = new Float32Array(bufferLength);
+
+// The whole spectrum and its recent history as a texture scenes can sample
+const spectrum = createSpectrumTexture({
+  sampleRate: audioCtx.sampleRate,
+  fftSize: analyser.fftSize,
+});
+
+// Log-spaced, smoothed and gain-normalized levels for the scenes
+const bands = createBandAnalyser({
+  sampleRate: audioCtx.sampleRate,
+  fftSize: analyser.fftSize,
+  count: 16,
+});
+
+// Onsets and beats from the waveform; listen with beats.onBeat and onOnset
+const samples = new Float32Array(analyser.fftSize);
+const beats = createBeatDetector();
+
+// Loudness, stereo balance and spectral shape, from the waveform, the left and
+// right channels and the spectrum, and the same as named dyno uniforms for
+// any shaderBox to read
+const leftSamples = new Float32Array(input.left.fftSize);
+const rightSamples = new Float32Array(input.right.fftSize);
+const features = createFeatureExtractor({
+  sampleRate: audioCtx.sampleRate,
+  fftSize: analyser.fftSize,
+});
+
+// A prerecorded timeline for the playing track, if it has one, played back by
+// the track's currentTime in place of the live bands, beats and RMS, unless
+// the scene reads audio the timeline doesn't have
+let timeline;
+
+// A flash from a MIDI key: a pulse like a beat's, as strong as the key was hit
+const FLASH_DECAY = 0.15;
+let flash = { time: -Infinity, level: 0 };
+
+function flashPulse(time) {
+  return flash.level * Math.exp(-(time - flash.time) / FLASH_DECAY);
+}
 
-function updateFrequency() {
-
+// Read this frame's spectrum and waveform and pass them to the shown scene,
+// returning the beat state the scene saw
+function updateFrequency(selector, time, deltaTime) {
   analyser.getByteFrequencyData(dataArray);
+  spectrum.update(dataArray);
+  analyser.getFloatFrequencyData(decibels);
+  bands.update(decibels, deltaTime);
+  analyser.getFloatTimeDomainData(samples);
+  beats.process(samples, time);
+  input.left.getFloatTimeDomainData(leftSamples);
+  input.right.getFloatTimeDomainData(rightSamples);
+  features.update(
+    { waveform: samples, decibels, left: leftSamples, right: rightSamples },
+    deltaTime,
+  );
+  const recorded =
+    timeline && input.source === playlist && !selector.scene?.liveAudio
+      ? timeline.frame(audio.currentTime)
+      : undefined;
+  const current = recorded
+    ? { ...features.features, rms: recorded.rms }
+    : features.features;
+  const beat = recorded?.beat ?? beats.state(time);
+  selector.update({
+    frequencies: dataArray,
+    spectrum: spectrum.texture,
+    bands: recorded?.bands ?? bands.levels,
+    beat: { ...beat, pulse: Math.max(beat.pulse, flashPulse(time)) },
+    features: current,
+    waveform: samples,
+    time,
+  });
+  return beat;
+}
 
-  const scale = dataArray[0] * 0.002;
-  globalScale.value = scale;
-
-  const frequency = dataArray[1] * 0.001;
-  globalFrequency.value = frequency;
-
-  const amplitude = dataArray[2] * 0.007;
-  globalAmplitude.value = amplitude;
-
-  const green = dataArray[3] * 0.003;
-  globalGreen.value = green;
-
-  const blue = dataArray[4] * 0.004;
-  globalBlue.value = blue;
+// Audio source picker: the playlist, which starts with the page's track and
+// gains any audio files dropped on the page, or a microphone or line-in
+const sourceSelect = document.getElementById("source-select");
+const trackLabel = document.getElementById("track");
+const playlist = createPlaylist(audio, [audio.getAttribute("src")]);
+const sources = new Map([["playlist", playlist]]);
+sourceSelect.add(new Option("Playlist", "playlist"));
+
+// Lists the inputs again once the user has allowed one, when browsers reveal
+// their names
+async function listInputs() {
+  const inputs = await audioInputs().catch(() => []);
+  for (const { deviceId, label } of inputs) {
+    const value = `input:${deviceId}`;
+    const option = [...sourceSelect.options].find((o) => o.value === value);
+    if (option) {
+      option.text = label;
+    } else {
+      sources.set(value, microphoneSource({ deviceId, label }));
+      sourceSelect.add(new Option(label, value));
+    }
+  }
+}
 
-  const red = dataArray[5] * 0.004;
-  globalRed.value = red;
+// Switch source, starting the tempo and gain tracking afresh
+async function useSource(source) {
+  try {
+    await input.use(source);
+    bands.reset();
+    beats.reset();
+    features.reset();
+  } catch (error) {
+    alert(`Could not use ${source.label}: ${error.message}`);
+  }
+  const current = input.source;
+  sourceSelect.value = [...sources].find(([, s]) => s === current)?.[0] ?? "";
+  // Track controls only for the playlist
+  document.getElementById("source").classList.toggle("playlist", current === playlist);
+  if (current !== playlist) {
+    listInputs();
+  }
+}
 
-  const green2 = dataArray[6] * 0.0005;
-  globalGreen2.value = green2;
+sourceSelect.addEventListener("change", () => {
+  useSource(sources.get(sourceSelect.value));
+});
+document.getElementById("previous").addEventListener("click", () => {
+  playlist.previous();
+});
+document.getElementById("next").addEventListener("click", () => {
+  playlist.next();
+});
+
+function showTrack() {
+  const { label } = playlist.track;
+  trackLabel.textContent = timeline ? `${label} (timeline)` : label;
+}
 
-  const blue2 = dataArray[7] * 0.001;
-  globalBlue2.value = blue2;
+// Look for a timeline saved next to the track, e.g. lofi.timeline.json for
+// lofi.mp3, as written by npm run analyse
+async function loadTimeline(track) {
+  timeline = undefined;
+  showTrack();
+  if (track.url.startsWith("blob:")) {
+    return;
+  }
+  const url = track.url.replace(/\.[^./]+$/, "") + ".timeline.json";
+  const response = await fetch(url).catch(() => undefined);
+  if (response?.ok && playlist.track === track) {
+    try {
+      timeline = createTimelinePlayer(parseTimeline(await response.text()));
+    } catch (error) {
+      console.warn(`Ignoring ${url}:`, error);
+    }
+    showTrack();
+  }
+}
 
-  const red2 = dataArray[7] * 0.001;
-  globalRed2.value = red2;
+playlist.onTrackChange((track) => {
+  bands.reset();
+  beats.reset();
+  features.reset();
+  loadTimeline(track);
+});
+loadTimeline(playlist.track);
+
+// Analyse the track offline into a timeline, play it back and save it, so it
+// can be put next to the track for next time
+const analyseButton = document.getElementById("analyse");
+analyseButton.addEventListener("click", async () => {
+  const track = playlist.track;
+  analyseButton.disabled = true;
+  analyseButton.textContent = "Analysing…";
+  try {
+    const { sampleRate, samples } = await decodeAudio(track.url);
+    const analysed = analyseSamples(samples, sampleRate);
+    if (playlist.track === track) {
+      timeline = createTimelinePlayer(analysed);
+      showTrack();
+    }
+    downloadFile(
+      track.label.replace(/\.[^.]+$/, "") + ".timeline.json",
+      JSON.stringify(analysed),
+    );
+  } catch (error) {
+    alert(`Could not analyse ${track.label}: ${error.message}`);
+  } finally {
+    analyseButton.disabled = false;
+    analyseButton.textContent = "Analyse";
+  }
+});
 
-  const persistence = dataArray[8] * 0.003;
-  globalPersistence.value = persistence;
+onFileDrop(document.body, async (files) => {
+  const first = playlist.add(...files);
+  await useSource(playlist);
+  playlist.select(first);
+});
 
-  // If you want to iterate over all frequencies, you can do this:
-  // for (let i = 0; i < bufferLength; i++) {
-  //   // const val = dataArray[i];
-  // }
-}
+listInputs();
+useSource(playlist);
 
 async function main() {
   const canvas = document.getElementById("canvas");
@@ -215,7 +261,6 @@ async function main() {
     0.1,
     1000,
   );
-  camera.position.set(8, 5, 25);
   scene.add(camera);
 
   const fpsMovement = new FpsMovement({ moveSpeed: 0.5 });
@@ -237,17 +282,239 @@ async function main() {
     document.body.appendChild(vrButton);
   }
 
-  const shadergen = ShaderGen.shaderBox({
-    infunc: renderfunc,
-    numSplats: 20000,
-    globals: {
-      anisoScale: dynoVec3(new THREE.Vector3(0.1, 0.1, 0.1)),
-      updateFrame(time) {
-        this.scale = mul(this.anisoScale, globalScale);
-      },
-    },
+  // Each visual is a scene module in scenes/; the selector shows one at a time
+  const selector = createSceneSelector({
+    scenes: SCENES,
+    parent: scene,
+    camera,
   });
-  scene.add(shadergen.shadergen);
+
+  const sceneSelect = document.getElementById("scene");
+  for (const { name, label } of SCENES) {
+    sceneSelect.add(new Option(label, name));
+  }
+  sceneSelect.value = selector.scene.name;
+
+  // Sliders for the shown scene's uniforms, if it declares them in a registry,
+  // and its modulation routes, with MIDI learn buttons once MIDI is connected
+  let tweakPanel;
+  let midi;
+  function showTweakPanel() {
+    tweakPanel?.dispose();
+    tweakPanel =
+      selector.registry &&
+      createTweakPanel(selector.registry, {
+        title: selector.scene.label,
+        presetName: selector.scene.name,
+        modulation: selector.modulation,
+        midi,
+      });
+    if (midi) {
+      midi.registry = selector.registry;
+    }
+  }
+  showTweakPanel();
+
+  function showScene(name) {
+    selector.select(name);
+    sceneSelect.value = name;
+    showTweakPanel();
+    flyPreset();
+  }
+
+  sceneSelect.addEventListener("change", () => showScene(sceneSelect.value));
+
+  // MIDI controllers, once connected: knobs drive the shown scene's uniforms
+  // and keys switch scenes or flash the pulse. The mapping is kept in the
+  // browser, and can be saved to a file and loaded back.
+  const MIDI_MAPPING_KEY = "midi-mapping";
+  let midiInputs;
+  const midiPanel = document.getElementById("midi");
+  const midiStatus = document.getElementById("midi-status");
+
+  function savedMidiMapping() {
+    try {
+      const json = localStorage.getItem(MIDI_MAPPING_KEY);
+      return json ? parseMidiMapping(JSON.parse(json)) : undefined;
+    } catch (error) {
+      console.warn("Ignoring the saved MIDI mapping:", error);
+    }
+  }
+
+  function showMidiStatus() {
+    const { learning } = midi;
+    midiStatus.textContent = !learning
+      ? midiInputs.inputs.join(", ") || "No MIDI inputs"
+      : "target" in learning
+        ? `Move a control for ${learning.target}`
+        : `Press a key for ${learning.action}`;
+  }
+
+  document.getElementById("midi-connect").addEventListener("click", async () => {
+    if (midi) {
+      return;
+    }
+    try {
+      midiInputs = await webMidi();
+      midi = createMidiBindings(midiInputs, {
+        registry: selector.registry,
+        mapping: savedMidiMapping(),
+      });
+    } catch (error) {
+      alert(`Could not connect to MIDI: ${error.message}`);
+      return;
+    }
+    midi.onAction((action, velocity) => {
+      if (action === "flash") {
+        flash = { time: performance.now() * 0.001, level: velocity };
+      } else if (action.startsWith("scene:")) {
+        // A mapping may name a scene this page doesn't have
+        const name = action.slice("scene:".length);
+        if (SCENES.some((scene) => scene.name === name)) {
+          showScene(name);
+        } else {
+          console.warn(`Ignoring the MIDI note for unknown scene "${name}"`);
+        }
+      }
+    });
+    midi.onChange(() => {
+      localStorage.setItem(MIDI_MAPPING_KEY, midi.exportMapping());
+      showMidiStatus();
+    });
+    midiPanel.classList.add("connected");
+    showMidiStatus();
+    showTweakPanel();
+  });
+  document.getElementById("midi-scene").addEventListener("click", () => {
+    midi.learnNote(`scene:${selector.scene.name}`);
+  });
+  document.getElementById("midi-flash").addEventListener("click", () => {
+    midi.learnNote("flash");
+  });
+  document.getElementById("midi-export").addEventListener("click", () => {
+    downloadFile("midi-mapping.json", midi.exportMapping());
+  });
+  onFileChosen(
+    document.getElementById("midi-import"),
+    document.getElementById("midi-file"),
+    (json) => midi.importMapping(json),
+  );
+
+  // Palettes scenes color their splats from, kept in the browser once loaded
+  const PALETTES_KEY = "palettes";
+  try {
+    const saved = localStorage.getItem(PALETTES_KEY);
+    if (saved) {
+      palettes.importPalettes(saved);
+    }
+  } catch (error) {
+    console.warn("Ignoring the saved palettes:", error);
+  }
+  palettes.onChange(() => {
+    localStorage.setItem(PALETTES_KEY, palettes.exportPalettes());
+  });
+  document.getElementById("palettes-export").addEventListener("click", () => {
+    downloadFile("palettes.json", palettes.exportPalettes());
+  });
+  onFileChosen(
+    document.getElementById("palettes-import"),
+    document.getElementById("palettes-file"),
+    (json) => palettes.importPalettes(json),
+  );
+
+  // Autopilot for unattended screens: flies a preset around the shown scene or
+  // a path loaded from a file, timed to the track. Any input hands the camera
+  // back, and the autopilot takes it again after a while idle.
+  const autopilot = createAutopilot();
+  const autopilotSelect = document.getElementById("autopilot-mode");
+  const autopilotBeat = document.getElementById("autopilot-beat");
+  const pathOption = autopilotSelect.querySelector("option[value=path]");
+  let importedPath;
+  const BEAT_SETTINGS = {
+    steady: undefined,
+    cut: { cut: 4 },
+    surge: { surge: 2 },
+  };
+
+  // Fly the chosen preset around the shown scene, or the imported path. With
+  // the autopilot off, the orbit is loaded, for Export to save as a path to
+  // start from.
+  function flyPreset() {
+    const mode = autopilotSelect.value;
+    if (mode === "path") {
+      autopilot.load(importedPath);
+    } else {
+      autopilot.load(
+        cameraPreset(mode === "off" ? "orbit" : mode, selector.scene.camera, {
+          beat: BEAT_SETTINGS[autopilotBeat.value],
+        }),
+      );
+    }
+  }
+  flyPreset();
+
+  function cameraPose() {
+    const position = camera.position.toArray();
+    const ahead = camera
+      .getWorldDirection(new THREE.Vector3())
+      .multiplyScalar(10);
+    return { position, target: camera.position.clone().add(ahead).toArray() };
+  }
+
+  // The clock paths follow: the track's time, so a path plays in step with
+  // it, or the page's for other sources
+  function autopilotTime(time) {
+    return input.source === playlist ? audio.currentTime : time;
+  }
+
+  autopilotSelect.addEventListener("change", () => {
+    flyPreset();
+    autopilot.setEnabled(autopilotSelect.value !== "off");
+  });
+  autopilotBeat.addEventListener("change", flyPreset);
+  for (const type of ["pointerdown", "wheel"]) {
+    canvas.addEventListener(type, () => autopilot.userInput());
+  }
+  window.addEventListener("keydown", (event) => {
+    if (!event.target.closest("input, select, textarea")) {
+      autopilot.userInput();
+    }
+  });
+  document.getElementById("autopilot-export").addEventListener("click", () => {
+    downloadFile("camera-path.json", autopilot.exportPath());
+  });
+  onFileChosen(
+    document.getElementById("autopilot-import"),
+    document.getElementById("autopilot-file"),
+    (json, file) => {
+      autopilot.importPath(json);
+      importedPath = autopilot.path;
+      pathOption.hidden = false;
+      pathOption.textContent = importedPath.name ?? file.name;
+      autopilotSelect.value = "path";
+      autopilot.setEnabled(true);
+    },
+  );
+
+  // Inspect the generated shader, e.g. sparkDebug.glsl(), the beat tracking,
+  // e.g. sparkDebug.beats.bpm, or the scenes' audio uniforms, e.g.
+  // sparkDebug.uniforms.centroid.value, from the console. Any
+  // scene's routes can be changed there too, e.g.
+  // sparkDebug.modulation.addRoute({ source: { type: "beat" }, ... })
+  window.sparkDebug = {
+    glsl: () => dumpGlsl(selector.box),
+    dot: () => dumpDot(selector.box),
+    beats,
+    uniforms: selector.uniforms,
+    get modulation() {
+      return selector.modulation;
+    },
+    get midi() {
+      return midi;
+    },
+    palettes,
+    autopilot,
+  };
 
   console.log("Starting render loop");
   let lastTime;
@@ -260,7 +527,18 @@ async function main() {
     pointerControls.update(deltaTime, camera);
     fpsMovement.update(deltaTime, camera);
 
-    updateFrequency();
+    const beat = updateFrequency(selector, timeSeconds, deltaTime);
+    tweakPanel?.refresh();
+
+    // Leave the camera to the headset in VR
+    const pose = autopilot.update(
+      { time: autopilotTime(timeSeconds), deltaTime, beat },
+      cameraPose(),
+    );
+    if (pose && !renderer.xr.isPresenting) {
+      camera.position.set(...pose.position);
+      camera.lookAt(...pose.target);
+    }
 
     renderer.render(scene, camera);
   });
@@ -0,0 +1,370 @@
+//--
+// MIDI controller bindings
+//
+// createMidiBindings listens to a stream of raw MIDI messages and maps
+// control changes onto the uniforms of a registry, scaled to each uniform's
+// range, and note-ons onto named actions the page handles, such as switching
+// scene or flashing a pulse. In learn mode the next knob turned or key
+// pressed is bound to the waiting uniform or action. The mapping is plain
+// JSON, to save and load as a file. webMidi supplies the stream from the
+// browser's MIDI inputs; anything with onMessage can stand in for it, such as
+// a fake input in tests.
+//--
+import { type UniformRegistry, range, resolveTarget } from "./uniforms.ts";
+
+// A source of raw MIDI messages: a status byte and its data bytes
+export interface MidiSource {
+  // Returns a function that removes the listener
+  onMessage(listener: (data: ArrayLike<number>) => void): () => void;
+}
+
+export type MidiMessage =
+  | { type: "cc"; channel: number; controller: number; value: number }
+  | { type: "noteon"; channel: number; note: number; velocity: number }
+  | { type: "noteoff"; channel: number; note: number };
+
+// Decode the messages the bindings use, with channels from 0 to 15. Others,
+// such as clock or pitch bend, give undefined.
+export function parseMidiMessage(
+  data: ArrayLike<number>,
+): MidiMessage | undefined {
+  if (data.length < 3) {
+    return;
+  }
+  const channel = data[0] & 0x0f;
+  switch (data[0] & 0xf0) {
+    case 0xb0:
+      return { type: "cc", channel, controller: data[1], value: data[2] };
+    case 0x90:
+      // A note-on with no velocity is a note-off
+      return data[2] > 0
+        ? { type: "noteon", channel, note: data[1], velocity: data[2] }
+        : { type: "noteoff", channel, note: data[1] };
+    case 0x80:
+      return { type: "noteoff", channel, note: data[1] };
+  }
+}
+
+// A controller driving a uniform, or one component of a vector uniform such
+// as "color1.r", across the uniform's range or the one given here. Without a
+// channel, the controller is heard on any channel.
+export interface ControlBinding {
+  channel?: number;
+  controller: number;
+  target: string;
+  min?: number;
+  max?: number;
+}
+
+// A note firing an action, such as "scene:tunnel" or "flash"
+export interface NoteBinding {
+  channel?: number;
+  note: number;
+  action: string;
+}
+
+export interface MidiMapping {
+  version: 1;
+  controls: ControlBinding[];
+  notes: NoteBinding[];
+}
+
+// What learn mode is waiting to bind
+export type MidiLearning = { target: string } | { action: string };
+
+function emptyMapping(): MidiMapping {
+  return { version: 1, controls: [], notes: [] };
+}
+
+// Check that parsed JSON is a mapping this version can use
+export function parseMidiMapping(mapping: unknown): MidiMapping {
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid MIDI mapping: ${reason}`);
+  };
+  if (!mapping || typeof mapping !== "object") {
+    return fail("not an object");
+  }
+  const { version, controls, notes } = mapping as Record<string, unknown>;
+  if (version !== 1) {
+    fail(`unsupported version ${version}`);
+  }
+  if (!Array.isArray(controls) || !Array.isArray(notes)) {
+    return fail("missing controls or notes");
+  }
+  const isByte = (value: unknown, max = 127) =>
+    Number.isInteger(value) &&
+    (value as number) >= 0 &&
+    (value as number) <= max;
+  const checkChannel = (channel: unknown, i: number, kind: string) => {
+    if (channel !== undefined && !isByte(channel, 15)) {
+      fail(`${kind} ${i} has channel ${channel}, expected 0 to 15`);
+    }
+  };
+  controls.forEach((control, i) => {
+    checkChannel(control?.channel, i, "control");
+    if (!isByte(control?.controller)) {
+      fail(`control ${i} has controller ${control?.controller}`);
+    }
+    if (typeof control.target !== "string") {
+      fail(`control ${i} has no target`);
+    }
+    for (const key of ["min", "max"]) {
+      if (control[key] !== undefined && !Number.isFinite(control[key])) {
+        fail(`control ${i} has ${key} ${control[key]}`);
+      }
+    }
+  });
+  notes.forEach((binding, i) => {
+    checkChannel(binding?.channel, i, "note");
+    if (!isByte(binding?.note)) {
+      fail(`note ${i} has note ${binding?.note}`);
+    }
+    if (typeof binding.action !== "string") {
+      fail(`note ${i} has no action`);
+    }
+  });
+  return mapping as MidiMapping;
+}
+
+export function createMidiBindings(
+  source: MidiSource,
+  {
+    registry,
+    mapping = emptyMapping(),
+  }: {
+    // The uniforms controllers drive; change it when the scene changes
+    registry?: UniformRegistry;
+    mapping?: MidiMapping;
+  } = {},
+) {
+  let current = parseMidiMapping(structuredClone(mapping));
+  let learning: MidiLearning | undefined;
+  const actionListeners = new Set<(action: string, velocity: number) => void>();
+  const changeListeners = new Set<() => void>();
+
+  const matches = (binding: { channel?: number }, channel: number) =>
+    binding.channel === undefined || binding.channel === channel;
+
+  function changed() {
+    for (const listener of changeListeners) {
+      listener();
+    }
+  }
+
+  // Set a target from a controller value, 0 to 127. Targets the registry
+  // doesn't have, such as another scene's uniforms, are skipped.
+  function drive(binding: ControlBinding, value: number) {
+    const target = registry && resolveTarget(registry.uniforms, binding.target);
+    if (!registry || !target || typeof target === "string") {
+      return;
+    }
+    const { name, index } = target;
+    const spec = registry.specs[name];
+    if (spec.type === "bool") {
+      registry.set(name, value >= 64);
+      return;
+    }
+    const { min = 0, max = 1 } = range(spec);
+    const low = binding.min ?? min;
+    const high = binding.max ?? max;
+    const scaled = low + ((high - low) * value) / 127;
+    if (index === undefined) {
+      registry.set(name, scaled);
+    } else {
+      const vector = registry.get(name) as number[];
+      vector[index] = scaled;
+      registry.set(name, vector);
+    }
+  }
+
+  function receive(data: ArrayLike<number>) {
+    const message = parseMidiMessage(data);
+    if (message?.type === "cc") {
+      const { channel, controller, value } = message;
+      if (learning && "target" in learning) {
+        const { target } = learning;
+        learning = undefined;
+        current.controls = [
+          ...current.controls.filter(
+            (binding) =>
+              binding.target !== target &&
+              !(binding.controller === controller && matches(binding, channel)),
+          ),
+          { channel, controller, target },
+        ];
+        changed();
+      }
+      for (const binding of current.controls) {
+        if (binding.controller === controller && matches(binding, channel)) {
+          drive(binding, value);
+        }
+      }
+    } else if (message?.type === "noteon") {
+      const { channel, note, velocity } = message;
+      if (learning && "action" in learning) {
+        const { action } = learning;
+        learning = undefined;
+        current.notes = [
+          ...current.notes.filter(
+            (binding) =>
+              binding.action !== action &&
+              !(binding.note === note && matches(binding, channel)),
+          ),
+          { channel, note, action },
+        ];
+        changed();
+        return;
+      }
+      for (const binding of current.notes) {
+        if (binding.note === note && matches(binding, channel)) {
+          for (const listener of actionListeners) {
+            listener(binding.action, velocity / 127);
+          }
+        }
+      }
+    }
+  }
+
+  function load(mapping: unknown) {
+    current = parseMidiMapping(structuredClone(mapping));
+    learning = undefined;
+    changed();
+  }
+
+  const removeSource = source.onMessage(receive);
+
+  return {
+    // A copy of the mapping, to edit and load back
+    get mapping(): MidiMapping {
+      return structuredClone(current);
+    },
+
+    get registry() {
+      return registry;
+    },
+    set registry(next: UniformRegistry | undefined) {
+      registry = next;
+    },
+
+    // What learn mode is waiting for, if it is on
+    get learning() {
+      return learning;
+    },
+
+    // Bind the next controller moved to a target, such as "speed" or
+    // "color1.r", replacing the target's and the controller's old bindings
+    learnControl(target: string) {
+      const problem = registry && resolveTarget(registry.uniforms, target);
+      if (typeof problem === "string") {
+        throw new Error(`MIDI target "${target}" ${problem}`);
+      }
+      learning = { target };
+      changed();
+    },
+
+    // Bind the next note played to an action, replacing its old bindings
+    learnNote(action: string) {
+      learning = { action };
+      changed();
+    },
+
+    cancelLearn() {
+      if (learning) {
+        learning = undefined;
+        changed();
+      }
+    },
+
+    // The controls bound to a target, e.g. to label its control
+    controlsFor(target: string) {
+      return current.controls.filter((binding) => binding.target === target);
+    },
+
+    // Forget the bindings for a target or action
+    unbind(targetOrAction: string) {
+      current.controls = current.controls.filter(
+        (binding) => binding.target !== targetOrAction,
+      );
+      current.notes = current.notes.filter(
+        (binding) => binding.action !== targetOrAction,
+      );
+      changed();
+    },
+
+    load,
+
+    exportMapping() {
+      return JSON.stringify(current, null, 2);
+    },
+
+    importMapping(json: string) {
+      load(JSON.parse(json));
+    },
+
+    // Called with a note binding's action and the velocity, 0 to 1. Returns a
+    // function that removes the listener.
+    onAction(listener: (action: string, velocity: number) => void) {
+      actionListeners.add(listener);
+      return () => {
+        actionListeners.delete(listener);
+      };
+    },
+
+    // Called after the mapping or learn mode changes. Returns a function that
+    // removes the listener.
+    onChange(listener: () => void) {
+      changeListeners.add(listener);
+      return () => {
+        changeListeners.delete(listener);
+      };
+    },
+
+    dispose() {
+      removeSource();
+      actionListeners.clear();
+      changeListeners.clear();
+    },
+  };
+}
+
+export type MidiBindings = ReturnType<typeof createMidiBindings>;
+
+// The browser's MIDI inputs as one source, including any plugged in later.
+// Throws if the browser has no Web MIDI or the user doesn't allow it.
+export async function webMidi(): Promise<
+  MidiSource & { readonly inputs: string[] }
+> {
+  if (!navigator.requestMIDIAccess) {
+    throw new Error("This browser does not support Web MIDI");
+  }
+  const access = await navigator.requestMIDIAccess();
+  const listeners = new Set<(data: ArrayLike<number>) => void>();
+  const listen = (input: MIDIInput) => {
+    input.onmidimessage = ({ data }) => {
+      if (data) {
+        for (const listener of listeners) {
+          listener(data);
+        }
+      }
+    };
+  };
+  access.inputs.forEach(listen);
+  access.addEventListener("statechange", (event) => {
+    const { port } = event as MIDIConnectionEvent;
+    if (port?.type === "input" && port.state === "connected") {
+      listen(port as MIDIInput);
+    }
+  });
+  return {
+    // Names of the connected inputs
+    get inputs() {
+      return [...access.inputs.values()].map((input) => input.name ?? input.id);
+    },
+    onMessage(listener: (data: ArrayLike<number>) => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
@@ -0,0 +1,390 @@
+//--
+// Modulation matrix
+//
+// Routes audio onto a scene's globals without code. Each route reads a
+// source (a band range, an audio feature such as the RMS level, the beat or
+// an LFO), shapes it with a curve, scales it into a range and writes it to a
+// destination uniform or vector component, optionally lagging behind the
+// source. Routes to the same destination are summed. A matrix is plain JSON,
+// so it can be edited at runtime and saved in a scene preset alongside the
+// uniform values.
+//--
+import { type AudioFeatures, FEATURE_NAMES } from "./audio/features.ts";
+import { isObject } from "./files.ts";
+import { type AudioFrame, bandLevel } from "./scenes/scene.ts";
+import {
+  type UniformPreset,
+  UniformRegistry,
+  resolveTarget,
+} from "./uniforms.ts";
+
+export type ModulationSource =
+  // The average level of a range of the bands, as fractions of the band
+  // range, as bandLevel reads them
+  | { type: "band"; from: number; to: number }
+  // A feature from audio/features.ts, such as "rms" or "centroid"
+  | { type: "feature"; name: keyof AudioFeatures }
+  // The beat pulse, 1 on each beat and decaying, or the phase through the beat
+  | { type: "beat"; value?: "pulse" | "phase" }
+  // A low-frequency oscillator from 0 to 1, at rate cycles a second, starting
+  // phase cycles in
+  | { type: "lfo"; rate: number; shape?: LfoShape; phase?: number };
+
+export type LfoShape = "sine" | "triangle" | "saw" | "square";
+
+export type ModulationCurve = "linear" | "exp" | "smoothstep";
+
+export interface ModulationRoute {
+  source: ModulationSource;
+  // Shapes the source, clamped to 0 to 1 first; defaults to linear
+  curve?: ModulationCurve;
+  // What 0 and 1 from the curve map to; defaults to [0, 1]
+  range?: [number, number];
+  // A global's name, or one component of a vector global, e.g. "color1.r"
+  destination: string;
+  // Seconds for the route to move most of the way to a new value
+  lag?: number;
+}
+
+export interface ModulationMatrix {
+  routes: ModulationRoute[];
+}
+
+// The uniforms a matrix writes to, by name, as in a scene's globals, or the
+// registry holding them, through which values are clamped to each uniform's
+// range and ints rounded
+export type ModulationGlobals = Record<string, unknown> | UniformRegistry;
+
+const LFO_SHAPES: LfoShape[] = ["sine", "triangle", "saw", "square"];
+const CURVES: ModulationCurve[] = ["linear", "exp", "smoothstep"];
+const BEAT_VALUES = ["pulse", "phase"];
+
+// How sharply the exp curve bends: it rises e^4 times faster at 1 than at 0
+const EXP_STEEPNESS = 4;
+
+function checkSource(source: unknown): string | undefined {
+  if (!isObject(source)) {
+    return "source must be an object";
+  }
+  const isNumber = (value: unknown) => Number.isFinite(value);
+  switch (source.type) {
+    case "band":
+      if (!isNumber(source.from) || !isNumber(source.to)) {
+        return "band source needs numbers from and to";
+      }
+      return;
+    case "feature":
+      if (!FEATURE_NAMES.includes(source.name as keyof AudioFeatures)) {
+        return `unknown feature "${source.name}", expected one of ${FEATURE_NAMES.join(", ")}`;
+      }
+      return;
+    case "beat":
+      if (
+        source.value !== undefined &&
+        !BEAT_VALUES.includes(source.value as string)
+      ) {
+        return `unknown beat value "${source.value}", expected pulse or phase`;
+      }
+      return;
+    case "lfo":
+      if (!isNumber(source.rate)) {
+        return "lfo source needs a number rate";
+      }
+      if (
+        source.shape !== undefined &&
+        !LFO_SHAPES.includes(source.shape as LfoShape)
+      ) {
+        return `unknown lfo shape "${source.shape}", expected one of ${LFO_SHAPES.join(", ")}`;
+      }
+      if (source.phase !== undefined && !isNumber(source.phase)) {
+        return "lfo phase must be a number";
+      }
+      return;
+    default:
+      return `unknown source type "${source.type}", expected band, feature, beat or lfo`;
+  }
+}
+
+function checkRoute(route: unknown): string | undefined {
+  if (!isObject(route)) {
+    return "not an object";
+  }
+  const problem = checkSource(route.source);
+  if (problem) {
+    return problem;
+  }
+  if (
+    route.curve !== undefined &&
+    !CURVES.includes(route.curve as ModulationCurve)
+  ) {
+    return `unknown curve "${route.curve}", expected one of ${CURVES.join(", ")}`;
+  }
+  if (
+    route.range !== undefined &&
+    !(
+      Array.isArray(route.range) &&
+      route.range.length === 2 &&
+      route.range.every((x) => Number.isFinite(x))
+    )
+  ) {
+    return "range must be two numbers";
+  }
+  if (typeof route.destination !== "string") {
+    return "missing destination";
+  }
+  if (
+    route.lag !== undefined &&
+    !(Number.isFinite(route.lag) && (route.lag as number) >= 0)
+  ) {
+    return "lag must be a number of seconds, 0 or more";
+  }
+}
+
+// Check that parsed JSON is a modulation matrix, throwing on the first bad
+// route
+export function parseModulation(matrix: unknown): ModulationMatrix {
+  if (!isObject(matrix) || !Array.isArray(matrix.routes)) {
+    throw new Error(
+      "A modulation matrix must be an object with a routes array",
+    );
+  }
+  matrix.routes.forEach((route, i) => {
+    const problem = checkRoute(route);
+    if (problem) {
+      throw new Error(`Invalid modulation route ${i}: ${problem}`);
+    }
+  });
+  return matrix as unknown as ModulationMatrix;
+}
+
+function lfo(
+  {
+    rate,
+    shape = "sine",
+    phase = 0,
+  }: { rate: number; shape?: LfoShape; phase?: number },
+  time: number,
+) {
+  const t = (((time * rate + phase) % 1) + 1) % 1;
+  switch (shape) {
+    case "sine":
+      return 0.5 - 0.5 * Math.cos(2 * Math.PI * t);
+    case "triangle":
+      return 1 - Math.abs(2 * t - 1);
+    case "saw":
+      return t;
+    case "square":
+      return t < 0.5 ? 1 : 0;
+  }
+}
+
+function read(source: ModulationSource, audio: AudioFrame) {
+  switch (source.type) {
+    case "band":
+      return bandLevel(audio.bands, source.from, source.to);
+    case "feature":
+      return audio.features[source.name];
+    case "beat":
+      return audio.beat[source.value ?? "pulse"];
+    case "lfo":
+      return lfo(source, audio.time);
+  }
+}
+
+// Maps 0 to 1 onto 0 to 1
+export function applyCurve(curve: ModulationCurve, x: number) {
+  const t = Math.min(Math.max(x, 0), 1);
+  switch (curve) {
+    case "linear":
+      return t;
+    case "exp":
+      return Math.expm1(EXP_STEEPNESS * t) / Math.expm1(EXP_STEEPNESS);
+    case "smoothstep":
+      return t * t * (3 - 2 * t);
+  }
+}
+
+// Writes a number to a float uniform or one component of a vector uniform,
+// through the registry if the globals are one
+type Setter = (value: number) => void;
+
+function setter(globals: ModulationGlobals, destination: string): Setter {
+  const registry = globals instanceof UniformRegistry ? globals : undefined;
+  const uniforms: Record<string, unknown> = registry
+    ? registry.uniforms
+    : (globals as Record<string, unknown>);
+  const target = resolveTarget(uniforms, destination);
+  if (typeof target === "string") {
+    throw new Error(`Modulation destination "${destination}" ${target}`);
+  }
+  const { name, index } = target;
+  const uniform = uniforms[name] as { value: unknown };
+  if (index === undefined) {
+    if (typeof uniform.value !== "number") {
+      throw new Error(
+        `Modulation destination "${destination}" is not a number`,
+      );
+    }
+    if (registry) {
+      return (x) => registry.set(name, x);
+    }
+    return (x) => {
+      uniform.value = x;
+    };
+  }
+  if (registry) {
+    return (x) => {
+      const components = registry.get(name) as number[];
+      components[index] = x;
+      registry.set(name, components);
+    };
+  }
+  const vector = uniform.value as {
+    setComponent(index: number, x: number): unknown;
+  };
+  return (x) => {
+    vector.setComponent(index, x);
+  };
+}
+
+// A matrix bound to one set of globals, such as the shown scene's
+export function createModulation(
+  globals: ModulationGlobals,
+  initial: ModulationMatrix = { routes: [] },
+) {
+  let matrix: ModulationMatrix = { routes: [] };
+  // Setters by destination, and each route's destination and lagged value
+  let setters = new Map<string, Setter>();
+  let lagged: (number | undefined)[] = [];
+  let lastTime: number | undefined;
+  const listeners = new Set<() => void>();
+
+  // Check the matrix and its destinations before replacing the current one,
+  // so a bad matrix changes nothing
+  function load(value: unknown) {
+    const parsed = parseModulation(structuredClone(value));
+    const next = new Map<string, Setter>();
+    for (const { destination } of parsed.routes) {
+      if (!next.has(destination)) {
+        next.set(destination, setter(globals, destination));
+      }
+    }
+    matrix = parsed;
+    setters = next;
+    lagged = [];
+    for (const listener of listeners) {
+      listener();
+    }
+  }
+
+  load(initial);
+
+  return {
+    // A copy of the routes, to edit and load back
+    get matrix(): ModulationMatrix {
+      return structuredClone(matrix);
+    },
+
+    load,
+
+    addRoute(route: ModulationRoute) {
+      load({ routes: [...matrix.routes, route] });
+    },
+
+    removeRoute(index: number) {
+      if (!(index >= 0 && index < matrix.routes.length)) {
+        throw new Error(
+          `No modulation route ${index} in a matrix of ${matrix.routes.length} routes`,
+        );
+      }
+      load({ routes: matrix.routes.filter((_, i) => i !== index) });
+    },
+
+    // Write this frame's routes to their destinations. Destinations no route
+    // writes to are left alone.
+    apply(audio: AudioFrame) {
+      const dt = lastTime === undefined ? 0 : audio.time - lastTime;
+      lastTime = audio.time;
+      const sums = new Map<string, number>();
+      matrix.routes.forEach((route, i) => {
+        const { curve = "linear", range = [0, 1], lag = 0 } = route;
+        const [min, max] = range;
+        const target =
+          min + (max - min) * applyCurve(curve, read(route.source, audio));
+        const previous = lagged[i];
+        const value =
+          previous === undefined || lag <= 0
+            ? target
+            : previous + (target - previous) * (1 - Math.exp(-dt / lag));
+        lagged[i] = value;
+        sums.set(route.destination, (sums.get(route.destination) ?? 0) + value);
+      });
+      for (const [destination, value] of sums) {
+        setters.get(destination)!(value);
+      }
+    },
+
+    // Called after the routes change. Returns a function that removes the
+    // listener.
+    onChange(listener: () => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    exportMatrix() {
+      return JSON.stringify(matrix, null, 2);
+    },
+
+    importMatrix(json: string) {
+      load(JSON.parse(json));
+    },
+  };
+}
+
+export type Modulation = ReturnType<typeof createModulation>;
+
+// Everything about how a scene looks and reacts to music: its uniform values
+// and its modulation routes
+export interface ScenePreset {
+  uniforms?: UniformPreset;
+  modulation?: ModulationMatrix;
+}
+
+export function toScenePreset(
+  registry: UniformRegistry | undefined,
+  modulation: Modulation,
+): ScenePreset {
+  return { uniforms: registry?.toPreset(), modulation: modulation.matrix };
+}
+
+// Load a scene preset, or a plain uniform preset from before scene presets.
+// The routes are checked first, so a bad preset changes nothing.
+export function loadScenePreset(
+  preset: unknown,
+  registry: UniformRegistry | undefined,
+  modulation: Modulation,
+) {
+  if (!isObject(preset)) {
+    throw new Error("A preset must be an object");
+  }
+  const isScenePreset = "uniforms" in preset || "modulation" in preset;
+  const uniforms = isScenePreset ? preset.uniforms : preset;
+  const previous = modulation.matrix;
+  if (isScenePreset && preset.modulation !== undefined) {
+    modulation.load(preset.modulation);
+  }
+  if (uniforms !== undefined) {
+    if (!registry) {
+      modulation.load(previous);
+      throw new Error("This scene has no uniforms to load a preset into");
+    }
+    try {
+      registry.loadPreset(uniforms);
+    } catch (error) {
+      modulation.load(previous);
+      throw error;
+    }
+  }
+}
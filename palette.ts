@@ -0,0 +1,352 @@
+//--
+// Color palettes
+//
+// A palette maps a parameter from 0 to 1 onto a color: a gradient through N
+// color stops, a cosine palette (a + b cos(2π(ct + d)), per channel) or a ramp
+// between two HSV colors. A palette set bakes its palettes into the rows of a
+// texture, which scenes sample with the palette(t, position) d function from
+// paletteFunctions: the whole part of position picks a palette and the
+// fraction blends into the next, so a scene's palette global can be tweaked,
+// routed from the audio or cycled on the beat with paletteCycle. Palettes are
+// plain JSON, to save and load as a file.
+//--
+import * as THREE from "three";
+import { dyno } from "@sparkjsdev/spark";
+import type { BeatState } from "./audio/index.ts";
+import { d, type FunctionDef } from "./dynoexp.ts";
+import { isObject } from "./files.ts";
+
+const { dynoSampler2D, texture, textureSize } = dyno;
+
+export type Rgb = [number, number, number];
+
+export type Palette =
+  // Colors at points from 0 to 1, in order, blended in between
+  | { name: string; type: "stops"; stops: { at: number; color: Rgb }[] }
+  // a + b * cos(2π(c * t + d)), per channel
+  | { name: string; type: "cosine"; a: Rgb; b: Rgb; c: Rgb; d: Rgb }
+  // From one hue, saturation and value to another, each from 0 to 1; a hue
+  // past 1 goes round the color wheel again
+  | { name: string; type: "hsv"; from: Rgb; to: Rgb };
+
+export interface PaletteFile {
+  palettes: Palette[];
+}
+
+// Shipped with the app, in the order a cycle visits them
+export const BUNDLED_PALETTES: Palette[] = [
+  {
+    name: "twilight",
+    type: "stops",
+    stops: [
+      { at: 0, color: [0.05, 0.05, 0.15] },
+      { at: 0.5, color: [0.16, 0.16, 0.32] },
+      { at: 1, color: [0.45, 0.4, 0.75] },
+    ],
+  },
+  {
+    name: "ember",
+    type: "stops",
+    stops: [
+      { at: 0, color: [0.05, 0.1, 0.4] },
+      { at: 0.4, color: [0.6, 0.1, 0.3] },
+      { at: 0.75, color: [1, 0.5, 0.1] },
+      { at: 1, color: [1, 0.9, 0.5] },
+    ],
+  },
+  {
+    name: "ocean",
+    type: "stops",
+    stops: [
+      { at: 0, color: [0, 0.05, 0.15] },
+      { at: 0.5, color: [0, 0.35, 0.55] },
+      { at: 1, color: [0.6, 0.95, 0.9] },
+    ],
+  },
+  {
+    name: "neon",
+    type: "cosine",
+    a: [0.5, 0.5, 0.5],
+    b: [0.5, 0.5, 0.5],
+    c: [1, 1, 1],
+    d: [0, 0.33, 0.67],
+  },
+  {
+    name: "candy",
+    type: "cosine",
+    a: [0.5, 0.5, 0.5],
+    b: [0.5, 0.5, 0.5],
+    c: [1, 0.7, 0.4],
+    d: [0, 0.15, 0.2],
+  },
+  {
+    name: "forest",
+    type: "cosine",
+    a: [0.3, 0.45, 0.25],
+    b: [0.2, 0.3, 0.15],
+    c: [1, 1, 0.5],
+    d: [0.6, 0.55, 0.5],
+  },
+  { name: "rainbow", type: "hsv", from: [0, 0.8, 1], to: [1, 0.8, 1] },
+  { name: "ice", type: "hsv", from: [0.65, 0.9, 0.3], to: [0.5, 0.1, 1] },
+];
+
+// Texels across each palette's row
+const PALETTE_SIZE = 256;
+
+function isRgb(value: unknown) {
+  return (
+    Array.isArray(value) &&
+    value.length === 3 &&
+    value.every((x) => Number.isFinite(x))
+  );
+}
+
+function checkPalette(palette: Record<string, unknown>): string | undefined {
+  switch (palette.type) {
+    case "stops": {
+      const { stops } = palette;
+      if (!Array.isArray(stops) || stops.length === 0) {
+        return "stops must be a non-empty array";
+      }
+      let last = -Infinity;
+      for (const [i, stop] of stops.entries()) {
+        if (!Number.isFinite(stop?.at) || !isRgb(stop?.color)) {
+          return `stop ${i} needs a number at and an [r, g, b] color`;
+        }
+        if (stop.at < last) {
+          return `stop ${i} is at ${stop.at}, before the stop ahead of it`;
+        }
+        last = stop.at;
+      }
+      return;
+    }
+    case "cosine":
+      for (const key of ["a", "b", "c", "d"]) {
+        if (!isRgb(palette[key])) {
+          return `${key} must be three numbers`;
+        }
+      }
+      return;
+    case "hsv":
+      if (!isRgb(palette.from) || !isRgb(palette.to)) {
+        return "from and to must be three numbers, hue, saturation and value";
+      }
+      return;
+    default:
+      return `unknown type "${palette.type}", expected stops, cosine or hsv`;
+  }
+}
+
+// Check that parsed JSON is a palette file, throwing on the first bad palette
+export function parsePalettes(file: unknown): PaletteFile {
+  if (!isObject(file) || !Array.isArray(file.palettes)) {
+    throw new Error("A palette file must be an object with a palettes array");
+  }
+  if (file.palettes.length === 0) {
+    throw new Error("A palette file needs at least one palette");
+  }
+  const names = new Set<string>();
+  file.palettes.forEach((palette, i) => {
+    if (!isObject(palette) || typeof palette.name !== "string") {
+      throw new Error(`Invalid palette ${i}: missing name`);
+    }
+    const problem = names.has(palette.name)
+      ? "the name is already used"
+      : checkPalette(palette);
+    if (problem) {
+      throw new Error(`Invalid palette "${palette.name}": ${problem}`);
+    }
+    names.add(palette.name);
+  });
+  return file as unknown as PaletteFile;
+}
+
+function hsvToRgb([h, s, v]: Rgb): Rgb {
+  const channel = (n: number) => {
+    const k = (n + h * 6) % 6;
+    return v - v * s * Math.max(0, Math.min(k, 4 - k, 1));
+  };
+  return [channel(5), channel(3), channel(1)];
+}
+
+// The palette's color at t, clamped to 0 to 1, with channels from 0 to 1
+export function samplePalette(palette: Palette, t: number): Rgb {
+  const x = Math.min(Math.max(t, 0), 1);
+  const lerp = (from: Rgb, to: Rgb, f: number) =>
+    from.map((value, i) => value + (to[i] - value) * f) as Rgb;
+  const clamp = (rgb: Rgb) =>
+    rgb.map((value) => Math.min(Math.max(value, 0), 1)) as Rgb;
+  switch (palette.type) {
+    case "stops": {
+      const { stops } = palette;
+      const next = stops.findIndex((stop) => stop.at > x);
+      if (next <= 0) {
+        return clamp(stops[next === 0 ? 0 : stops.length - 1].color);
+      }
+      const from = stops[next - 1];
+      const to = stops[next];
+      return clamp(
+        lerp(from.color, to.color, (x - from.at) / (to.at - from.at)),
+      );
+    }
+    case "cosine": {
+      const { a, b, c, d } = palette;
+      return clamp(
+        a.map(
+          (_, i) => a[i] + b[i] * Math.cos(2 * Math.PI * (c[i] * x + d[i])),
+        ) as Rgb,
+      );
+    }
+    case "hsv": {
+      const [h, s, v] = lerp(palette.from, palette.to, x);
+      return clamp(hsvToRgb([((h % 1) + 1) % 1, s, v]));
+    }
+  }
+}
+
+// A set of palettes and the texture they are baked into, one row each
+export function createPalettes(
+  initial: Palette[] = BUNDLED_PALETTES,
+  { size = PALETTE_SIZE }: { size?: number } = {},
+) {
+  let current: Palette[] = [];
+  const listeners = new Set<() => void>();
+  const baked = new THREE.DataTexture(
+    new Uint8Array(4),
+    1,
+    1,
+    THREE.RGBAFormat,
+    THREE.UnsignedByteType,
+  );
+  baked.minFilter = THREE.LinearFilter;
+  baked.magFilter = THREE.LinearFilter;
+  // Positions past the last palette blend back into the first
+  baked.wrapT = THREE.RepeatWrapping;
+
+  function bake(palettes: Palette[]) {
+    const data = new Uint8Array(size * palettes.length * 4);
+    palettes.forEach((palette, row) => {
+      for (let i = 0; i < size; i++) {
+        const rgb = samplePalette(palette, size > 1 ? i / (size - 1) : 0);
+        data.set(
+          [...rgb.map((value) => Math.round(value * 255)), 255],
+          (row * size + i) * 4,
+        );
+      }
+    });
+    // A texture can't change size once uploaded, so drop the old one first
+    baked.dispose();
+    baked.image = { data, width: size, height: palettes.length };
+    baked.needsUpdate = true;
+  }
+
+  // Check the palettes before replacing the current ones, so a bad file
+  // changes nothing
+  function load(file: unknown) {
+    const parsed = parsePalettes(structuredClone(file));
+    bake(parsed.palettes);
+    current = parsed.palettes;
+    for (const listener of listeners) {
+      listener();
+    }
+  }
+
+  load({ palettes: initial });
+
+  return {
+    texture: baked,
+    size,
+
+    // A copy of the palettes, to edit and load back
+    get palettes(): Palette[] {
+      return structuredClone(current);
+    },
+
+    get names() {
+      return current.map(({ name }) => name);
+    },
+
+    // The position of a palette by name, for a scene's palette global
+    indexOf(name: string) {
+      const index = current.findIndex((palette) => palette.name === name);
+      if (index < 0) {
+        throw new Error(
+          `Unknown palette "${name}", expected one of ${current.map(({ name }) => name).join(", ")}`,
+        );
+      }
+      return index;
+    },
+
+    load,
+
+    // Called after the palettes change. Returns a function that removes the
+    // listener.
+    onChange(listener: () => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    exportPalettes() {
+      return JSON.stringify({ palettes: current }, null, 2);
+    },
+
+    importPalettes(json: string) {
+      load(JSON.parse(json));
+    },
+
+    dispose() {
+      baked.dispose();
+      listeners.clear();
+    },
+  };
+}
+
+export type Palettes = ReturnType<typeof createPalettes>;
+
+// The palettes every scene samples unless given others; load into these to
+// recolor them all
+export const palettes = createPalettes();
+
+// palette(t, position) gives the color at t, from 0 to 1, of the palette at
+// position: palette 0 at 0, palette 1 at 1 and halfway between them at 0.5,
+// wrapping round after the last. Use it from a tag made by createDynoTag, e.g.
+// createDynoTag({ functions: paletteFunctions() }).
+export function paletteFunctions(
+  baked: THREE.Texture = palettes.texture,
+): Record<string, FunctionDef> {
+  const sampler: dyno.DynoSampler2D<string, THREE.Texture> = dynoSampler2D(
+    baked,
+    "palettes",
+  );
+  return {
+    palette: {
+      arity: 2,
+      impl: (t, position) => {
+        const dimensions = d`vec2(${textureSize(sampler)})`;
+        const width = d`${dimensions}.x`;
+        const rows = d`${dimensions}.y`;
+        // Texel centres across the row, and down to the palette's row
+        const u = d`(0.5 + clamp(${t}, 0.0, 1.0) * (${width} - 1.0)) / ${width}`;
+        const v = d`(${position} + 0.5) / ${rows}`;
+        const coord = d`vec2(${u}, ${v})` as dyno.DynoVal<"vec2">;
+        return d`${texture(sampler, coord)}.rgb`;
+      },
+      type: () => "vec3",
+    },
+  };
+}
+
+// A palette position that holds each palette for every beats and blends into
+// the next over the last blend beats of them, for a scene's palette global
+export function paletteCycle(beat: BeatState, every = 4, blend = 1) {
+  const beats = beat.beats + beat.phase;
+  const step = Math.floor(beats / every);
+  const into = beats - step * every;
+  const span = Math.min(blend, every);
+  const t =
+    span > 0 ? Math.min(Math.max((into - (every - span)) / span, 0), 1) : 0;
+  return step + t * t * (3 - 2 * t);
+}
@@ -0,0 +1,53 @@
+//--
+// Spectrum bars: a row of 16 bars, one per frequency band, each a column of
+// splats as tall as its band is loud
+//--
+import * as THREE from "three";
+import { dyno } from "@sparkjsdev/spark";
+import { d } from "../dynoexp.ts";
+import { bandLevel, defineScene } from "./scene.ts";
+
+const { dynoFloat, dynoVec4, hashVec4 } = dyno;
+
+const BARS = 16;
+
+export const bars = defineScene({
+  name: "bars",
+  label: "Spectrum bars",
+  numSplats: 16000,
+  camera: { position: [0, 6, 22], target: [0, 3, 0] },
+
+  globals: () => ({
+    // Bar heights, four bars to a vector
+    levels: [0, 1, 2, 3].map(() => dynoVec4(new THREE.Vector4())),
+    height: dynoFloat(10),
+  }),
+
+  infunc(index, time, { levels, height }) {
+    const random = hashVec4(index);
+    const bar = d`mod(floor(${random}.w * ${BARS}), ${BARS})`;
+    // The bar's level: its component of the levels, picked out by a one-hot
+    // weight for each group of four bars
+    const level = levels
+      .map((group, i) => {
+        const first = i * 4;
+        const weight = d`max(1.0 - abs(vec4(${bar}) - vec4(${first}, ${first + 1}, ${first + 2}, ${first + 3})), 0.0)`;
+        return d`dot(${group}, ${weight})`;
+      })
+      .reduce((sum, term) => d`${sum} + ${term}`);
+    const y = d`${random}.y * ${level} * ${height}`;
+    return {
+      position: d`vec3((${bar} - ${(BARS - 1) / 2}) * 1.2 + (${random}.x - 0.5) * 0.8, ${y}, (${random}.z - 0.5) * 0.8)`,
+      scales: d`vec3(0.06)`,
+      rgb: d`mix(vec3(0.1, 0.4, 1.0), vec3(1.0, 0.3, 0.6), ${random}.y * ${level})`,
+      opacity: d`0.4 + 0.6 * ${level}`,
+    };
+  },
+
+  onAudio({ levels }, { bands }) {
+    for (let i = 0; i < BARS; i++) {
+      const level = bandLevel(bands, i / BARS, (i + 1) / BARS);
+      levels[i >> 2].value.setComponent(i & 3, level);
+    }
+  },
+});
@@ -0,0 +1,22 @@
+//--
+// The bundled scenes, in the order the selector lists them. To add a visual,
+// write a module in this directory that calls defineScene and list it here.
+//--
+import type { AnyScene } from "./scene.ts";
+import { bars } from "./bars.ts";
+import { spectrogram } from "./spectrogram.ts";
+import { sphere } from "./sphere.ts";
+import { tunnel } from "./tunnel.ts";
+import { wave } from "./wave.ts";
+
+export const SCENES: AnyScene[] = [wave, bars, tunnel, sphere, spectrogram];
+
+export {
+  type AnyScene,
+  type AudioFrame,
+  type AudioUniforms,
+  band,
+  bandLevel,
+  defineScene,
+} from "./scene.ts";
+export { createSceneSelector } from "./selector.ts";
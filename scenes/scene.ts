@@ -0,0 +1,117 @@
+//--
+// Scene modules
+//
+// A scene is one audio-reactive visual: the infunc that places its splats,
+// the globals it reads, how many splats it needs, where the camera should
+// start and how the audio drives its globals. Each scene lives in its own
+// module under scenes/ and is listed in scenes/index.ts.
+//--
+import type { dyno } from "@sparkjsdev/spark";
+import type {
+  AudioFeatures,
+  BeatState,
+  FeatureUniforms,
+  SpectrumTexture,
+} from "../audio/index.ts";
+import type { ModulationMatrix } from "../modulation.ts";
+import type {
+  ShaderBoxGlobals,
+  ShaderBoxInfunc,
+  ShaderBoxSplat,
+} from "../shadergen.ts";
+
+// The analyser data passed to a scene each frame. While a timeline plays, the
+// bands, the beat and the features' rms come from it; the rest stays live.
+export interface AudioFrame {
+  // Byte frequency data from an AnalyserNode, lowest bin first, each 0-255
+  frequencies: Uint8Array;
+  // The spectrum and its recent history as a texture from audio/spectrum.ts,
+  // for a scene's spectrumUniform
+  spectrum: SpectrumTexture["texture"];
+  // Band levels from audio/bands.ts, or played back from a timeline, lowest
+  // band first, each 0-1, smoothed and gain normalized so they span the same
+  // range whatever the track
+  bands: Float32Array;
+  // Tempo, beat phase and a pulse that peaks on each beat, from audio/beats.ts
+  beat: BeatState;
+  // Loudness, stereo balance and spectral shape, from audio/features.ts
+  features: AudioFeatures;
+  // Time-domain samples from the analyser, -1 to 1
+  waveform: Float32Array;
+  // Seconds since the page started
+  time: number;
+}
+
+type FeatureUniformSet = FeatureUniforms["uniforms"];
+
+// Uniforms the scene selector keeps up to date from the audio, given to every
+// scene's infunc after its own globals: each feature by name, such as rms and
+// centroid, from audio/featureuniforms.ts, and the beat's pulse
+export interface AudioUniforms extends FeatureUniformSet {
+  // The beat's pulse, from audio/pulse.ts
+  pulse: ReturnType<typeof dyno.dynoFloat>;
+}
+
+// Where the camera is placed when the scene is selected
+export interface CameraPose {
+  position: [number, number, number];
+  target: [number, number, number];
+}
+
+export interface Scene<G extends object = Record<string, unknown>> {
+  // Short name used by the selector, e.g. "wave"
+  name: string;
+  label: string;
+  numSplats: number;
+  // Creates the dyno globals the infunc reads, so each use of the scene gets
+  // its own uniforms. A uniform registry also gets a tweak panel.
+  globals: () => ShaderBoxGlobals<G>;
+  infunc(
+    ...args: [...Parameters<ShaderBoxInfunc<G>>, audio: AudioUniforms]
+  ): ShaderBoxSplat;
+  camera: CameraPose;
+  // Maps the audio onto the globals before each frame
+  onAudio?(globals: G, audio: AudioFrame): void;
+  // Set if the scene reads audio a timeline doesn't record: the frequencies,
+  // spectrum or waveform, or features other than rms. The page then follows
+  // the live analyser while it is shown, even if the track has a timeline.
+  liveAudio?: boolean;
+  // Routes from the audio to the globals, applied after onAudio each frame.
+  // They can be edited at runtime and are saved in the scene's presets.
+  modulation?: ModulationMatrix;
+}
+
+// Any scene, whatever its globals. infunc and onAudio are methods so that
+// every Scene<G> is one of these.
+export type AnyScene = Scene<object>;
+
+// Declares a scene, checking its globals against its infunc and onAudio
+export function defineScene<G extends object>(scene: Scene<G>): Scene<G> {
+  return scene;
+}
+
+// The average level of frequency bins [from, to), from 0 to 1
+export function band(frequencies: Uint8Array, from: number, to: number) {
+  const end = Math.min(to, frequencies.length);
+  let total = 0;
+  for (let bin = from; bin < end; bin++) {
+    total += frequencies[bin];
+  }
+  return end > from ? total / (end - from) / 255 : 0;
+}
+
+// The average level of the bands covering [from, to) of the band range, where
+// 0 is the lowest band and 1 the top of the highest, so a scene reads the
+// same part of the spectrum whatever the band count
+export function bandLevel(bands: Float32Array, from: number, to: number) {
+  const start = Math.floor(from * bands.length);
+  const end = Math.min(
+    Math.max(start + 1, Math.ceil(to * bands.length)),
+    bands.length,
+  );
+  let total = 0;
+  for (let i = start; i < end; i++) {
+    total += bands[i];
+  }
+  return end > start ? total / (end - start) : 0;
+}
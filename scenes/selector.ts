@@ -0,0 +1,128 @@
+//--
+// Runtime scene selector
+//
+// Shows one scene at a time in a parent object, swapping in another on
+// request: the new scene's shaderBox is added, the old one disposed and the
+// camera moved to the new scene's pose. The selector also keeps the audio
+// uniforms every scene can read: the features and the beat pulse.
+//--
+import { createBeatPulse, createFeatureUniforms } from "../audio/index.ts";
+import { createModulation } from "../modulation.ts";
+import { shaderBox } from "../shadergen.ts";
+import { UniformRegistry } from "../uniforms.ts";
+import type { AnyScene, AudioFrame, AudioUniforms } from "./scene.ts";
+
+// The parts of THREE objects the selector uses
+interface Parent {
+  add(object: unknown): unknown;
+}
+interface Camera {
+  position: { set(x: number, y: number, z: number): unknown };
+  lookAt(x: number, y: number, z: number): unknown;
+}
+
+// The scene shown: its shaderBox, the globals created for it, their registry,
+// if it has one, and the modulation routes writing to them
+function startScene(scene: AnyScene, audio: AudioUniforms) {
+  const created = scene.globals();
+  const registry = created instanceof UniformRegistry ? created : undefined;
+  const globals = registry ? registry.uniforms : created;
+  const box = shaderBox({
+    infunc: (index, time, globals) => scene.infunc(index, time, globals, audio),
+    numSplats: scene.numSplats,
+    globals: created,
+  });
+  const modulation = createModulation(
+    registry ?? (globals as Record<string, unknown>),
+    scene.modulation,
+  );
+  return { scene, globals, registry, modulation, box };
+}
+
+export function createSceneSelector({
+  scenes,
+  parent,
+  camera,
+  initial = scenes[0]?.name,
+  onChange,
+}: {
+  scenes: AnyScene[];
+  parent: Parent;
+  // Moved to each scene's camera pose when it is selected
+  camera?: Camera;
+  initial?: string;
+  onChange?: (scene: AnyScene) => void;
+}) {
+  let shown: ReturnType<typeof startScene> | undefined;
+  const features = createFeatureUniforms();
+  const pulse = createBeatPulse();
+  const uniforms: AudioUniforms = {
+    ...features.uniforms,
+    pulse: pulse.uniform,
+  };
+
+  function find(name: string) {
+    const scene = scenes.find((scene) => scene.name === name);
+    if (!scene) {
+      throw new Error(
+        `Unknown scene "${name}", expected one of ${scenes.map(({ name }) => name).join(", ")}`,
+      );
+    }
+    return scene;
+  }
+
+  function select(name: string) {
+    const scene = find(name);
+    if (scene === shown?.scene) {
+      return;
+    }
+    const next = startScene(scene, uniforms);
+    parent.add(next.box.shadergen);
+    shown?.box.dispose();
+    shown = next;
+    if (camera) {
+      camera.position.set(...scene.camera.position);
+      camera.lookAt(...scene.camera.target);
+    }
+    onChange?.(scene);
+  }
+
+  if (initial !== undefined) {
+    select(initial);
+  }
+
+  return {
+    scenes,
+    get scene() {
+      return shown?.scene;
+    },
+    // The shown scene's shaderBox
+    get box() {
+      return shown?.box;
+    },
+    // The shown scene's uniform registry, if its globals are one
+    get registry() {
+      return shown?.registry;
+    },
+    // The audio uniforms given to every scene, kept up to date by update
+    uniforms,
+    // The shown scene's modulation matrix
+    get modulation() {
+      return shown?.modulation;
+    },
+    select,
+    // Pass this frame's audio to the shown scene
+    update(audio: AudioFrame) {
+      features.update(audio.features);
+      pulse.update(audio.beat);
+      if (shown) {
+        shown.scene.onAudio?.(shown.globals, audio);
+        shown.modulation.apply(audio);
+      }
+    },
+    dispose() {
+      shown?.box.dispose();
+      shown = undefined;
+    },
+  };
+}
@@ -0,0 +1,54 @@
+//--
+// Spectrogram: a grid of splats, frequency across and time going back into
+// the distance, each raised and lit by its own frequency in its own frame of
+// the spectrum history, colored by level from a palette
+//--
+import { dyno } from "@sparkjsdev/spark";
+import { spectrumFunctions, spectrumUniform } from "../audio/index.ts";
+import { createDynoTag, d } from "../dynoexp.ts";
+import { paletteFunctions, palettes } from "../palette.ts";
+import { defineScene } from "./scene.ts";
+
+const { dynoFloat } = dyno;
+
+const COLUMNS = 160;
+const ROWS = 100;
+const WIDTH = 16;
+const DEPTH = 16;
+
+export const spectrogram = defineScene({
+  name: "spectrogram",
+  label: "Spectrogram",
+  numSplats: COLUMNS * ROWS,
+  camera: { position: [0, 7, 9], target: [0, 0, -6] },
+  // Draws the spectrum texture, which timelines don't record
+  liveAudio: true,
+
+  globals: () => ({
+    spectrum: spectrumUniform(),
+    height: dynoFloat(3),
+    // Ember, unless the loaded palettes have none of that name
+    palette: dynoFloat(Math.max(palettes.names.indexOf("ember"), 0)),
+  }),
+
+  infunc(index, time, { spectrum, height, palette }) {
+    const t = createDynoTag({
+      functions: { ...spectrumFunctions(spectrum), ...paletteFunctions() },
+    });
+    const i = dyno.float(index);
+    // Lowest frequency on the left, the newest frame at the front
+    const u = d`mod(${i}, ${COLUMNS}) / ${COLUMNS - 1}`;
+    const age = d`floor(${i} / ${COLUMNS}) / ${ROWS - 1}`;
+    const level = t`spectrumHistory(${u}, ${age})`;
+    return {
+      position: d`vec3((${u} - 0.5) * ${WIDTH}, ${level} * ${height}, -${age} * ${DEPTH})`,
+      scales: d`vec3(0.05)`,
+      rgb: t`palette(${level}, ${palette})`,
+      opacity: d`(0.2 + 0.8 * ${level}) * (1.0 - 0.7 * ${age})`,
+    };
+  },
+
+  onAudio(globals, { spectrum }) {
+    globals.spectrum.value = spectrum;
+  },
+});
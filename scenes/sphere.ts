@@ -0,0 +1,68 @@
+//--
+// Frequency sphere: splats spread evenly over a sphere whose surface swells
+// with the low, mid and high bands in lobes of different sizes, kicks
+// outwards on each beat, leans towards the louder speaker and glows warmer
+// as the sound gets brighter
+//--
+import { dyno } from "@sparkjsdev/spark";
+import { d } from "../dynoexp.ts";
+import { bandLevel, defineScene } from "./scene.ts";
+
+const { dynoFloat } = dyno;
+
+const SPLATS = 20000;
+
+export const sphere = defineScene({
+  name: "sphere",
+  label: "Frequency sphere",
+  numSplats: SPLATS,
+  camera: { position: [0, 2, 12], target: [0, 0, 0] },
+  // Follows the stereo balance and centroid, which timelines don't record
+  liveAudio: true,
+
+  globals: () => ({
+    radius: dynoFloat(3),
+    low: dynoFloat(0),
+    mid: dynoFloat(0),
+    high: dynoFloat(0),
+  }),
+
+  infunc(
+    index,
+    time,
+    { radius, low, mid, high },
+    { pulse, balance, centroid },
+  ) {
+    // Fibonacci sphere: even spacing, one splat per index
+    const i = dyno.float(index);
+    const y = d`1.0 - 2.0 * (${i} + 0.5) / ${SPLATS}`;
+    const theta = d`${i} * 2.3999632`;
+    const ring = d`sqrt(1.0 - ${y} * ${y})`;
+    const normal = d`vec3(cos(${theta}) * ${ring}, ${y}, sin(${theta}) * ${ring})`;
+
+    // Broad lobes for the lows, finer ripples for the mids and highs
+    const lobes = d`sin(${normal}.x * 2.0 + ${time}) * sin(${normal}.y * 2.0 + ${time} * 0.7)`;
+    const ripples = d`sin(${normal}.y * 9.0 - ${time} * 2.0)`;
+    const grain = d`sin(dot(${normal}, vec3(31.0, 17.0, 23.0)) + ${time} * 5.0)`;
+    const swell = d`${low} * 1.5 * ${lobes} + ${mid} * 0.5 * ${ripples} + ${high} * 0.2 * ${grain}`;
+
+    // The side facing the louder speaker bulges out further
+    const lean = d`max(${balance} * ${normal}.x, 0.0) * ${radius} * 0.3`;
+
+    const cool = d`vec3(0.2, 0.5, 1.0)`;
+    const warm = d`vec3(1.0, 0.4, 0.2)`;
+    const heat = d`clamp(0.5 + ${swell} + (${centroid} - 0.5) * 0.8, 0.0, 1.0)`;
+    return {
+      position: d`${normal} * (${radius} * (1.0 + 0.15 * ${pulse}) + ${swell} + ${lean})`,
+      scales: d`vec3(0.04 + 0.04 * ${high})`,
+      rgb: d`mix(${cool}, ${warm}, ${heat})`,
+      opacity: d`0.6 + 0.4 * ${low}`,
+    };
+  },
+
+  onAudio(globals, { bands }) {
+    globals.low.value = bandLevel(bands, 0, 1 / 3);
+    globals.mid.value = bandLevel(bands, 1 / 3, 2 / 3);
+    globals.high.value = bandLevel(bands, 2 / 3, 1);
+  },
+});
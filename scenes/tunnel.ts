@@ -0,0 +1,52 @@
+//--
+// Radial tunnel: rings of splats streaming past the camera, pulsing wider
+// with the bass, brightening with the treble and flashing on each beat
+//--
+import { dyno } from "@sparkjsdev/spark";
+import { d } from "../dynoexp.ts";
+import { bandLevel, defineScene } from "./scene.ts";
+
+const { dynoFloat, hashVec4 } = dyno;
+
+const LENGTH = 60;
+const RINGS = 40;
+
+export const tunnel = defineScene({
+  name: "tunnel",
+  label: "Radial tunnel",
+  numSplats: 24000,
+  camera: { position: [0, 0, 2], target: [0, 0, -10] },
+
+  globals: () => ({
+    speed: dynoFloat(6),
+    radius: dynoFloat(4),
+    bass: dynoFloat(0),
+    treble: dynoFloat(0),
+  }),
+
+  infunc(index, time, { speed, radius, bass, treble }, { pulse }) {
+    const random = hashVec4(index);
+    const angle = d`${random}.x * 6.2831853`;
+    // Splats sit on evenly spaced rings that move towards the camera and wrap
+    // round to the far end
+    const ring = d`floor(${random}.y * ${RINGS})`;
+    const depth = d`mod(${ring} * ${LENGTH / RINGS} + ${time} * ${speed}, ${LENGTH})`;
+    // Each ring ripples round its edge, more so when the bass is loud
+    const wobble = d`sin(${angle} * 6.0 + ${ring} + ${time} * 2.0) * 0.3 * ${bass}`;
+    const r = d`${radius} * (1.0 + ${bass} * 0.5) + ${wobble}`;
+    const hue = d`fract(${ring} / ${RINGS} + ${time} * 0.05)`;
+    const rgb = d`0.5 + 0.5 * cos(6.2831853 * (${hue} + vec3(0.0, 0.33, 0.67)))`;
+    return {
+      position: d`vec3(cos(${angle}) * ${r}, sin(${angle}) * ${r}, -${LENGTH} + ${depth})`,
+      scales: d`vec3(0.05, 0.05, 0.2)`,
+      rgb: d`${rgb} * (0.5 + ${treble} + 0.5 * ${pulse})`,
+      // Fade in at the far end and out as rings pass the camera
+      opacity: d`smoothstep(0.0, 10.0, ${depth}) * (1.0 - smoothstep(${LENGTH - 4}, ${LENGTH}, ${depth}))`,
+    };
+  },
+
+  onAudio(globals, { bands }) {
+    globals.bass.value = bandLevel(bands, 0, 0.25);
+    globals.treble.value = bandLevel(bands, 0.6, 1);
+  },
+});
@@ -0,0 +1,167 @@
+//--
+// Wave field: a sheet of splats rippled by fBm noise, its height and
+// frequency following the spectrum through modulation routes, and its colors
+// from a palette that can change on the beat
+//--
+import { dyno } from "@sparkjsdev/spark";
+import { createDynoTag, d } from "../dynoexp.ts";
+import type { ModulationRoute } from "../modulation.ts";
+import { paletteCycle, paletteFunctions, palettes } from "../palette.ts";
+import { defineUniforms } from "../uniforms.ts";
+import { defineScene } from "./scene.ts";
+
+const { dynoConst, hashVec4 } = dyno;
+
+// Number of fBm octaves built into the shader; the octaves global can switch
+// off the higher ones at runtime
+const MAX_OCTAVES = 5;
+
+// A route from tenth i of the band range to a destination, from 0 up to max
+function tenth(i: number, destination: string, max: number): ModulationRoute {
+  return {
+    source: { type: "band", from: i / 10, to: (i + 1) / 10 },
+    range: [0, max],
+    destination,
+  };
+}
+
+export const wave = defineScene({
+  name: "wave",
+  label: "Wave field",
+  numSplats: 20000,
+  camera: { position: [8, 5, 25], target: [8, 5, 24] },
+
+  globals: () =>
+    defineUniforms({
+      speed: { type: "float", default: 1.5, min: 0, max: 5, group: "Motion" },
+      phase: { type: "float", default: 0.5, min: 0, max: 2, group: "Motion" },
+      frequency: {
+        type: "float",
+        default: 0.2,
+        min: 0,
+        max: 0.5,
+        group: "Noise",
+      },
+      amplitude: { type: "float", default: 1, min: 0, max: 2, group: "Noise" },
+      octaves: { type: "float", default: 5, min: 1, max: 5, group: "Noise" },
+      lacunarity: {
+        type: "float",
+        default: 2.0,
+        min: 1,
+        max: 4,
+        group: "Noise",
+        label: "lacunarity (frequency gain per octave)",
+      },
+      persistence: {
+        type: "float",
+        default: 0.5,
+        min: 0,
+        max: 1,
+        group: "Noise",
+        label: "persistence (amplitude gain per octave)",
+      },
+      scale: { type: "float", default: 0.4, min: 0, max: 1, group: "Look" },
+      anisoScale: {
+        type: "vec3",
+        default: [0.1, 0.1, 0.1],
+        min: 0,
+        max: 0.5,
+        group: "Look",
+      },
+      opacity: { type: "float", default: 0.5, min: 0, max: 1, group: "Look" },
+      palette: {
+        type: "float",
+        default: 0,
+        min: 0,
+        // Read whenever the palette is set, so it follows palettes loaded
+        // after the scene started
+        get max() {
+          return palettes.names.length;
+        },
+        group: "Look",
+        label: "palette (whole numbers pick one, fractions blend)",
+      },
+      cycle: {
+        type: "int",
+        default: 8,
+        min: 0,
+        max: 32,
+        group: "Look",
+        label: "cycle (beats per palette, 0 holds it)",
+      },
+    }),
+
+  infunc(index, dynoTime, globals) {
+    const random = hashVec4(index);
+
+    const xPos = d`(${random}.x * ${dynoTime} * ${globals.speed}) % 15`;
+    const zPos = d`${random}.z * 15`;
+
+    // Named bindings so the octave formula can refer to the globals directly
+    const t = createDynoTag({
+      vars: {
+        time: dynoTime,
+        xPos,
+        zPos,
+        amplitude: globals.amplitude,
+        frequency: globals.frequency,
+        phase: globals.phase,
+        lacunarity: globals.lacunarity,
+        persistence: globals.persistence,
+        octaves: globals.octaves,
+      },
+      functions: {
+        // Contribution of octave n: amplitude and frequency scale per octave,
+        // and each octave drifts with its own time offset
+        octave: {
+          arity: 1,
+          impl: (n) => {
+            const octaveAmp = t`amplitude * pow(persistence, ${n})`;
+            const octaveFreq = t`frequency * pow(lacunarity, ${n})`;
+            const timeOffset = t`time * phase * (${n} + 1)`;
+            return t`${octaveAmp} * sin(xPos * ${octaveFreq} + ${timeOffset}) * sin(zPos * ${octaveFreq} + ${timeOffset})`;
+          },
+        },
+      },
+    });
+
+    // fBm noise: sum the octaves, gating the higher ones by the octaves global
+    const yPos = t`octave(1) + sum(i, 2, ${MAX_OCTAVES}, step(i, octaves) * octave(i))`;
+
+    const shade = d`0.5 + 0.5 * sin(${yPos} + 0.5)`;
+    const colors = createDynoTag({ functions: paletteFunctions() });
+
+    const shape = dynoConst("vec3", [1, 1.5, 1]);
+
+    return {
+      position: d`vec3(${xPos}, ${yPos}, ${zPos})`,
+      rgb: colors`palette(${shade}, ${globals.palette})`,
+      opacity: globals.opacity,
+      scales: d`${shape} * ${globals.anisoScale} * ${globals.scale}`,
+      quaternion: dynoConst("vec4", [
+        Math.random() * 0.1,
+        Math.random() * 0.1,
+        Math.random() * 0.1,
+        1,
+      ]),
+    };
+  },
+
+  // Move on to the next palette every cycle beats
+  onAudio(globals, { beat }) {
+    const every = globals.cycle.value;
+    if (every > 0) {
+      globals.palette.value = paletteCycle(beat, every) % palettes.names.length;
+    }
+  },
+
+  // Each uniform follows its own tenth of the spectrum, clamped to its range
+  modulation: {
+    routes: [
+      tenth(0, "scale", 0.5),
+      tenth(1, "frequency", 0.25),
+      tenth(2, "amplitude", 1.8),
+      tenth(8, "persistence", 0.75),
+    ],
+  },
+});
@@ -1,13 +1,19 @@
 //--
 // Utility function to generate a shader for the sparkjs library
-// 
+//
 // This is a wrapper around the sparkjs library that allows for easy
 // generation of shaders for the sparkjs library.
 //--
-import { SplatGenerator, SplatTransformer, dyno } from "@sparkjsdev/spark";
+import {
+  PackedSplats,
+  SplatGenerator,
+  SplatTransformer,
+  dyno,
+} from "@sparkjsdev/spark";
+import type { DynoValue } from "./dynoexp.ts";
+import { UniformRegistry } from "./uniforms.ts";
 
 const {
-  combine,
   combineGsplat,
   defineGsplat,
   dynoBlock,
@@ -17,55 +23,154 @@ const {
   Gsplat
 } = dyno;
 
-export const DEFAULT_SHADER: Record<string, never> = {};
+// A splat field of GLSL type T. Values built with d are untyped, so their
+// types are checked when the generator is built.
+export type SplatField<T extends dyno.DynoType> = dyno.DynoVal<T> | DynoValue;
 
-export function shaderBox({
-  infunc,
-  numSplats,
-  globals,
-  onFrame,
-}: {
-  infunc: (
-    index: number,
-    dynoTime: ReturnType<typeof dynoFloat>,
-    globals: Record<string, unknown>,
-  ) => {
-    position: ReturnType<typeof combine>;
-    scales: ReturnType<typeof dynoConst>;
-    quaternion: ReturnType<typeof dynoConst>;
-    rgb: ReturnType<typeof dynoConst>;
-    opacity: ReturnType<typeof dynoConst>;
-  };
+// What an infunc returns for each splat. Any field can be left out to use
+// its value from DEFAULT_SHADER.
+export interface ShaderBoxSplat {
+  position?: SplatField<"vec3">;
+  scales?: SplatField<"vec3">;
+  quaternion?: SplatField<"vec4">;
+  rgb?: SplatField<"vec3">;
+  opacity?: SplatField<"float">;
+}
+
+// Splat field defaults: at the origin, a small uniform scale, no rotation
+// (unit quaternion), white and fully opaque
+export const DEFAULT_SHADER = {
+  position: [0, 0, 0],
+  scales: [0.05, 0.05, 0.05],
+  quaternion: [0, 0, 0, 1],
+  rgb: [1, 1, 1],
+  opacity: 1,
+} as const;
+
+const SPLAT_TYPES = {
+  position: "vec3",
+  scales: "vec3",
+  quaternion: "vec4",
+  rgb: "vec3",
+  opacity: "float",
+} as const;
+
+// Called before each frame with the globals bag as `this`
+export interface ShaderBoxFrame {
+  updateFrame?(time: number): void;
+}
+
+// The globals bag, or a uniform registry whose uniforms are the globals
+export type ShaderBoxGlobals<G extends object> =
+  | (G & ShaderBoxFrame & ThisType<G>)
+  | (UniformRegistry & { uniforms: G });
+
+export type ShaderBoxInfunc<G extends object = Record<string, unknown>> = (
+  index: dyno.DynoVal<"int">,
+  dynoTime: ReturnType<typeof dynoFloat>,
+  globals: G,
+) => ShaderBoxSplat;
+
+// The infunc's fields, with defaults filled in and each type checked
+export function completeSplat(splat: ShaderBoxSplat) {
+  const fields = Object.keys(SPLAT_TYPES) as (keyof ShaderBoxSplat)[];
+  for (const key of Object.keys(splat)) {
+    if (!(key in SPLAT_TYPES)) {
+      throw new Error(
+        `shaderBox infunc returned unknown field "${key}", expected one of ${fields.join(", ")}`,
+      );
+    }
+  }
+  return Object.fromEntries(
+    fields.map((key) => {
+      const type = SPLAT_TYPES[key];
+      const value = splat[key];
+      if (value === undefined) {
+        const fallback = DEFAULT_SHADER[key];
+        return [key, dynoConst(type, fallback as never)];
+      }
+      const actual = dyno.valType(value as dyno.DynoVal<dyno.DynoType>);
+      if (actual !== type) {
+        throw new Error(
+          `shaderBox infunc returned ${key} as ${actual}, expected ${type}`,
+        );
+      }
+      return [key, value];
+    }),
+  ) as { [K in keyof ShaderBoxSplat]-?: dyno.DynoVal<(typeof SPLAT_TYPES)[K]> };
+}
+
+export interface ShaderBoxOptions<G extends object> {
+  infunc: ShaderBoxInfunc<G>;
   numSplats?: number;
-  globals?: Record<string, unknown>;
+  globals?: ShaderBoxGlobals<G>;
   onFrame?: ({
     object,
     time,
     deltaTime,
   }: { object: SplatGenerator; time: number; deltaTime: number }) => void;
-}) {
+}
+
+// Free the programs Spark compiled for a generator. Spark caches one program
+// per generator in PackedSplats.generatorProgram, keyed by a wrapper block, so
+// they are found by the generator's update callback, which ends up in each
+// program's updaters.
+function freePrograms(update: () => void) {
+  for (const [key, program] of PackedSplats.generatorProgram) {
+    if (program.updaters.includes(update)) {
+      program.prepareMaterial().dispose();
+      PackedSplats.generatorProgram.delete(key);
+    }
+  }
+}
+
+// G is the globals bag: its names and dyno types are passed through to infunc,
+// and updateFrame sees them on `this`.
+//
+// Returns the SplatGenerator to add to the scene along with controls to pause
+// or scale the time passed to infunc, resize, swap in a new infunc and dispose
+// of it, all without removing it from the scene.
+export function shaderBox<G extends object = Record<string, unknown>>({
+  infunc,
+  numSplats,
+  globals,
+  onFrame,
+}: ShaderBoxOptions<G>) {
   const dynoTime = dynoFloat(0);
-  let dynoGlobals: Record<string, unknown>;
-  if (
+  let dynoGlobals: G & ShaderBoxFrame;
+  if (globals instanceof UniformRegistry) {
+    dynoGlobals = globals.uniforms;
+  } else if (
     typeof globals === "object" &&
     globals !== null &&
     !Array.isArray(globals)
   ) {
     dynoGlobals = globals;
   } else {
-    dynoGlobals = {};
+    dynoGlobals = {} as G;
   }
-  const splatFunc = infunc;
+  let splatFunc = infunc;
 
   console.log("dynoGlobals initialized:", dynoGlobals);
 
-  const shadergen = new SplatGenerator({
-    numSplats,
-    generator: dynoBlock(
+  // Time passed to infunc and updateFrame: the renderer's time, less any time
+  // spent paused and scaled by timeScale
+  let elapsed = 0;
+  let lastTime: number | undefined;
+  let paused = false;
+  let timeScale = 1;
+  let disposed = false;
+
+  function makeGenerator() {
+    const update = () => {};
+    const generator = dynoBlock(
       { index: "int" },
       { gsplat: Gsplat },
       ({ index }) => {
-        const splat = splatFunc(index, dynoTime, dynoGlobals);
+        if (!index) {
+          throw new Error("shaderBox generator needs an index");
+        }
+        const splat = completeSplat(splatFunc(index, dynoTime, dynoGlobals));
 
         let gsplat = combineGsplat({
           flags: dynoLiteral("uint", "GSPLAT_FLAG_ACTIVE"),
@@ -80,16 +185,29 @@ export function shaderBox({
         return { gsplat };
       },
       {
+        update,
         globals: () => [defineGsplat],
       },
-    ),
+    );
+    return { generator, update };
+  }
+
+  let current = makeGenerator();
+
+  const shadergen = new SplatGenerator({
+    numSplats,
+    generator: current.generator,
     construct: () => ({}),
     update: ({ object, time, deltaTime }) => {
-      dynoTime.value = time;
-
-      if (dynoGlobals.updateFrame) {
-        dynoGlobals.updateFrame(time);
+      if (lastTime === undefined) {
+        elapsed = time;
+      } else if (!paused) {
+        elapsed += (time - lastTime) * timeScale;
       }
+      lastTime = time;
+      dynoTime.value = elapsed;
+
+      dynoGlobals.updateFrame?.(elapsed);
       const _updated = transformer.update(shadergen);
 
       onFrame?.({ object, time, deltaTime });
@@ -98,8 +216,75 @@ export function shaderBox({
   });
 
   const transformer: SplatTransformer = new SplatTransformer();
+
+  function checkLive(action: string) {
+    if (disposed) {
+      throw new Error(`Cannot ${action} a disposed shaderBox`);
+    }
+  }
+
   return {
     shadergen,
+    // Time passed to infunc and updateFrame
+    get time() {
+      return elapsed;
+    },
+    get paused() {
+      return paused;
+    },
+    // Freeze the time passed to infunc; updateFrame and onFrame still run
+    pause() {
+      checkLive("pause");
+      paused = true;
+    },
+    resume() {
+      checkLive("resume");
+      paused = false;
+    },
+    get timeScale() {
+      return timeScale;
+    },
+    // Speed of the time passed to infunc: 1 is real time, 0.5 is half speed
+    // and negative values run it backwards
+    setTimeScale(scale: number) {
+      checkLive("set the time scale of");
+      if (!Number.isFinite(scale)) {
+        throw new Error(`Invalid time scale: ${scale}`);
+      }
+      timeScale = scale;
+    },
+    setNumSplats(count: number) {
+      checkLive("resize");
+      if (!Number.isInteger(count) || count < 0) {
+        throw new Error(`Invalid number of splats: ${count}`);
+      }
+      shadergen.numSplats = count;
+      shadergen.updateVersion();
+    },
+    // Build the splats with a new infunc from the next frame, keeping the
+    // globals, time and place in the scene
+    setInfunc(next: ShaderBoxInfunc<G>) {
+      checkLive("swap the infunc of");
+      const previous = current;
+      splatFunc = next;
+      current = makeGenerator();
+      shadergen.generator = current.generator;
+      shadergen.updateVersion();
+      freePrograms(previous.update);
+    },
+    // Remove it from the scene and free its compiled programs. It can't be
+    // used again afterwards.
+    dispose() {
+      if (disposed) {
+        return;
+      }
+      disposed = true;
+      // SplatGenerator is a THREE.Object3D, whose methods aren't typed here
+      (shadergen as unknown as { removeFromParent(): void }).removeFromParent();
+      shadergen.generator = undefined;
+      shadergen.frameUpdate = undefined;
+      freePrograms(current.update);
+    },
   };
 }
 
@@ -0,0 +1,172 @@
+//--
+// Crossfades between shaderBox visuals
+//
+// shaderMix holds several named infuncs in one shaderBox and blends from one
+// to another over a set time, so a show can move between visuals without
+// touching the scene.
+//--
+import { dyno } from "@sparkjsdev/spark";
+import { d } from "./dynoexp.ts";
+import {
+  type ShaderBoxInfunc,
+  type ShaderBoxOptions,
+  completeSplat,
+  shaderBox,
+} from "./shadergen.ts";
+
+const { dynoFloat } = dyno;
+
+// How a crossfade blends the two visuals:
+// - "morph" moves each splat from its place, size, rotation and color in one
+//   visual to those in the other
+// - "dissolve" switches splats over one at a time, in a random order
+export type CrossfadeMode = "morph" | "dissolve";
+
+export interface CrossfadeOptions {
+  // Length of the crossfade in seconds; 0 switches at the next frame
+  duration?: number;
+  mode?: CrossfadeMode;
+}
+
+// An infunc that blends from `from` to `to` as `fade` goes from 0 to 1
+export function blendInfuncs<G extends object>(
+  from: ShaderBoxInfunc<G>,
+  to: ShaderBoxInfunc<G>,
+  fade: ReturnType<typeof dynoFloat>,
+  mode: CrossfadeMode = "morph",
+): ShaderBoxInfunc<G> {
+  return (index, time, globals) => {
+    const a = completeSplat(from(index, time, globals));
+    const b = completeSplat(to(index, time, globals));
+    if (mode === "dissolve") {
+      // Offset from the hashes an infunc is likely to use on index itself
+      const switched = d`hashFloat(vec2(${index}, 0.5)) < ${fade}`;
+      return {
+        position: d`${switched} ? ${b.position} : ${a.position}`,
+        scales: d`${switched} ? ${b.scales} : ${a.scales}`,
+        quaternion: d`${switched} ? ${b.quaternion} : ${a.quaternion}`,
+        rgb: d`${switched} ? ${b.rgb} : ${a.rgb}`,
+        opacity: d`${switched} ? ${b.opacity} : ${a.opacity}`,
+      };
+    }
+    // Turn the shorter way round: q and -q are the same rotation
+    const toQuaternion = d`dot(${a.quaternion}, ${b.quaternion}) < 0.0 ? -${b.quaternion} : ${b.quaternion}`;
+    return {
+      position: d`mix(${a.position}, ${b.position}, ${fade})`,
+      scales: d`mix(${a.scales}, ${b.scales}, ${fade})`,
+      quaternion: d`normalize(mix(${a.quaternion}, ${toQuaternion}, ${fade}))`,
+      rgb: d`mix(${a.rgb}, ${b.rgb}, ${fade})`,
+      opacity: d`mix(${a.opacity}, ${b.opacity}, ${fade})`,
+    };
+  };
+}
+
+// A shaderBox showing one of several named visuals at a time, with timed
+// crossfades between them. Options other than visuals and initial are passed
+// to shaderBox; the globals are shared by all of the visuals.
+export function shaderMix<
+  Name extends string,
+  G extends object = Record<string, unknown>,
+>({
+  visuals,
+  initial,
+  numSplats,
+  globals,
+  onFrame,
+}: Omit<ShaderBoxOptions<G>, "infunc"> & {
+  visuals: Record<Name, ShaderBoxInfunc<G>>;
+  initial: NoInfer<Name>;
+}) {
+  function visual(name: Name) {
+    if (!Object.hasOwn(visuals, name)) {
+      throw new Error(
+        `Unknown visual "${name}", expected one of ${Object.keys(visuals).join(", ")}`,
+      );
+    }
+    return visuals[name];
+  }
+
+  const fade = dynoFloat(0);
+  let current = initial;
+  // The crossfade in progress: its target, length, start time (set at its
+  // first frame) and the callback that settles its promise
+  let transition:
+    | {
+        to: Name;
+        duration: number;
+        start?: number;
+        done: () => void;
+      }
+    | undefined;
+
+  function finish() {
+    if (transition) {
+      const { to, done } = transition;
+      transition = undefined;
+      current = to;
+      box.setInfunc(visual(to));
+      done();
+    }
+  }
+
+  const box = shaderBox<G>({
+    infunc: visual(initial),
+    numSplats,
+    globals,
+    onFrame: (frame) => {
+      if (transition) {
+        transition.start ??= frame.time;
+        const progress =
+          transition.duration > 0
+            ? (frame.time - transition.start) / transition.duration
+            : 1;
+        if (progress >= 1) {
+          finish();
+        } else {
+          // Ease in and out
+          fade.value = progress * progress * (3 - 2 * progress);
+        }
+      }
+      onFrame?.(frame);
+    },
+  });
+
+  return {
+    box,
+    shadergen: box.shadergen,
+    // The visual shown, or being faded to
+    get current() {
+      return transition?.to ?? current;
+    },
+    get fading() {
+      return transition !== undefined;
+    },
+    // Crossfade to another visual, resolving once it is fully shown. A
+    // crossfade still in progress jumps to its end first.
+    crossfade(
+      name: Name,
+      { duration = 2, mode = "morph" }: CrossfadeOptions = {},
+    ) {
+      const to = visual(name);
+      if (!(duration >= 0)) {
+        throw new Error(`Invalid crossfade duration: ${duration}`);
+      }
+      finish();
+      return new Promise<void>((done) => {
+        if (name === current) {
+          done();
+          return;
+        }
+        fade.value = 0;
+        transition = { to: name, duration, done };
+        box.setInfunc(blendInfuncs(visual(current), to, fade, mode));
+      });
+    },
+    dispose() {
+      const pending = transition;
+      transition = undefined;
+      box.dispose();
+      pending?.done();
+    },
+  };
+}
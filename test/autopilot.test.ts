@@ -0,0 +1,190 @@
+// Tests for the camera autopilot and its paths, run in Node: npm test
+import {
+  type CameraPath,
+  cameraPreset,
+  createAutopilot,
+  parseCameraPath,
+  sampleCameraPath,
+} from "../autopilot.ts";
+import type { BeatState } from "../audio/index.ts";
+import { expect, expectNear, expectThrows, test } from "./harness.ts";
+
+// Along the x axis, a unit a second, looking down it
+const LINE: CameraPath = {
+  keyframes: [0, 1, 2, 3].map((x) => ({
+    time: x,
+    position: [x, 0, 0],
+    target: [x + 1, 0, 0],
+  })),
+};
+
+const SQUARE: CameraPath = {
+  duration: 4,
+  keyframes: [
+    [1, 0, 0],
+    [0, 0, 1],
+    [-1, 0, 0],
+    [0, 0, -1],
+  ].map((position, time) => ({
+    time,
+    position: position as [number, number, number],
+    target: [0, 0, 0],
+  })),
+};
+
+const START = { position: [0, 10, 0], target: [0, 10, -1] } as {
+  position: [number, number, number];
+  target: [number, number, number];
+};
+
+function beat(beats: number, pulse = 0): BeatState {
+  return { bpm: 120, phase: 0, pulse, beats, bar: 0, beatInBar: 0 };
+}
+
+test("Paths pass through their keyframes and hold past the ends", () => {
+  expectNear(sampleCameraPath(LINE, 1).position, [1, 0, 0], "at a keyframe");
+  expectNear(sampleCameraPath(LINE, 1.5).position, [1.5, 0, 0], "in between");
+  expectNear(sampleCameraPath(LINE, 1.5).target, [2.5, 0, 0], "looking ahead");
+  expectNear(sampleCameraPath(LINE, -1).position, [0, 0, 0], "before");
+  expectNear(sampleCameraPath(LINE, 9).position, [3, 0, 0], "after");
+});
+
+test("Looping paths wrap round, joining the last keyframe to the first", () => {
+  expectNear(sampleCameraPath(SQUARE, 4).position, [1, 0, 0], "a cycle on");
+  expectNear(sampleCameraPath(SQUARE, -1).position, [0, 0, -1], "a cycle back");
+  const [x, , z] = sampleCameraPath(SQUARE, 3.5).position;
+  expect(
+    x > 0 && z < 0 && Math.hypot(x, z) > 0.6,
+    `Expected a curve from the last keyframe to the first, got ${x}, ${z}`,
+  );
+});
+
+test("Presets circle, close in on and fly past a point ahead", () => {
+  const pose = { position: [0, 2, 10], target: [0, 2, 9] } as typeof START;
+  const orbit = cameraPreset("orbit", pose, { distance: 10, duration: 8 });
+  for (const t of [0, 1, 2.5, 5]) {
+    const { position, target } = sampleCameraPath(orbit, t);
+    expectNear(target, [0, 2, 0], `orbit looks at the centre at ${t}s`);
+    expect(
+      Math.abs(Math.hypot(position[0], position[2]) - 10) < 0.2 &&
+        position[1] === 2,
+      `Expected the orbit on its circle at ${t}s, got ${position}`,
+    );
+  }
+  expectNear(sampleCameraPath(orbit, 0).position, [0, 2, 10], "from the pose");
+
+  const dolly = cameraPreset("dolly", pose, { duration: 8 });
+  expectNear(sampleCameraPath(dolly, 4).position, [0, 2, 3], "dollied in");
+  expectNear(sampleCameraPath(dolly, 8).position, [0, 2, 10], "and back out");
+
+  const flythrough = cameraPreset("flythrough", pose, {
+    beat: { cut: 2 },
+  });
+  expectNear(
+    sampleCameraPath(flythrough, 12).position,
+    [0, 2, -10],
+    "on the far side",
+  );
+  expect(flythrough.beat?.cut === 2, "Expected the beat setting kept");
+  expectThrows(
+    () => cameraPreset("crane" as never, pose),
+    'Unknown camera preset "crane", expected one of orbit, dolly, flythrough',
+  );
+});
+
+test("The autopilot blends onto its path and hands back on input", () => {
+  const autopilot = createAutopilot({ path: LINE, blend: 1, resumeAfter: 5 });
+  const frame = (time: number, deltaTime = 0.5) => ({ time, deltaTime });
+  expect(autopilot.update(frame(0), START) === undefined, "Expected it off");
+  autopilot.setEnabled(true);
+  const first = autopilot.update(frame(0), START)!;
+  expectNear(first.position, [0, 5, 0], "halfway from the camera");
+  expectNear(
+    autopilot.update(frame(1), START)!.position,
+    [1, 0, 0],
+    "on the path",
+  );
+  autopilot.userInput();
+  expect(!autopilot.flying, "Expected the user to have the camera");
+  for (let time = 1; time < 5.5; time += 0.5) {
+    expect(
+      autopilot.update(frame(time), START) === undefined,
+      `Expected the user to keep the camera at ${time}s`,
+    );
+  }
+  const resumed = autopilot.update(frame(2), START)!;
+  expect(autopilot.flying, "Expected the autopilot to take it back");
+  expectNear(resumed.position, [1, 5, 0], "blending back from the camera");
+  autopilot.setEnabled(false);
+  expect(autopilot.update(frame(3), START) === undefined, "Expected it off");
+});
+
+test("Paths cut to their next keyframe and surge on the beat", () => {
+  const cutting = createAutopilot({
+    path: { ...SQUARE, beat: { cut: 2 } },
+    blend: 0,
+  });
+  cutting.setEnabled(true);
+  const at = (time: number, beats: number) =>
+    cutting.update({ time, deltaTime: 0, beat: beat(beats) }, START)!.position;
+  expectNear(at(0.5, 0), sampleCameraPath(SQUARE, 0.5).position, "no cut");
+  expectNear(at(0.5, 1), sampleCameraPath(SQUARE, 0.5).position, "beat 1");
+  expectNear(at(0.5, 2), [0, 0, 1], "cut to the next keyframe");
+  expectNear(at(0.75, 2), sampleCameraPath(SQUARE, 1.25).position, "go on");
+
+  const surging = createAutopilot({
+    path: { ...LINE, beat: { surge: 2 } },
+    blend: 0,
+  });
+  surging.setEnabled(true);
+  const position = surging.update(
+    { time: 1, deltaTime: 0.25, beat: beat(1, 1) },
+    START,
+  )!.position;
+  expectNear(position, [1.5, 0, 0], "half a second ahead");
+});
+
+test("Paths round-trip as JSON and bad ones change nothing", () => {
+  const autopilot = createAutopilot();
+  expectThrows(
+    () => autopilot.setEnabled(true),
+    "The autopilot has no camera path to fly",
+  );
+  let changes = 0;
+  autopilot.onChange(() => changes++);
+  autopilot.load(SQUARE);
+  const other = createAutopilot();
+  other.importPath(autopilot.exportPath());
+  expect(
+    JSON.stringify(other.path) === JSON.stringify(SQUARE),
+    "Expected the path to round-trip",
+  );
+  const load = (path: unknown) => () => autopilot.load(path);
+  expectThrows(load({ keyframes: [] }), "Invalid camera path: no keyframes");
+  expectThrows(
+    load({ ...LINE, duration: 2 }),
+    "Invalid camera path: keyframe 2 at 2s is past the duration",
+  );
+  expectThrows(
+    load({ keyframes: [...LINE.keyframes].reverse() }),
+    "Invalid camera path: keyframe 1 at 2s is not after the one before",
+  );
+  expectThrows(
+    load({ keyframes: [{ time: 0, position: [0, 0] }] }),
+    "Invalid camera path: keyframe 0 needs an [x, y, z] position and target",
+  );
+  expectThrows(
+    load({ ...SQUARE, duration: "4" }),
+    "Invalid camera path: duration 4 is not a positive number of seconds",
+  );
+  expectThrows(
+    () => parseCameraPath({ ...LINE, beat: { surge: "2" } }),
+    "Invalid camera path: beat surge 2 is not a number, 0 or more",
+  );
+  expectThrows(
+    () => parseCameraPath({ ...LINE, beat: { cut: 1.5 } }),
+    "Invalid camera path: beat cut 1.5 is not a whole number of beats",
+  );
+  expect(changes === 1, `Expected 1 change, got ${changes}`);
+  expect(autopilot.path?.duration === 4, "Expected the path unchanged");
+});
@@ -0,0 +1,167 @@
+// Tests for the audio band analyser, run in Node: npm test
+import "./setup.ts";
+import { bandEdges, createBandAnalyser } from "../audio/index.ts";
+import { expect, expectNear, expectThrows, test } from "./harness.ts";
+
+function expectClose(actual: number, expected: number, message: string) {
+  expectNear(actual, expected, message, 1e-3);
+}
+
+const SAMPLE_RATE = 48000;
+const FFT_SIZE = 2048;
+
+// A spectrum in decibels, as from getFloatFrequencyData, of 1024 bins
+function spectrum(db: (frequency: number) => number) {
+  return Float32Array.from({ length: FFT_SIZE / 2 }, (_, bin) =>
+    db((bin * SAMPLE_RATE) / FFT_SIZE),
+  );
+}
+
+// Run an analyser over the same spectrum for some seconds at 60 fps
+function run(
+  analyser: ReturnType<typeof createBandAnalyser>,
+  decibels: Float32Array,
+  seconds: number,
+) {
+  for (let frame = 0; frame < seconds * 60; frame++) {
+    analyser.update(decibels, 1 / 60);
+  }
+  return [...analyser.levels];
+}
+
+test("Log bands double in width every octave", () => {
+  const edges = bandEdges(10, "log", 20, 20480);
+  expect(edges.length === 11, "Expected 11 edges");
+  edges.forEach((edge, i) => expectClose(edge, 20 * 2 ** i, `Edge ${i}`));
+});
+
+test("Mel bands are narrower at the bottom, but not as narrow as log", () => {
+  const mel = bandEdges(8, "mel", 30, 16000);
+  const log = bandEdges(8, "log", 30, 16000);
+  expectClose(mel[0], 30, "Lowest edge");
+  expectClose(mel[8], 16000, "Highest edge");
+  expect(mel[1] - mel[0] < mel[8] - mel[7], "Expected widening bands");
+  expect(mel[1] - mel[0] > log[1] - log[0], "Expected a wider bottom band");
+});
+
+test("Invalid band settings are rejected", () => {
+  expectThrows(() => bandEdges(0, "log", 30, 16000), "Invalid band count: 0");
+  expectThrows(
+    () => bandEdges(4, "mel", 300, 30),
+    "Invalid band frequency range: 300 to 30",
+  );
+  const analyser = createBandAnalyser({
+    sampleRate: SAMPLE_RATE,
+    fftSize: FFT_SIZE,
+  });
+  expectThrows(
+    () => analyser.update(new Float32Array(64), 0.1),
+    "Expected a spectrum of 1024 bins, got 64",
+  );
+});
+
+test("Auto gain gives the same levels at any volume", () => {
+  // Loud bass, falling off towards the treble, and a quiet copy of it
+  const shape = (frequency: number) => -30 - 2 * Math.log2(frequency / 30);
+  const options = { sampleRate: SAMPLE_RATE, fftSize: FFT_SIZE, count: 8 };
+  const loud = createBandAnalyser(options);
+  const quiet = createBandAnalyser(options);
+  const loudLevels = run(loud, spectrum(shape), 2);
+  const quietLevels = run(
+    quiet,
+    spectrum((f) => shape(f) - 20),
+    2,
+  );
+  loudLevels.forEach((level, i) => {
+    expectClose(level, quietLevels[i], `Band ${i}`);
+    expectClose(level, 1, `Band ${i} at its peak`);
+  });
+});
+
+test("Levels fall as the music gets quieter than its peak", () => {
+  const analyser = createBandAnalyser({
+    sampleRate: SAMPLE_RATE,
+    fftSize: FFT_SIZE,
+    count: 4,
+    peakDecay: 0,
+  });
+  run(
+    analyser,
+    spectrum(() => -40),
+    1,
+  );
+  const [level] = run(
+    analyser,
+    spectrum(() => -60),
+    2,
+  );
+  expectClose(level, 0.5, "20 dB down in a 40 dB range");
+});
+
+test("Silence reads as zero rather than being boosted", () => {
+  const analyser = createBandAnalyser({
+    sampleRate: SAMPLE_RATE,
+    fftSize: FFT_SIZE,
+  });
+  const levels = run(
+    analyser,
+    spectrum(() => -Infinity),
+    1,
+  );
+  expect(
+    levels.every((level) => level === 0),
+    `Expected silence, got ${levels}`,
+  );
+  const hiss = run(
+    analyser,
+    spectrum(() => -120),
+    1,
+  );
+  expect(
+    hiss.every((level) => level === 0),
+    `Expected hiss below the noise floor, got ${hiss}`,
+  );
+});
+
+test("Attack is faster than release", () => {
+  const analyser = createBandAnalyser({
+    sampleRate: SAMPLE_RATE,
+    fftSize: FFT_SIZE,
+    count: 1,
+    autoGain: false,
+    attack: 0.01,
+    release: 0.5,
+  });
+  // -30 dB is the top of the default range, -100 dB the bottom
+  const [rise] = run(
+    analyser,
+    spectrum(() => -30),
+    0.05,
+  );
+  expect(rise > 0.95, `Expected a fast rise, got ${rise}`);
+  const [fall] = run(
+    analyser,
+    spectrum(() => -100),
+    0.05,
+  );
+  expect(fall > 0.85, `Expected a slow fall, got ${fall}`);
+  analyser.reset();
+  expect(analyser.levels[0] === 0, "Expected reset to clear the levels");
+});
+
+test("Without auto gain, levels span the decibel range", () => {
+  const analyser = createBandAnalyser({
+    sampleRate: SAMPLE_RATE,
+    fftSize: FFT_SIZE,
+    count: 2,
+    autoGain: false,
+    attack: 0,
+    release: 0,
+  });
+  const levels = run(
+    analyser,
+    spectrum(() => -65),
+    0.1,
+  );
+  levels.forEach((level, i) => expectClose(level, 0.5, `Band ${i}`));
+});
@@ -0,0 +1,182 @@
+// Tests for onset and beat detection against synthetic click tracks, run in
+// Node: npm test
+import "./setup.ts";
+import {
+  type BeatEvent,
+  type OnsetEvent,
+  createBeatDetector,
+  createBeatPulse,
+  fft,
+  magnitudeSpectrum,
+} from "../audio/index.ts";
+import { expect, test } from "./harness.ts";
+
+const SAMPLE_RATE = 44100;
+const FRAME = 1024;
+const HOP = 512;
+
+// A track of short decaying tone bursts at the given times, over a little
+// background noise
+function clickTrack(clicks: number[], seconds: number) {
+  const samples = new Float32Array(Math.ceil(seconds * SAMPLE_RATE));
+  let seed = 1;
+  for (let i = 0; i < samples.length; i++) {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    samples[i] = (seed / 2147483648 - 0.5) * 0.002;
+  }
+  for (const time of clicks) {
+    const start = Math.round(time * SAMPLE_RATE);
+    for (let i = 0; i < 0.03 * SAMPLE_RATE; i++) {
+      const t = i / SAMPLE_RATE;
+      samples[start + i] +=
+        Math.sin(2 * Math.PI * 1000 * t) * Math.exp(-t / 0.008);
+    }
+  }
+  return samples;
+}
+
+function clicksAt(bpm: number, from: number, to: number) {
+  const clicks = [];
+  for (let time = from; time < to; time += 60 / bpm) {
+    clicks.push(time);
+  }
+  return clicks;
+}
+
+// Feed a track through a detector in overlapping frames, as an analyser
+// would, collecting the events
+function detect(samples: Float32Array, detector = createBeatDetector()) {
+  const onsets: OnsetEvent[] = [];
+  const beats: BeatEvent[] = [];
+  detector.onOnset((event) => onsets.push(event));
+  detector.onBeat((event) => beats.push(event));
+  for (let end = FRAME; end <= samples.length; end += HOP) {
+    detector.process(samples.subarray(end - FRAME, end), end / SAMPLE_RATE);
+  }
+  return { detector, onsets, beats };
+}
+
+// The distance from a time to the nearest of some others
+function nearest(time: number, times: number[]) {
+  return Math.min(...times.map((other) => Math.abs(other - time)));
+}
+
+test("FFT of a sine peaks in its bin", () => {
+  const sine = Float32Array.from({ length: 1024 }, (_, i) =>
+    Math.sin((2 * Math.PI * 32 * i) / 1024),
+  );
+  const spectrum = magnitudeSpectrum(sine);
+  const peak = spectrum.indexOf(Math.max(...spectrum));
+  expect(peak === 32, `Expected bin 32, got ${peak}`);
+  expect(Math.abs(spectrum[32] - 1) < 0.01, `Expected 1, got ${spectrum[32]}`);
+  try {
+    fft(new Float32Array(100), new Float32Array(100));
+  } catch (error) {
+    expect(
+      (error as Error).message === "FFT size must be a power of two, got 100",
+      `Unexpected error ${error}`,
+    );
+    return;
+  }
+  throw new Error("Expected an error");
+});
+
+test("Onsets are found at each click", () => {
+  const clicks = clicksAt(120, 0.5, 10);
+  const { onsets } = detect(clickTrack(clicks, 10.5));
+  expect(
+    onsets.length === clicks.length,
+    `Expected ${clicks.length} onsets, got ${onsets.length}`,
+  );
+  for (const { time } of onsets) {
+    const error = nearest(time, clicks);
+    expect(error < 0.03, `Onset at ${time} is ${error}s from a click`);
+  }
+});
+
+for (const bpm of [90, 120, 150]) {
+  test(`The tempo of a ${bpm} BPM click track`, () => {
+    const clicks = clicksAt(bpm, 0.5, 12);
+    const { detector, beats } = detect(clickTrack(clicks, 12));
+    expect(
+      Math.abs(detector.bpm! - bpm) < 1,
+      `Expected ${bpm} BPM, got ${detector.bpm}`,
+    );
+    expect(beats.length >= clicks.length - 6, `Only ${beats.length} beats`);
+    for (const { time } of beats.slice(1)) {
+      const error = nearest(time, clicks);
+      expect(error < 0.04, `Beat at ${time} is ${error}s from a click`);
+    }
+  });
+}
+
+test("Beats are counted in bars", () => {
+  const { detector, beats } = detect(
+    clickTrack(clicksAt(120, 0.5, 8), 8),
+    createBeatDetector({ beatsPerBar: 3 }),
+  );
+  beats.forEach((beat, i) => {
+    expect(beat.index === i, `Expected beat ${i}, got ${beat.index}`);
+    expect(
+      beat.bar === Math.floor(i / 3) && beat.beatInBar === i % 3,
+      `Beat ${i} is bar ${beat.bar}, beat ${beat.beatInBar}`,
+    );
+  });
+  const state = detector.state(8);
+  const last = beats.at(-1)!;
+  expect(
+    state.beats === beats.length &&
+      state.bar === last.bar &&
+      state.beatInBar === last.beatInBar,
+    "Expected the state to match the last beat",
+  );
+});
+
+test("Beats carry on through a short gap, then stop", () => {
+  const clicks = [...clicksAt(120, 0.5, 6), ...clicksAt(120, 8, 10)];
+  const { beats } = detect(clickTrack(clicks, 30));
+  const inGap = beats.filter(({ time }) => time > 6.2 && time < 7.8);
+  expect(
+    inGap.length === 3,
+    `Expected 3 beats in the gap, got ${inGap.length}`,
+  );
+  const late = beats.filter(({ time }) => time > 20);
+  expect(late.length === 0, `Expected no beats long after the clicks`);
+});
+
+test("Silence has no onsets or tempo", () => {
+  const { detector, onsets, beats } = detect(clickTrack([], 4));
+  expect(onsets.length === 0 && beats.length === 0, "Expected no events");
+  expect(detector.bpm === undefined, "Expected no tempo");
+  expect(detector.state(4).pulse === 0, "Expected no pulse");
+});
+
+test("The pulse peaks on a beat and decays", () => {
+  const { detector, beats } = detect(clickTrack(clicksAt(120, 0.5, 6), 6));
+  const { time } = beats.at(-1)!;
+  const pulse = createBeatPulse();
+  pulse.update(detector.state(time));
+  expect(pulse.uniform.value === 1, `Expected 1, got ${pulse.uniform.value}`);
+  pulse.update(detector.state(time + 0.25));
+  expect(
+    pulse.uniform.value < 0.2,
+    `Expected a decayed pulse, got ${pulse.uniform.value}`,
+  );
+  const phase = detector.state(time + 0.25).phase;
+  expect(Math.abs(phase - 0.5) < 0.1, `Expected half a beat, got ${phase}`);
+});
+
+test("Listeners can be removed, and reset forgets the tempo", () => {
+  const detector = createBeatDetector();
+  let heard = 0;
+  const remove = detector.onOnset(() => heard++);
+  remove();
+  detect(clickTrack(clicksAt(120, 0.5, 6), 6), detector);
+  expect(heard === 0, "Expected the removed listener not to be called");
+  expect(detector.bpm !== undefined, "Expected a tempo");
+  detector.reset();
+  expect(
+    detector.bpm === undefined && detector.beats === 0,
+    "Expected reset to forget the tempo",
+  );
+});
@@ -0,0 +1,111 @@
+// Snapshot tests for the GLSL and DOT dumps, run in Node: npm test
+import "./setup.ts";
+import { dyno } from "@sparkjsdev/spark";
+import { d } from "../dynoexp.ts";
+import { dumpDot, dumpGlsl } from "../dynodebug.ts";
+import { shaderBox } from "../shadergen.ts";
+import { test } from "./harness.ts";
+
+function expectText(actual: string, expected: string[]) {
+  const text = expected.join("\n");
+  if (actual !== text) {
+    throw new Error(`Expected:\n${text}\nGot:\n${actual}`);
+  }
+}
+
+// sin(time * 2) is used twice, so it is built once and shared
+function sharedWave() {
+  const time = dyno.dynoFloat(0.5);
+  const wave = d`sin(${time} * 2)`;
+  return d`${wave} * 3 + ${wave}`;
+}
+
+test("GLSL for a d expression", () => {
+  expectText(dumpGlsl(sharedWave()), [
+    "uniform float value_4;",
+    "",
+    "void generate(out float value) {",
+    "    // DynoFloat() => (value_4)",
+    "",
+    "    // Mul(value_4, 2.0) => (product_3)",
+    "    float product_3;",
+    "    {",
+    "        product_3 = value_4 * 2.0;",
+    "    }",
+    "",
+    "    // Sin(product_3) => (sin_2) [shared by 2]",
+    "    float sin_2;",
+    "    {",
+    "        sin_2 = sin(product_3);",
+    "    }",
+    "",
+    "    // Mul(sin_2, 3.0) => (product_1)",
+    "    float product_1;",
+    "    {",
+    "        product_1 = sin_2 * 3.0;",
+    "    }",
+    "",
+    "    // Add(product_1, sin_2) => (value)",
+    "    {",
+    "        value = product_1 + sin_2;",
+    "    }",
+    "}",
+    "",
+  ]);
+});
+
+test("DOT graph for a d expression", () => {
+  expectText(dumpDot(sharedWave()), [
+    "digraph dyno {",
+    "  rankdir=LR;",
+    '  node [shape=box, fontname="monospace"];',
+    '  n0 [label="Add\\nfloat"];',
+    '  n1 [label="Mul\\nfloat"];',
+    '  n2 [label="Sin\\nfloat\\nshared by 2", style=filled, fillcolor="#ffe08a"];',
+    '  n3 [label="Mul\\nfloat"];',
+    '  n4 [label="DynoFloat\\nfloat\\n= 0.5"];',
+    '  out_value [label="value: float", shape=doubleoctagon];',
+    '  n4 -> n3 [label="a"];',
+    '  l0 [label="2.0", shape=plaintext];',
+    '  l0 -> n3 [label="b"];',
+    '  n3 -> n2 [label="a"];',
+    '  n2 -> n1 [label="a"];',
+    '  l1 [label="3.0", shape=plaintext];',
+    '  l1 -> n1 [label="b"];',
+    '  n1 -> n0 [label="a"];',
+    '  n2 -> n0 [label="b"];',
+    '  n0 -> out_value [label="value"];',
+    "}",
+    "",
+  ]);
+});
+
+test("Dump a shaderBox generator", () => {
+  const box = shaderBox({
+    numSplats: 10,
+    infunc: (index, time) => {
+      const random = dyno.hashVec4(index);
+      return {
+        position: d`vec3(${random}.x, sin(${time}), ${random}.z)`,
+        scales: dyno.dynoConst("vec3", [1, 1, 1]),
+        quaternion: dyno.dynoConst("vec4", [0, 0, 0, 1]),
+        rgb: d`${random}.rgb`,
+        opacity: dyno.dynoConst("float", 1),
+      };
+    },
+  });
+  const glsl = dumpGlsl(box);
+  for (const line of [
+    "void generate(in int index, out Gsplat gsplat) {",
+    "    // HashVec4(index) => (hash_4) [shared by 2]",
+    "        gsplat_1.center = vector_2;",
+  ]) {
+    if (!glsl.includes(line)) {
+      throw new Error(`Missing "${line}" in:\n${glsl}`);
+    }
+  }
+  const dot = dumpDot(box);
+  if (!dot.includes('[label="HashVec4\\nvec4\\nshared by 2"')) {
+    throw new Error(`Expected a shared hash in:\n${dot}`);
+  }
+});
@@ -0,0 +1,8 @@
+// Runs the dynoexp suite in Node with no browser or GPU: npm test
+import "./setup.ts";
+import { runTests } from "../dynoexp.ts";
+
+const { failed } = runTests();
+if (failed > 0) {
+  process.exitCode = 1;
+}
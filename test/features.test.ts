@@ -0,0 +1,156 @@
+// Tests for the waveform, stereo and spectral-shape features, run in Node on
+// synthetic signals: npm test
+import "./setup.ts";
+import {
+  FEATURE_NAMES,
+  createFeatureExtractor,
+  createFeatureUniforms,
+  magnitudeSpectrum,
+} from "../audio/index.ts";
+import { expect, test } from "./harness.ts";
+
+const SAMPLE_RATE = 44100;
+const FFT_SIZE = 2048;
+
+function tone(frequency: number, amplitude = 0.5) {
+  return Float32Array.from(
+    { length: FFT_SIZE },
+    (_, i) => amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE),
+  );
+}
+
+// Repeatable white noise
+function noise(amplitude = 0.5) {
+  let seed = 1;
+  return Float32Array.from({ length: FFT_SIZE }, () => {
+    seed = (seed * 16807) % 2147483647;
+    return amplitude * (2 * (seed / 2147483647) - 1);
+  });
+}
+
+function decibels(samples: Float32Array) {
+  return magnitudeSpectrum(samples).map((m) => 20 * Math.log10(m));
+}
+
+// An extractor without smoothing, so each update shows that frame's features
+function extractor() {
+  return createFeatureExtractor({
+    sampleRate: SAMPLE_RATE,
+    fftSize: FFT_SIZE,
+    smoothing: 0,
+  });
+}
+
+function featuresOf(samples: Float32Array) {
+  return {
+    ...extractor().update(
+      { waveform: samples, decibels: decibels(samples) },
+      1 / 60,
+    ),
+  };
+}
+
+test("Loudness from the waveform", () => {
+  const { rms, peak } = featuresOf(tone(440));
+  expect(Math.abs(rms - 0.5 * Math.SQRT1_2) < 0.01, `Got RMS ${rms}`);
+  expect(Math.abs(peak - 0.5) < 0.01, `Got peak ${peak}`);
+  const silence = featuresOf(new Float32Array(FFT_SIZE));
+  expect(
+    FEATURE_NAMES.every((name) => silence[name] === 0),
+    `Expected silence to read 0, got ${JSON.stringify(silence)}`,
+  );
+});
+
+test("Stereo balance follows the louder channel", () => {
+  const waveform = tone(440);
+  const quiet = tone(440, 0.1);
+  const update = (left: Float32Array, right: Float32Array) => ({
+    ...extractor().update(
+      { waveform, decibels: decibels(waveform), left, right },
+      1 / 60,
+    ),
+  });
+  const panned = update(waveform, quiet);
+  expect(panned.left > panned.right, "Expected the left louder");
+  expect(
+    Math.abs(panned.balance + 4 / 6) < 0.01,
+    `Expected -2/3, got ${panned.balance}`,
+  );
+  expect(update(quiet, waveform).balance > 0.6, "Expected the right");
+  expect(featuresOf(waveform).balance === 0, "Expected mono in the centre");
+});
+
+test("A higher tone has a higher centroid", () => {
+  const low = featuresOf(tone(200)).centroid;
+  const high = featuresOf(tone(5000)).centroid;
+  expect(low > 0 && low < high && high < 1, `Got ${low} and ${high}`);
+  const middle = featuresOf(noise()).centroid;
+  expect(middle > high, `Expected noise brighter than 5 kHz, got ${middle}`);
+});
+
+test("Noise is flat and a tone is not", () => {
+  const tonal = featuresOf(tone(1000)).flatness;
+  const flat = featuresOf(noise()).flatness;
+  expect(tonal < 0.05, `Expected a tone near 0, got ${tonal}`);
+  expect(flat > 0.4 && flat <= 1, `Expected noise near 0.56, got ${flat}`);
+});
+
+test("Flux peaks when the sound comes in and settles while it holds", () => {
+  const features = extractor();
+  const frame = (samples: Float32Array) =>
+    features.update({ waveform: samples, decibels: decibels(samples) }, 1 / 60)
+      .flux;
+  const silence = new Float32Array(FFT_SIZE);
+  expect(frame(silence) === 0, "Expected no flux on the first frame");
+  expect(frame(silence) === 0, "Expected no flux in silence");
+  expect(frame(tone(1000)) === 1, "Expected the onset to set the peak");
+  expect(frame(tone(1000)) < 0.01, "Expected a held tone to settle");
+  features.reset();
+  expect(features.features.rms === 0, "Expected reset to silence");
+});
+
+test("Features are smoothed over time", () => {
+  const features = createFeatureExtractor({
+    sampleRate: SAMPLE_RATE,
+    fftSize: FFT_SIZE,
+    smoothing: 0.1,
+  });
+  const samples = tone(440);
+  const target = featuresOf(samples).rms;
+  const { rms } = features.update(
+    { waveform: samples, decibels: decibels(samples) },
+    0.1,
+  );
+  expect(
+    Math.abs(rms - target * (1 - Math.exp(-1))) < 1e-6,
+    `Expected 63% of the way, got ${rms / target}`,
+  );
+});
+
+test("The wrong spectrum size is rejected", () => {
+  try {
+    extractor().update(
+      { waveform: tone(440), decibels: new Float32Array(8) },
+      1 / 60,
+    );
+  } catch (error) {
+    expect(
+      (error as Error).message === "Expected a spectrum of 1024 bins, got 8",
+      `Unexpected error ${error}`,
+    );
+    return;
+  }
+  throw new Error("Expected an error");
+});
+
+test("Each feature is a named dyno uniform", () => {
+  const { uniforms, update } = createFeatureUniforms();
+  const features = featuresOf(tone(5000));
+  update(features);
+  for (const name of FEATURE_NAMES) {
+    expect(
+      uniforms[name].value === features[name],
+      `Expected ${name} to be ${features[name]}`,
+    );
+  }
+});
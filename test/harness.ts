@@ -0,0 +1,71 @@
+// The test() and expect() helpers the Node test files share: npm test
+//
+// Tests run one after another once the file has declared them all, so a test
+// may be async and the next starts when it is done. Any failure sets the exit
+// code.
+
+const queue: [string, () => Promise<void> | void][] = [];
+
+export function test(name: string, fn: () => Promise<void> | void) {
+  if (queue.length === 0) {
+    setTimeout(runTests);
+  }
+  queue.push([name, fn]);
+}
+
+async function runTests() {
+  for (const [name, fn] of queue) {
+    try {
+      await fn();
+      console.log(`✅ PASS: ${name}`);
+    } catch (error) {
+      console.log(`❌ FAIL: ${name}`);
+      console.log(error);
+      process.exitCode = 1;
+    }
+  }
+}
+
+export function expect(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+// Compares as JSON, so arrays and plain objects match by value
+export function expectEqual(actual: unknown, expected: unknown) {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    throw new Error(
+      `Expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`,
+    );
+  }
+}
+
+// A number, or each of an array's, within `tolerance` of the expected one
+export function expectNear(
+  actual: number | number[],
+  expected: number | number[],
+  message: string,
+  tolerance = 1e-6,
+) {
+  const actuals = [actual].flat();
+  const expecteds = [expected].flat();
+  expect(
+    actuals.length === expecteds.length &&
+      actuals.every((value, i) => Math.abs(value - expecteds[i]) < tolerance),
+    `${message}: expected ${expected}, got ${actual}`,
+  );
+}
+
+export function expectThrows(fn: () => void, message: string) {
+  try {
+    fn();
+  } catch (error) {
+    expect(
+      error instanceof Error && error.message === message,
+      `Expected "${message}", got ${error}`,
+    );
+    return;
+  }
+  throw new Error(`Expected "${message}" to be thrown`);
+}
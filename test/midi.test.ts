@@ -0,0 +1,262 @@
+// Tests for the MIDI bindings, driven by a fake input, run in Node: npm test
+import "./setup.ts";
+import {
+  type MidiSource,
+  createMidiBindings,
+  parseMidiMapping,
+  parseMidiMessage,
+} from "../midi.ts";
+import { defineUniforms } from "../uniforms.ts";
+import { expect, expectEqual, expectThrows, test } from "./harness.ts";
+
+// Stands in for a MIDI input: send() plays a message to the listeners
+function fakeInput() {
+  const listeners = new Set<(data: ArrayLike<number>) => void>();
+  const source: MidiSource = {
+    onMessage(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+  return {
+    source,
+    listeners,
+    send(...data: number[]) {
+      for (const listener of listeners) {
+        listener(data);
+      }
+    },
+    cc(controller: number, value: number, channel = 0) {
+      this.send(0xb0 | channel, controller, value);
+    },
+    note(note: number, velocity: number, channel = 0) {
+      this.send(0x90 | channel, note, velocity);
+    },
+  };
+}
+
+function makeRegistry() {
+  return defineUniforms({
+    speed: { type: "float", default: 1, min: 0, max: 4 },
+    octaves: { type: "int", default: 4, min: 1, max: 8 },
+    color1: { type: "color", default: [0, 0, 0] },
+    mirror: { type: "bool", default: false },
+  });
+}
+
+test("Messages are decoded by type and channel", () => {
+  expectEqual(parseMidiMessage([0xb3, 7, 100]), {
+    type: "cc",
+    channel: 3,
+    controller: 7,
+    value: 100,
+  });
+  expectEqual(parseMidiMessage([0x90, 60, 64]), {
+    type: "noteon",
+    channel: 0,
+    note: 60,
+    velocity: 64,
+  });
+  expectEqual(parseMidiMessage([0x91, 60, 0]), {
+    type: "noteoff",
+    channel: 1,
+    note: 60,
+  });
+  expectEqual(parseMidiMessage([0x80, 60, 10]), {
+    type: "noteoff",
+    channel: 0,
+    note: 60,
+  });
+  expect(parseMidiMessage([0xe0, 0, 64]) === undefined, "Pitch bend ignored");
+  expect(parseMidiMessage([0xf8]) === undefined, "Clock ignored");
+});
+
+test("Controls are scaled onto their uniform's range", () => {
+  const input = fakeInput();
+  const registry = makeRegistry();
+  createMidiBindings(input.source, {
+    registry,
+    mapping: {
+      version: 1,
+      controls: [
+        { controller: 1, target: "speed" },
+        { controller: 2, target: "octaves" },
+        { controller: 3, target: "color1.g" },
+        { controller: 4, target: "mirror" },
+        { controller: 5, target: "speed", min: 1, max: 2 },
+      ],
+      notes: [],
+    },
+  });
+  input.cc(1, 127);
+  expect(registry.get("speed") === 4, "Expected speed at its maximum");
+  input.cc(2, 0);
+  expect(registry.get("octaves") === 1, "Expected octaves at its minimum");
+  input.cc(3, 127);
+  expectEqual(registry.get("color1"), [0, 1, 0]);
+  input.cc(4, 64);
+  expect(registry.get("mirror") === true, "Expected mirror on above 63");
+  input.cc(4, 63);
+  expect(registry.get("mirror") === false, "Expected mirror off below 64");
+  input.cc(5, 0);
+  expect(registry.get("speed") === 1, "Expected the binding's own minimum");
+});
+
+test("Bindings with a channel only hear that channel", () => {
+  const input = fakeInput();
+  const registry = makeRegistry();
+  createMidiBindings(input.source, {
+    registry,
+    mapping: {
+      version: 1,
+      controls: [{ channel: 2, controller: 1, target: "speed" }],
+      notes: [],
+    },
+  });
+  input.cc(1, 0, 1);
+  expect(registry.get("speed") === 1, "Expected channel 1 ignored");
+  input.cc(1, 0, 2);
+  expect(registry.get("speed") === 0, "Expected channel 2 heard");
+});
+
+test("Learning binds the next control moved, replacing old bindings", () => {
+  const input = fakeInput();
+  const registry = makeRegistry();
+  const midi = createMidiBindings(input.source, {
+    registry,
+    mapping: {
+      version: 1,
+      controls: [
+        { controller: 1, target: "speed" },
+        { controller: 9, target: "color1.r" },
+      ],
+      notes: [],
+    },
+  });
+  let changes = 0;
+  midi.onChange(() => changes++);
+  midi.learnControl("speed");
+  expectEqual(midi.learning, { target: "speed" });
+  input.cc(9, 0, 4);
+  expect(midi.learning === undefined, "Expected learning done");
+  expect(registry.get("speed") === 0, "Expected the control to drive speed");
+  expectEqual(midi.mapping.controls, [
+    { channel: 4, controller: 9, target: "speed" },
+  ]);
+  expectEqual(midi.controlsFor("speed"), midi.mapping.controls);
+  expect(changes === 2, `Expected 2 changes, got ${changes}`);
+  expectThrows(
+    () => midi.learnControl("color1.q"),
+    'MIDI target "color1.q" needs a component of color1, e.g. color1.x',
+  );
+  expectThrows(
+    () => midi.learnControl("mirror.x"),
+    'MIDI target "mirror.x" is a boolean, with no components',
+  );
+  expectThrows(
+    () => midi.learnControl("zoom"),
+    'MIDI target "zoom" is not one of speed, octaves, color1, mirror',
+  );
+  midi.learnControl("octaves");
+  midi.cancelLearn();
+  input.cc(2, 0);
+  expect(midi.controlsFor("octaves").length === 0, "Expected nothing learnt");
+});
+
+test("Notes fire actions with their velocity", () => {
+  const input = fakeInput();
+  const midi = createMidiBindings(input.source);
+  const actions: [string, number][] = [];
+  const remove = midi.onAction((action, velocity) =>
+    actions.push([action, velocity]),
+  );
+  midi.learnNote("scene:tunnel");
+  input.note(36, 100);
+  expect(actions.length === 0, "Expected the learnt note not to fire");
+  midi.learnNote("flash");
+  input.note(38, 127);
+  input.note(36, 127);
+  input.note(38, 0);
+  input.note(38, 127, 5);
+  expectEqual(actions, [["scene:tunnel", 1]]);
+  midi.learnNote("flash");
+  input.note(36, 1);
+  expectEqual(midi.mapping.notes, [{ channel: 0, note: 36, action: "flash" }]);
+  remove();
+  input.note(36, 127);
+  expect(actions.length === 1, "Expected the listener removed");
+});
+
+test("Targets the registry doesn't have are skipped", () => {
+  const input = fakeInput();
+  const registry = makeRegistry();
+  const midi = createMidiBindings(input.source, {
+    mapping: {
+      version: 1,
+      controls: [
+        { controller: 1, target: "warp" },
+        { controller: 1, target: "speed" },
+      ],
+      notes: [],
+    },
+  });
+  input.cc(1, 0);
+  midi.registry = registry;
+  input.cc(1, 0);
+  expect(registry.get("speed") === 0, "Expected speed driven");
+});
+
+test("Mappings round-trip as JSON and bad ones change nothing", () => {
+  const input = fakeInput();
+  const midi = createMidiBindings(input.source);
+  midi.learnControl("speed");
+  input.cc(7, 64);
+  midi.learnNote("flash");
+  input.note(40, 64);
+  const other = createMidiBindings(input.source);
+  other.importMapping(midi.exportMapping());
+  expectEqual(other.mapping, midi.mapping);
+  other.unbind("speed");
+  expectEqual(other.mapping.controls, []);
+  expectThrows(
+    () => other.load({ version: 2, controls: [], notes: [] }),
+    "Invalid MIDI mapping: unsupported version 2",
+  );
+  expectThrows(
+    () => other.load({ version: 1, controls: [] }),
+    "Invalid MIDI mapping: missing controls or notes",
+  );
+  expectThrows(
+    () =>
+      parseMidiMapping({
+        version: 1,
+        controls: [{ controller: 128, target: "speed" }],
+        notes: [],
+      }),
+    "Invalid MIDI mapping: control 0 has controller 128",
+  );
+  expectThrows(
+    () =>
+      parseMidiMapping({
+        version: 1,
+        controls: [],
+        notes: [{ channel: 16, note: 1, action: "flash" }],
+      }),
+    "Invalid MIDI mapping: note 0 has channel 16, expected 0 to 15",
+  );
+  expectThrows(
+    () => parseMidiMapping({ version: 1, controls: [], notes: [{ note: 1 }] }),
+    "Invalid MIDI mapping: note 0 has no action",
+  );
+  expect(other.mapping.notes.length === 1, "Expected the notes kept");
+});
+
+test("Disposing stops listening to the input", () => {
+  const input = fakeInput();
+  const midi = createMidiBindings(input.source);
+  expect(input.listeners.size === 1, "Expected a listener");
+  midi.dispose();
+  expect(input.listeners.size === 0, "Expected the listener removed");
+});
@@ -0,0 +1,293 @@
+// Tests for the modulation matrix and scene presets, run in Node: npm test
+import "./setup.ts";
+import { createSpectrumTexture } from "../audio/index.ts";
+import {
+  applyCurve,
+  createModulation,
+  loadScenePreset,
+  toScenePreset,
+} from "../modulation.ts";
+import type { AudioFrame } from "../scenes/index.ts";
+import { defineUniforms } from "../uniforms.ts";
+import { expect, expectNear, expectThrows, test } from "./harness.ts";
+
+function makeRegistry() {
+  return defineUniforms({
+    size: { type: "float", default: 1, min: 0, max: 2 },
+    glow: { type: "float", default: 0, min: 0, max: 1 },
+    tint: { type: "color", default: [0, 0, 0] },
+    mirror: { type: "bool", default: false },
+  });
+}
+
+const spectrum = createSpectrumTexture({ sampleRate: 1600, fftSize: 16 });
+
+// Four bands at 0, 0.25, 0.5 and 0.75, half a beat after a beat
+function frame(time: number): AudioFrame {
+  return {
+    frequencies: new Uint8Array(8),
+    spectrum: spectrum.texture,
+    bands: Float32Array.from([0, 0.25, 0.5, 0.75]),
+    beat: { bpm: 120, phase: 0.5, pulse: 0.2, beats: 4, bar: 1, beatInBar: 0 },
+    features: {
+      rms: 0.4,
+      peak: 0.9,
+      left: 0.3,
+      right: 0.5,
+      balance: 0.25,
+      centroid: 0.6,
+      flatness: 0.1,
+      flux: 0.3,
+    },
+    waveform: new Float32Array(8),
+    time,
+  };
+}
+
+test("Routes map their source through a range onto a destination", () => {
+  const registry = makeRegistry();
+  const { uniforms } = registry;
+  const modulation = createModulation(uniforms, {
+    routes: [
+      {
+        source: { type: "band", from: 0.5, to: 1 },
+        range: [1, 3],
+        destination: "size",
+      },
+      { source: { type: "feature", name: "rms" }, destination: "tint.g" },
+      {
+        source: { type: "beat", value: "phase" },
+        range: [1, 0],
+        destination: "tint.b",
+      },
+    ],
+  });
+  modulation.apply(frame(0));
+  expectNear(uniforms.size.value, 2.25, "size from the top bands");
+  expectNear(uniforms.tint.value.y, 0.4, "green from the RMS level");
+  expectNear(uniforms.tint.value.z, 0.5, "blue from the beat phase, inverted");
+  expect(uniforms.glow.value === 0, "Expected glow left alone");
+});
+
+test("Routes to one destination are summed", () => {
+  const { uniforms } = makeRegistry();
+  const modulation = createModulation(uniforms, {
+    routes: [
+      { source: { type: "beat" }, destination: "glow" },
+      {
+        source: { type: "lfo", rate: 0.5, shape: "saw" },
+        range: [0, 0.5],
+        destination: "glow",
+      },
+    ],
+  });
+  modulation.apply(frame(1.5));
+  expectNear(uniforms.glow.value, 0.2 + 0.375, "pulse plus the LFO");
+});
+
+test("LFO shapes", () => {
+  const { uniforms } = makeRegistry();
+  const at = (shape: string, time: number) => {
+    const modulation = createModulation(uniforms);
+    modulation.load({
+      routes: [
+        {
+          source: { type: "lfo", rate: 1, shape, phase: 0.25 },
+          destination: "glow",
+        },
+      ],
+    });
+    modulation.apply(frame(time));
+    return uniforms.glow.value;
+  };
+  expectNear(at("sine", 0.25), 1, "sine peaks half a cycle in");
+  expectNear(at("triangle", 0), 0.5, "triangle a quarter of a cycle in");
+  expectNear(at("saw", 2.5), 0.75, "saw");
+  expectNear(at("square", 0.5), 0, "square in its second half");
+});
+
+test("Curves map 0 to 1 onto 0 to 1", () => {
+  for (const curve of ["linear", "exp", "smoothstep"] as const) {
+    expectNear(applyCurve(curve, 0), 0, `${curve} at 0`);
+    expectNear(applyCurve(curve, 1), 1, `${curve} at 1`);
+    expectNear(applyCurve(curve, 2), 1, `${curve} clamped`);
+  }
+  expectNear(applyCurve("linear", 0.25), 0.25, "linear");
+  expect(applyCurve("exp", 0.5) < 0.2, "Expected exp to hold back");
+  expectNear(applyCurve("smoothstep", 0.25), 0.15625, "smoothstep");
+});
+
+test("Lagged routes follow their source over time", () => {
+  const { uniforms } = makeRegistry();
+  const modulation = createModulation(uniforms, {
+    routes: [
+      {
+        source: { type: "lfo", rate: 1, shape: "square" },
+        destination: "glow",
+        lag: 0.1,
+      },
+    ],
+  });
+  modulation.apply(frame(0));
+  expectNear(uniforms.glow.value, 1, "the first frame starts at its source");
+  modulation.apply(frame(0.6));
+  expectNear(uniforms.glow.value, Math.exp(-6), "moving towards 0");
+});
+
+test("Routes through a registry stay in range and ints stay whole", () => {
+  const registry = defineUniforms({
+    count: { type: "int", default: 2, min: 0, max: 4 },
+    steps: { type: "int", default: 0, min: 0, max: 10 },
+    tint: { type: "color", default: [0, 0, 0] },
+  });
+  const modulation = createModulation(registry, {
+    routes: [
+      {
+        source: { type: "band", from: 0.5, to: 1 },
+        range: [0, 10],
+        destination: "count",
+      },
+      {
+        source: { type: "feature", name: "rms" },
+        range: [0, 6],
+        destination: "steps",
+      },
+      {
+        source: { type: "feature", name: "rms" },
+        range: [0, 3],
+        destination: "tint.g",
+      },
+    ],
+  });
+  modulation.apply(frame(0));
+  expect(registry.get("count") === 4, "Expected count clamped to its max");
+  expect(registry.get("steps") === 2, "Expected 2.4 steps rounded to 2");
+  expectNear(registry.get("tint") as number[], [0, 1, 0], "green clamped");
+});
+
+test("Routes can be added, removed and saved as JSON", () => {
+  const { uniforms } = makeRegistry();
+  const modulation = createModulation(uniforms);
+  let changes = 0;
+  const remove = modulation.onChange(() => changes++);
+  modulation.addRoute({ source: { type: "beat" }, destination: "glow" });
+  modulation.addRoute({
+    source: { type: "band", from: 0, to: 1 },
+    curve: "exp",
+    destination: "size",
+  });
+  modulation.removeRoute(0);
+  const other = createModulation(uniforms);
+  other.importMatrix(modulation.exportMatrix());
+  expect(
+    JSON.stringify(other.matrix) === JSON.stringify(modulation.matrix) &&
+      other.matrix.routes[0].destination === "size",
+    "Expected the routes to round-trip",
+  );
+  remove();
+  modulation.removeRoute(0);
+  expect(changes === 3, `Expected 3 changes, got ${changes}`);
+  expectThrows(
+    () => modulation.removeRoute(0),
+    "No modulation route 0 in a matrix of 0 routes",
+  );
+});
+
+test("An invalid matrix changes nothing", () => {
+  const { uniforms } = makeRegistry();
+  const routes = [{ source: { type: "beat" }, destination: "glow" }];
+  const modulation = createModulation(uniforms, { routes } as never);
+  const load = (route: unknown) => () =>
+    modulation.load({ routes: [...routes, route] });
+  expectThrows(
+    () => modulation.load([]),
+    "A modulation matrix must be an object with a routes array",
+  );
+  expectThrows(
+    load({ source: { type: "midi" }, destination: "glow" }),
+    'Invalid modulation route 1: unknown source type "midi", expected band, feature, beat or lfo',
+  );
+  expectThrows(
+    load({
+      source: { type: "feature", name: "loudness" },
+      destination: "glow",
+    }),
+    'Invalid modulation route 1: unknown feature "loudness", expected one of rms, peak, left, right, balance, centroid, flatness, flux',
+  );
+  expectThrows(
+    load({ source: { type: "beat" }, curve: "log", destination: "glow" }),
+    'Invalid modulation route 1: unknown curve "log", expected one of linear, exp, smoothstep',
+  );
+  expectThrows(
+    load({ source: { type: "beat" }, range: [0], destination: "glow" }),
+    "Invalid modulation route 1: range must be two numbers",
+  );
+  for (const lag of [-1, true, null, [], "5"]) {
+    expectThrows(
+      load({ source: { type: "beat" }, destination: "glow", lag }),
+      "Invalid modulation route 1: lag must be a number of seconds, 0 or more",
+    );
+  }
+  expectThrows(
+    load({ source: { type: "beat" }, destination: "speed" }),
+    'Modulation destination "speed" is not one of size, glow, tint, mirror',
+  );
+  expectThrows(
+    load({ source: { type: "beat" }, destination: "tint" }),
+    'Modulation destination "tint" needs a component of tint, e.g. tint.x',
+  );
+  expectThrows(
+    load({ source: { type: "beat" }, destination: "size.x" }),
+    'Modulation destination "size.x" is a number, with no components',
+  );
+  expectThrows(
+    load({ source: { type: "beat" }, destination: "mirror" }),
+    'Modulation destination "mirror" is not a number',
+  );
+  expect(
+    JSON.stringify(modulation.matrix.routes) === JSON.stringify(routes),
+    "Expected the routes unchanged",
+  );
+});
+
+test("Scene presets carry the uniforms and the routes", () => {
+  const registry = makeRegistry();
+  const modulation = createModulation(registry.uniforms, {
+    routes: [{ source: { type: "beat" }, destination: "glow" }],
+  });
+  registry.set("size", 1.5);
+  const preset = JSON.parse(
+    JSON.stringify(toScenePreset(registry, modulation)),
+  );
+
+  const other = makeRegistry();
+  const otherModulation = createModulation(other.uniforms);
+  loadScenePreset(preset, other, otherModulation);
+  expect(other.get("size") === 1.5, "Expected the uniforms loaded");
+  expect(
+    otherModulation.matrix.routes[0]?.destination === "glow",
+    "Expected the routes loaded",
+  );
+
+  // A uniform preset from before scene presets
+  loadScenePreset({ size: 0.5 }, other, otherModulation);
+  expect(other.get("size") === 0.5, "Expected a plain preset loaded");
+  expect(
+    otherModulation.matrix.routes.length === 1,
+    "Expected the routes kept",
+  );
+
+  expectThrows(
+    () =>
+      loadScenePreset(
+        { uniforms: { size: 2, mirror: 1 }, modulation: { routes: [] } },
+        other,
+        otherModulation,
+      ),
+    'Uniform "mirror" expects a boolean',
+  );
+  expect(
+    other.get("size") === 0.5 && otherModulation.matrix.routes.length === 1,
+    "Expected a bad preset to change nothing",
+  );
+});
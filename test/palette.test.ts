@@ -0,0 +1,173 @@
+// Tests for color palettes and the d function that samples them, run in Node:
+// npm test
+import "./setup.ts";
+import { dyno } from "@sparkjsdev/spark";
+import { createDynoTag } from "../dynoexp.ts";
+import { dumpGlsl } from "../dynodebug.ts";
+import {
+  BUNDLED_PALETTES,
+  type Palette,
+  createPalettes,
+  paletteCycle,
+  paletteFunctions,
+  parsePalettes,
+  samplePalette,
+} from "../palette.ts";
+import { expect, expectNear, expectThrows, test } from "./harness.ts";
+
+const GRADIENT: Palette = {
+  name: "gradient",
+  type: "stops",
+  stops: [
+    { at: 0.25, color: [1, 0, 0] },
+    { at: 0.75, color: [0, 0, 1] },
+  ],
+};
+
+test("Stops blend between their colors and hold past the ends", () => {
+  expectNear(samplePalette(GRADIENT, 0), [1, 0, 0], "before the first stop");
+  expectNear(samplePalette(GRADIENT, 0.5), [0.5, 0, 0.5], "halfway");
+  expectNear(samplePalette(GRADIENT, 1), [0, 0, 1], "after the last stop");
+  expectNear(samplePalette(GRADIENT, 2), [0, 0, 1], "t clamped");
+});
+
+test("Cosine palettes and HSV ramps", () => {
+  const cosine: Palette = {
+    name: "cosine",
+    type: "cosine",
+    a: [0.5, 0.5, 0.5],
+    b: [0.5, 0.5, 0.5],
+    c: [1, 1, 1],
+    d: [0, 0.5, 0.25],
+  };
+  expectNear(samplePalette(cosine, 0), [1, 0, 0.5], "cosine at 0");
+  expectNear(samplePalette(cosine, 0.5), [0, 1, 0.5], "cosine at 0.5");
+  const hsv: Palette = {
+    name: "hsv",
+    type: "hsv",
+    from: [0, 1, 1],
+    to: [1, 1, 1],
+  };
+  expectNear(samplePalette(hsv, 0), [1, 0, 0], "red");
+  expectNear(samplePalette(hsv, 1 / 3), [0, 1, 0], "green");
+  expectNear(samplePalette(hsv, 2 / 3), [0, 0, 1], "blue");
+  expectNear(samplePalette(hsv, 1), [1, 0, 0], "round to red again");
+});
+
+test("Palettes are baked into a row each", () => {
+  const set = createPalettes([GRADIENT, BUNDLED_PALETTES[0]], { size: 5 });
+  const { data, width, height } = set.texture.image;
+  expect(width === 5 && height === 2, `Got ${width}x${height}`);
+  expect(
+    [...data.subarray(0, 8)].join() === "255,0,0,255,255,0,0,255",
+    `Got ${data.subarray(0, 8)}`,
+  );
+  expect(
+    [...data.subarray(8, 12)].join() === "128,0,128,255",
+    `Expected the middle purple, got ${data.subarray(8, 12)}`,
+  );
+  expect(set.indexOf(BUNDLED_PALETTES[0].name) === 1, "Expected row 1");
+  expectThrows(
+    () => set.indexOf("sepia"),
+    `Unknown palette "sepia", expected one of gradient, ${BUNDLED_PALETTES[0].name}`,
+  );
+});
+
+test("Palettes round-trip as JSON and bad files change nothing", () => {
+  const set = createPalettes();
+  let changes = 0;
+  set.onChange(() => changes++);
+  const other = createPalettes([GRADIENT]);
+  other.importPalettes(set.exportPalettes());
+  expect(
+    JSON.stringify(other.palettes) === JSON.stringify(BUNDLED_PALETTES),
+    "Expected the bundled palettes to round-trip",
+  );
+  expect(
+    other.texture.image.height === BUNDLED_PALETTES.length,
+    "Expected the texture to grow",
+  );
+  const load = (palette: unknown) => () =>
+    set.load({ palettes: [GRADIENT, palette] });
+  expectThrows(
+    () => set.load({ palettes: [] }),
+    "A palette file needs at least one palette",
+  );
+  expectThrows(
+    () => set.load([GRADIENT]),
+    "A palette file must be an object with a palettes array",
+  );
+  expectThrows(load({ type: "stops" }), "Invalid palette 1: missing name");
+  expectThrows(
+    load(GRADIENT),
+    'Invalid palette "gradient": the name is already used',
+  );
+  expectThrows(
+    load({ name: "lut", type: "image" }),
+    'Invalid palette "lut": unknown type "image", expected stops, cosine or hsv',
+  );
+  expectThrows(
+    load({
+      name: "backwards",
+      type: "stops",
+      stops: [
+        { at: 1, color: [0, 0, 0] },
+        { at: 0, color: [1, 1, 1] },
+      ],
+    }),
+    'Invalid palette "backwards": stop 1 is at 0, before the stop ahead of it',
+  );
+  expectThrows(
+    load({
+      name: "flat",
+      type: "cosine",
+      a: [0, 0, 0],
+      b: [0, 0],
+      c: [],
+      d: [],
+    }),
+    'Invalid palette "flat": b must be three numbers',
+  );
+  expectThrows(
+    () => parsePalettes({ palettes: [{ name: "hsv", type: "hsv" }] }),
+    'Invalid palette "hsv": from and to must be three numbers, hue, saturation and value',
+  );
+  expect(changes === 0, `Expected no changes, got ${changes}`);
+  expect(
+    set.names.join() === BUNDLED_PALETTES.map(({ name }) => name).join(),
+    "Expected the palettes unchanged",
+  );
+});
+
+test("Cycling holds each palette and blends into the next", () => {
+  const beat = (beats: number, phase = 0) => ({
+    bpm: 120,
+    phase,
+    pulse: 0,
+    beats,
+    bar: 0,
+    beatInBar: 0,
+  });
+  expect(paletteCycle(beat(0)) === 0, "Expected the first palette");
+  expect(paletteCycle(beat(2, 0.5)) === 0, "Expected it held");
+  expect(paletteCycle(beat(3, 0.5)) === 0.5, "Expected halfway into the next");
+  expect(paletteCycle(beat(4)) === 1, "Expected the second palette");
+  expect(paletteCycle(beat(9), 2, 0) === 4, "Expected a cut every two beats");
+});
+
+test("palette samples the texture from d", () => {
+  const t = createDynoTag({
+    vars: { shade: dyno.dynoFloat(0.5), position: dyno.dynoFloat(1.5) },
+    functions: paletteFunctions(createPalettes().texture),
+  });
+  const glsl = dumpGlsl(t`palette(shade, position) * 2.0`);
+  expect(
+    /uniform sampler2D palettes/.test(glsl),
+    `Expected the palettes sampler:\n${glsl}`,
+  );
+  expect(
+    glsl.includes("textureSize(") && glsl.includes("texture("),
+    `Expected the rows found from the texture's size:\n${glsl}`,
+  );
+  expect(glsl.includes(".rgb"), `Expected a color:\n${glsl}`);
+});
@@ -0,0 +1,189 @@
+// Tests for the bundled scenes and the scene selector, run in Node: npm test
+import "./setup.ts";
+import * as THREE from "three";
+import { createSpectrumTexture } from "../audio/index.ts";
+import { d } from "../dynoexp.ts";
+import { dumpGlsl } from "../dynodebug.ts";
+import { palettes } from "../palette.ts";
+import {
+  SCENES,
+  band,
+  bandLevel,
+  createSceneSelector,
+  defineScene,
+} from "../scenes/index.ts";
+import type { UniformRegistry } from "../uniforms.ts";
+import { expect, test } from "./harness.ts";
+
+// A rising spectrum of 64 bins, as from an analyser with fftSize 128
+const frequencies = Uint8Array.from({ length: 64 }, (_, bin) => bin * 4);
+// The same as a spectrum texture
+const spectrum = createSpectrumTexture({ sampleRate: 44100, fftSize: 128 });
+spectrum.update(frequencies);
+// And eight bands, rising from 0 to 0.875
+const bands = Float32Array.from({ length: 8 }, (_, i) => i / 8);
+// Just after a beat at 120 BPM
+const beat = {
+  bpm: 120,
+  phase: 0.1,
+  pulse: 0.7,
+  beats: 9,
+  bar: 2,
+  beatInBar: 0,
+};
+// A bright sound, panned a little to the right
+const features = {
+  rms: 0.3,
+  peak: 0.8,
+  left: 0.25,
+  right: 0.35,
+  balance: 1 / 6,
+  centroid: 0.7,
+  flatness: 0.2,
+  flux: 0.5,
+};
+const waveform = Float32Array.from({ length: 128 }, (_, i) => Math.sin(i / 4));
+
+for (const scene of SCENES) {
+  test(`Scene "${scene.name}" builds and follows the audio`, () => {
+    const group = new THREE.Group();
+    const selector = createSceneSelector({
+      scenes: SCENES,
+      parent: group,
+      initial: scene.name,
+    });
+    expect(group.children.length === 1, "Expected the scene in the group");
+    expect(
+      dumpGlsl(selector.box).includes("void generate("),
+      "Expected the scene's GLSL",
+    );
+    selector.update({
+      frequencies,
+      spectrum: spectrum.texture,
+      bands,
+      beat,
+      features,
+      waveform,
+      time: 1,
+    });
+  });
+}
+
+test("Switch scenes", () => {
+  const group = new THREE.Group();
+  const camera = new THREE.PerspectiveCamera();
+  const changes: string[] = [];
+  const selector = createSceneSelector({
+    scenes: SCENES,
+    parent: group,
+    camera,
+    onChange: (scene) => changes.push(scene.name),
+  });
+  const first = selector.box?.shadergen;
+  selector.select("sphere");
+  selector.select("sphere");
+  expect(
+    group.children.length === 1 && group.children[0] !== first,
+    "Expected only the sphere in the group",
+  );
+  expect(changes.join() === "wave,sphere", `Got changes ${changes}`);
+  expect(
+    camera.position.equals(new THREE.Vector3(0, 2, 12)),
+    "Expected the camera at the sphere's pose",
+  );
+  selector.dispose();
+  expect(group.children.length === 0, "Expected the group to be empty");
+});
+
+test("Scenes read the audio uniforms the selector keeps", () => {
+  const flashing = defineScene({
+    name: "flashing",
+    label: "Flashing",
+    numSplats: 1,
+    camera: { position: [0, 0, 1], target: [0, 0, 0] },
+    globals: () => ({}),
+    infunc: (index, time, globals, { pulse, rms, centroid, flux }) => ({
+      rgb: d`vec3(${centroid}, ${flux}, 1.0)`,
+      opacity: d`${pulse} * 0.5 + ${rms}`,
+    }),
+  });
+  const selector = createSceneSelector({
+    scenes: [flashing],
+    parent: new THREE.Group(),
+  });
+  const glsl = dumpGlsl(selector.box);
+  for (const name of ["pulse", "rms", "centroid", "flux"]) {
+    expect(
+      new RegExp(`uniform float ${name}`).test(glsl),
+      `Expected the infunc to read ${name}:\n${glsl}`,
+    );
+  }
+  selector.update({
+    frequencies,
+    spectrum: spectrum.texture,
+    bands,
+    beat,
+    features,
+    waveform,
+    time: 1,
+  });
+  expect(selector.uniforms.pulse.value === 0.7, "Expected the beat's pulse");
+  expect(
+    selector.uniforms.centroid.value === 0.7 &&
+      selector.uniforms.rms.value === 0.3,
+    "Expected the features",
+  );
+});
+
+test("Palette globals follow the loaded palettes", () => {
+  const scene = (name: string) => SCENES.find((scene) => scene.name === name)!;
+  const bundled = palettes.palettes;
+  const registry = scene("wave").globals() as UniformRegistry;
+  try {
+    palettes.load({
+      palettes: bundled.filter(({ name }) => name !== "ember").slice(0, 2),
+    });
+    registry.set("palette", 5);
+    expect(
+      registry.get("palette") === 2,
+      "Expected the wave's palette clamped to the two loaded",
+    );
+    const { palette } = scene("spectrogram").globals() as {
+      palette: { value: number };
+    };
+    expect(palette.value === 0, "Expected the first palette without ember");
+  } finally {
+    palettes.load({ palettes: bundled });
+  }
+});
+
+test("Unknown scenes are rejected", () => {
+  const selector = createSceneSelector({
+    scenes: SCENES,
+    parent: new THREE.Group(),
+  });
+  try {
+    selector.select("lava");
+  } catch (error) {
+    expect(
+      (error as Error).message ===
+        'Unknown scene "lava", expected one of wave, bars, tunnel, sphere, spectrogram',
+      `Got ${error}`,
+    );
+    return;
+  }
+  throw new Error("Expected an error");
+});
+
+test("Band levels", () => {
+  expect(band(frequencies, 0, 2) === 2 / 255, "Expected the average of 0, 4");
+  expect(band(frequencies, 60, 100) === 246 / 255, "Expected 4 bins averaged");
+  expect(band(frequencies, 70, 80) === 0, "Expected 0 past the last bin");
+});
+
+test("Band levels by fraction of the band range", () => {
+  expect(bandLevel(bands, 0, 0.25) === 1 / 16, "Expected bands 0 and 1");
+  expect(bandLevel(bands, 0.9, 1) === 7 / 8, "Expected the top band");
+  expect(bandLevel(bands, 0.3, 0.31) === 2 / 8, "Expected a whole band");
+  expect(bandLevel(bands, 1, 1) === 0, "Expected 0 past the top band");
+});
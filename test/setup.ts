@@ -0,0 +1,4 @@
+// Spark reads browser globals while it loads (navigator.xr for its VR
+// button). Node 20 has no navigator, so provide an empty one.
+const globals = globalThis as { navigator?: object };
+globals.navigator ??= {};
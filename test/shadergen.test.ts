@@ -0,0 +1,170 @@
+// Tests for shaderBox field defaults and globals, run in Node: npm test
+import "./setup.ts";
+import * as THREE from "three";
+import { PackedSplats, dyno } from "@sparkjsdev/spark";
+import { d } from "../dynoexp.ts";
+import { dumpGlsl } from "../dynodebug.ts";
+import {
+  type SHADER_RESULT_TYPE,
+  type ShaderBoxSplat,
+  shaderBox,
+} from "../shadergen.ts";
+import { expectThrows, test } from "./harness.ts";
+
+function expectIncludes(text: string, lines: string[]) {
+  for (const line of lines) {
+    if (!text.includes(line)) {
+      throw new Error(`Missing "${line}" in:\n${text}`);
+    }
+  }
+}
+
+// Run one frame of a shaderBox at `time` seconds
+function frame(box: SHADER_RESULT_TYPE, time: number) {
+  box.shadergen.frameUpdate?.({
+    object: box.shadergen,
+    time,
+    deltaTime: 0,
+    viewToWorld: new THREE.Matrix4(),
+    globalEdits: [],
+  });
+}
+
+// Compile the box's generator into a program and cache it the way Spark does
+// when rendering, keyed by a wrapper block
+function compileProgram(box: SHADER_RESULT_TYPE) {
+  const program = new dyno.DynoProgram({
+    graph: box.shadergen.generator!,
+    inputs: { index: "index" },
+    outputs: { gsplat: "gsplat" },
+    template: new dyno.DynoProgramTemplate("{{ GLOBALS }}\n{{ STATEMENTS }}"),
+  });
+  const key = dyno.dynoBlock(
+    { index: "int" },
+    { gsplat: dyno.Gsplat },
+    () => ({}),
+  );
+  PackedSplats.generatorProgram.set(key, program);
+  return key;
+}
+
+function expectTime(box: SHADER_RESULT_TYPE, time: number) {
+  if (Math.abs(box.time - time) > 1e-9) {
+    throw new Error(`Expected time ${time}, got ${box.time}`);
+  }
+}
+
+// The GLSL for a shaderBox whose infunc returns `splat`
+function glslFor(splat: ShaderBoxSplat) {
+  return dumpGlsl(shaderBox({ infunc: () => splat }));
+}
+
+test("Missing fields use the defaults", () => {
+  const glsl = glslFor({ position: dyno.dynoConst("vec3", [1, 2, 3]) });
+  expectIncludes(glsl, [
+    "gsplat_1.center = vec3(1.0, 2.0, 3.0);",
+    "gsplat_1.scales = vec3(0.05, 0.05, 0.05);",
+    "gsplat_1.quaternion = vec4(0.0, 0.0, 0.0, 1.0);",
+    "gsplat_1.rgba.rgb = vec3(1.0, 1.0, 1.0);",
+    "gsplat_1.rgba.a = 1.0;",
+  ]);
+});
+
+test("An empty splat sits at the origin", () => {
+  expectIncludes(glslFor({}), ["gsplat_1.center = vec3(0.0, 0.0, 0.0);"]);
+});
+
+test("Fields of the wrong type are rejected", () => {
+  expectThrows(
+    () => glslFor({ rgb: d`1.0 + 2.0` }),
+    "shaderBox infunc returned rgb as float, expected vec3",
+  );
+});
+
+test("Unknown fields are rejected", () => {
+  expectThrows(
+    () => glslFor({ color: dyno.dynoConst("vec3", [1, 0, 0]) } as never),
+    'shaderBox infunc returned unknown field "color", expected one of position, scales, quaternion, rgb, opacity',
+  );
+});
+
+test("Globals reach infunc and updateFrame", () => {
+  const size = dyno.dynoFloat(1);
+  let seen: number | undefined;
+  const box = shaderBox({
+    globals: {
+      size,
+      updateFrame(time) {
+        this.size.value = time * 2;
+        seen = time;
+      },
+    },
+    infunc: (index, time, { size }) => ({
+      scales: d`vec3(${size})`,
+    }),
+  });
+  expectIncludes(dumpGlsl(box), ["uniform float value_"]);
+  frame(box, 1.5);
+  if (seen !== 1.5 || size.value !== 3) {
+    throw new Error(`updateFrame saw ${seen}, size is ${size.value}`);
+  }
+});
+
+test("Pause and time scale", () => {
+  const box = shaderBox({ infunc: () => ({}) });
+  frame(box, 10);
+  expectTime(box, 10);
+  box.pause();
+  frame(box, 12);
+  expectTime(box, 10);
+  box.resume();
+  box.setTimeScale(0.5);
+  frame(box, 14);
+  expectTime(box, 11);
+  box.setTimeScale(-1);
+  frame(box, 15);
+  expectTime(box, 10);
+  expectThrows(() => box.setTimeScale(NaN), "Invalid time scale: NaN");
+});
+
+test("Change the number of splats", () => {
+  const box = shaderBox({ infunc: () => ({}), numSplats: 10 });
+  const version = box.shadergen.version;
+  box.setNumSplats(500);
+  if (box.shadergen.numSplats !== 500 || box.shadergen.version === version) {
+    throw new Error(`Expected 500 splats and a new version`);
+  }
+  expectThrows(() => box.setNumSplats(-1), "Invalid number of splats: -1");
+});
+
+test("Swap the infunc", () => {
+  const box = shaderBox({ infunc: () => ({}) });
+  const key = compileProgram(box);
+  box.setInfunc(() => ({ opacity: dyno.dynoConst("float", 0.25) }));
+  expectIncludes(dumpGlsl(box), ["gsplat_1.rgba.a = 0.25;"]);
+  if (PackedSplats.generatorProgram.has(key)) {
+    throw new Error("The previous infunc's program was not freed");
+  }
+});
+
+test("Dispose", () => {
+  const box = shaderBox({ infunc: () => ({}) });
+  const group = new THREE.Group();
+  group.add(box.shadergen);
+  const key = compileProgram(box);
+  box.dispose();
+  if (group.children.length > 0 || PackedSplats.generatorProgram.has(key)) {
+    throw new Error("Expected the shaderBox to be removed and freed");
+  }
+  box.dispose();
+  expectThrows(
+    () => box.setInfunc(() => ({})),
+    "Cannot swap the infunc of a disposed shaderBox",
+  );
+  expectThrows(() => box.pause(), "Cannot pause a disposed shaderBox");
+  expectThrows(() => box.resume(), "Cannot resume a disposed shaderBox");
+  expectThrows(
+    () => box.setTimeScale(2),
+    "Cannot set the time scale of a disposed shaderBox",
+  );
+});
@@ -0,0 +1,97 @@
+// Tests for crossfades between shaderBox visuals, run in Node: npm test
+import "./setup.ts";
+import * as THREE from "three";
+import { dyno } from "@sparkjsdev/spark";
+import { d } from "../dynoexp.ts";
+import { dumpGlsl } from "../dynodebug.ts";
+import { shaderMix } from "../shadermix.ts";
+import { expect, expectThrows, test } from "./harness.ts";
+
+// A wave of splats and a still ring, sharing nothing but the index
+function showMix() {
+  return shaderMix({
+    visuals: {
+      wave: (index, time) => ({
+        position: d`vec3(${index}, sin(${time}), 0.0)`,
+      }),
+      ring: (index) => {
+        const angle = d`hashFloat(${index}) * 6.28`;
+        return {
+          position: d`vec3(cos(${angle}), 0.0, sin(${angle}))`,
+          rgb: dyno.dynoConst("vec3", [1, 0, 0]),
+        };
+      },
+    },
+    initial: "wave",
+    numSplats: 100,
+  });
+}
+
+// Run one frame of a shaderMix at `time` seconds
+function frame(mix: ReturnType<typeof showMix>, time: number) {
+  mix.shadergen.frameUpdate?.({
+    object: mix.shadergen,
+    time,
+    deltaTime: 0,
+    viewToWorld: new THREE.Matrix4(),
+    globalEdits: [],
+  });
+}
+
+test("Morph between two visuals", async () => {
+  const mix = showMix();
+  let done = false;
+  const faded = mix.crossfade("ring", { duration: 2 }).then(() => {
+    done = true;
+  });
+  expect(mix.current === "ring" && mix.fading, "Expected a crossfade to ring");
+  expect(dumpGlsl(mix).includes("// Mix("), "Expected the visuals to be mixed");
+  frame(mix, 10);
+  frame(mix, 11);
+  await Promise.resolve();
+  expect(!done && mix.fading, "Expected the crossfade to be halfway");
+  frame(mix, 12);
+  await faded;
+  expect(!mix.fading, "Expected the crossfade to be over");
+  const glsl = dumpGlsl(mix);
+  expect(!glsl.includes("// Mix("), `Expected only the ring in:\n${glsl}`);
+  expect(glsl.includes("cos("), `Expected the ring in:\n${glsl}`);
+});
+
+test("Dissolve between two visuals", async () => {
+  const mix = showMix();
+  const faded = mix.crossfade("ring", { mode: "dissolve", duration: 0 });
+  const glsl = dumpGlsl(mix);
+  expect(glsl.includes("// HashFloat("), `Expected a dissolve in:\n${glsl}`);
+  frame(mix, 0);
+  await faded;
+  expect(!mix.fading, "Expected a 0 second crossfade to end at once");
+});
+
+test("A new crossfade finishes the current one", async () => {
+  const mix = showMix();
+  const first = mix.crossfade("ring");
+  const second = mix.crossfade("wave");
+  await first;
+  expect(mix.current === "wave" && mix.fading, "Expected a fade back to wave");
+  mix.dispose();
+  await second;
+});
+
+test("Crossfading to the visual shown does nothing", async () => {
+  const mix = showMix();
+  await mix.crossfade("wave");
+  expect(!mix.fading, "Expected no crossfade");
+});
+
+test("Invalid crossfades", () => {
+  const mix = showMix();
+  expectThrows(
+    () => mix.crossfade("tunnel" as "ring"),
+    'Unknown visual "tunnel", expected one of wave, ring',
+  );
+  expectThrows(
+    () => mix.crossfade("ring", { duration: -1 }),
+    "Invalid crossfade duration: -1",
+  );
+});
@@ -0,0 +1,272 @@
+// Tests for switching audio sources and the playlist, run in Node against
+// stand-ins for the Web Audio nodes and the audio element: npm test
+import "./setup.ts";
+import {
+  type AudioSource,
+  createAudioInput,
+  createPlaylist,
+  mediaElementSource,
+  toTrack,
+} from "../audio/index.ts";
+import { expect, test } from "./harness.ts";
+
+// A node that records what it is connected to, and from which output
+class FakeNode {
+  outputs = new Set<unknown>();
+  channels = new Map<unknown, number>();
+  gain = { value: 1 };
+  fftSize = 2048;
+  smoothingTimeConstant = 0.8;
+  channelInterpretation = "discrete";
+  constructor(readonly name: string) {}
+  connect(node: unknown, output = 0) {
+    this.outputs.add(node);
+    this.channels.set(node, output);
+  }
+  disconnect(node?: unknown) {
+    if (node) {
+      this.outputs.delete(node);
+    } else {
+      this.outputs.clear();
+    }
+  }
+}
+
+function fakeContext() {
+  const context = {
+    destination: new FakeNode("destination"),
+    elementNodes: [] as FakeNode[],
+    createGain: () => new FakeNode("gain"),
+    createAnalyser: () => new FakeNode("analyser"),
+    createChannelSplitter: () => new FakeNode("splitter"),
+    createMediaElementSource: () => {
+      const node = new FakeNode("element");
+      context.elementNodes.push(node);
+      return node;
+    },
+    resume: async () => {},
+  };
+  return context;
+}
+
+function fakeElement() {
+  const listeners = new Map<string, () => void>();
+  return {
+    src: "",
+    currentTime: 0,
+    playing: false,
+    play: async function () {
+      this.playing = true;
+    },
+    pause() {
+      this.playing = false;
+    },
+    addEventListener: (type: string, listener: () => void) => {
+      listeners.set(type, listener);
+    },
+    removeEventListener: (type: string) => {
+      listeners.delete(type);
+    },
+    // Fire an event at the element's listener, if it has one
+    fire: (type: string) => listeners.get(type)?.(),
+  };
+}
+
+// A source with its own node, that can be made to fail to open
+function fakeSource(label: string, monitor: boolean, fail = false) {
+  const node = new FakeNode(label);
+  const source = {
+    label,
+    monitor,
+    node,
+    closed: 0,
+    async open() {
+      if (fail) {
+        throw new Error("Permission denied");
+      }
+      return node;
+    },
+    close() {
+      this.closed++;
+    },
+  };
+  return source as unknown as AudioSource & typeof source;
+}
+
+function setUp() {
+  const context = fakeContext();
+  const analyser = new FakeNode("analyser");
+  const input = createAudioInput(
+    context as unknown as AudioContext,
+    analyser as unknown as AnalyserNode,
+  );
+  // The gain between the analyser and the speakers
+  const [speakers] = analyser.outputs as Set<FakeNode>;
+  return { context, analyser, input, speakers };
+}
+
+test("Sources are switched in front of the analyser", async () => {
+  const { analyser, input, speakers } = setUp();
+  const track = fakeSource("track", true);
+  const mic = fakeSource("mic", false);
+  await input.use(track);
+  expect(track.node.outputs.has(analyser), "Expected the track analysed");
+  expect(speakers.gain.value === 1, "Expected the track to be heard");
+  await input.use(mic);
+  expect(
+    mic.node.outputs.has(analyser) && track.node.outputs.size === 0,
+    "Expected only the mic analysed",
+  );
+  expect(track.closed === 1, "Expected the track closed");
+  expect(speakers.gain.value === 0, "Expected the mic not to be echoed");
+  expect(input.source === mic, "Expected the mic in use");
+});
+
+test("A source that fails to open leaves the current one playing", async () => {
+  const { analyser, input } = setUp();
+  const track = fakeSource("track", true);
+  await input.use(track);
+  try {
+    await input.use(fakeSource("mic", false, true));
+    throw new Error("Expected the mic to fail");
+  } catch (error) {
+    expect((error as Error).message === "Permission denied", `${error}`);
+  }
+  expect(
+    input.source === track && track.node.outputs.has(analyser),
+    "Expected the track still analysed",
+  );
+  expect(track.closed === 0, "Expected the track left open");
+});
+
+test("Sources are split into left and right analysers", async () => {
+  const { analyser, input } = setUp();
+  const track = fakeSource("track", true);
+  await input.use(track);
+  const splitter = [...track.node.outputs].find(
+    (node) => node !== analyser,
+  ) as FakeNode;
+  expect(splitter?.name === "splitter", "Expected the track split");
+  expect(
+    splitter.channelInterpretation === "speakers",
+    "Expected mono sources to be heard on both channels",
+  );
+  const left = input.left as unknown as FakeNode;
+  const right = input.right as unknown as FakeNode;
+  expect(
+    splitter.channels.get(left) === 0 && splitter.channels.get(right) === 1,
+    "Expected the left and right channels analysed",
+  );
+  await input.use(fakeSource("mic", false));
+  expect(track.node.outputs.size === 0, "Expected the track unsplit");
+});
+
+test("Sources on one element share its node", async () => {
+  const { context, analyser, input } = setUp();
+  const element = fakeElement() as unknown as HTMLMediaElement;
+  const source = mediaElementSource(element);
+  const playlist = createPlaylist(element, ["music/first.mp3"]);
+  await input.use(source);
+  await input.use(playlist);
+  await input.use(source);
+  expect(context.elementNodes.length === 1, "Expected one element node");
+  expect(
+    context.elementNodes[0].outputs.has(analyser),
+    "Expected the element still analysed",
+  );
+});
+
+test("The playlist plays its tracks in order", async () => {
+  const { input } = setUp();
+  const element = fakeElement();
+  const playlist = createPlaylist(element as unknown as HTMLMediaElement, [
+    "music/first.mp3",
+    "music/second%20track.mp3",
+  ]);
+  const changes: string[] = [];
+  playlist.onTrackChange((track) => changes.push(track.label));
+  await input.use(playlist);
+  expect(element.src === "music/first.mp3", "Expected the first track");
+  element.fire("ended");
+  expect(element.src === "music/second%20track.mp3", "Expected the second");
+  expect(element.playing, "Expected it to play on");
+  element.fire("ended");
+  expect(playlist.index === 1, "Expected the playlist to stop at the end");
+  playlist.next();
+  expect(playlist.index === 0, "Expected next to wrap round");
+  playlist.previous();
+  expect(playlist.index === 1, "Expected previous to wrap round");
+  element.currentTime = 10;
+  playlist.previous();
+  expect(
+    playlist.index === 1 && element.currentTime === 0,
+    "Expected previous to restart a track well under way",
+  );
+  expect(
+    changes.join() === "second track.mp3,first.mp3,second track.mp3",
+    `Unexpected track changes ${changes}`,
+  );
+});
+
+test("Playlist tracks can be added, and only play while it is in use", async () => {
+  const { input } = setUp();
+  const element = fakeElement();
+  const playlist = createPlaylist(element as unknown as HTMLMediaElement);
+  expect(playlist.track === undefined, "Expected no track");
+  const first = playlist.add("a.mp3", "b.mp3");
+  playlist.select(first + 1);
+  expect(element.src === "", "Expected the element left alone");
+  await input.use(playlist);
+  expect(element.src === "b.mp3", "Expected the selected track loaded");
+  try {
+    playlist.select(2);
+  } catch (error) {
+    expect(
+      (error as Error).message === "No track 2 in a playlist of 2 tracks",
+      `Unexpected error ${error}`,
+    );
+    return;
+  }
+  throw new Error("Expected an error");
+});
+
+test("Removing tracks moves on and unloads dropped files", async () => {
+  const { input } = setUp();
+  const element = fakeElement();
+  const file = (name: string) => new File([""], name, { type: "audio/ogg" });
+  const playlist = createPlaylist(element as unknown as HTMLMediaElement, [
+    "a.mp3",
+    file("b.ogg"),
+    file("c.ogg"),
+  ]);
+  const revoked: string[] = [];
+  const revoke = URL.revokeObjectURL;
+  URL.revokeObjectURL = (url) => {
+    revoked.push(url);
+    revoke(url);
+  };
+  try {
+    const [, b, c] = playlist.tracks.map(({ url }) => url);
+    await input.use(playlist);
+    playlist.select(1);
+    playlist.remove(0);
+    expect(playlist.track?.label === "b.ogg", "Expected the track kept");
+    expect(revoked.length === 0, "Expected nothing revoked for a URL");
+    playlist.remove(0);
+    expect(
+      playlist.track?.label === "c.ogg" && element.src === c,
+      "Expected the next track loaded",
+    );
+    expect(revoked.join() === b, `Expected ${b} revoked, got ${revoked}`);
+    playlist.add(file("d.ogg"));
+    playlist.dispose();
+    expect(playlist.tracks.length === 0, "Expected the playlist emptied");
+    expect(revoked.length === 3, `Expected all revoked, got ${revoked}`);
+  } finally {
+    URL.revokeObjectURL = revoke;
+  }
+});
+
+test("Tracks are labelled by file name", () => {
+  expect(toTrack("a/b/c%20d.ogg").label === "c d.ogg", "Expected the name");
+});
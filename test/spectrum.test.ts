@@ -0,0 +1,107 @@
+// Tests for the spectrum texture and the d functions that sample it, run in
+// Node: npm test
+import "./setup.ts";
+import { dyno } from "@sparkjsdev/spark";
+import {
+  createSpectrumTexture,
+  spectrumFunctions,
+  spectrumUniform,
+} from "../audio/index.ts";
+import { createDynoTag } from "../dynoexp.ts";
+import { dumpGlsl } from "../dynodebug.ts";
+import { expect, test } from "./harness.ts";
+
+// 64 bins of 100 Hz each
+const OPTIONS = { sampleRate: 12800, fftSize: 128 };
+
+test("A linear spectrum averages the bins under each column", () => {
+  const spectrum = createSpectrumTexture({
+    ...OPTIONS,
+    size: 16,
+    history: 4,
+    scale: "linear",
+  });
+  const frequencies = Uint8Array.from({ length: 64 }, (_, bin) => bin * 4);
+  spectrum.update(frequencies);
+  // Column 0 covers bins 0 to 3
+  expect(spectrum.data[0] === 6, `Got ${spectrum.data[0]}`);
+  expect(spectrum.data[15] === 246, `Got ${spectrum.data[15]}`);
+});
+
+test("A log spectrum gives the low frequencies more columns", () => {
+  const spectrum = createSpectrumTexture({ ...OPTIONS, size: 32 });
+  // A peak in bin 2, at 200 Hz, and one in bin 50, at 5 kHz
+  const frequencies = new Uint8Array(64);
+  frequencies[2] = 255;
+  frequencies[50] = 255;
+  spectrum.update(frequencies);
+  const lit = [...spectrum.data].flatMap((level, i) => (level > 0 ? [i] : []));
+  const low = lit.filter((i) => i < 16).length;
+  const high = lit.filter((i) => i >= 16).length;
+  expect(low > high, `Expected more columns for 200 Hz, got ${lit}`);
+  expect(
+    [...spectrum.data].every((level) => level <= 255),
+    "Expected levels within a byte",
+  );
+});
+
+test("Older frames scroll back a row each update", () => {
+  const spectrum = createSpectrumTexture({
+    ...OPTIONS,
+    size: 4,
+    history: 3,
+    scale: "linear",
+  });
+  const rows = () => [...spectrum.texture.image.data].join();
+  spectrum.update(new Uint8Array(64).fill(10));
+  spectrum.update(new Uint8Array(64).fill(20));
+  expect(rows() === "20,20,20,20,10,10,10,10,0,0,0,0", `Got ${rows()}`);
+  spectrum.update(new Uint8Array(64).fill(30));
+  spectrum.update(new Uint8Array(64).fill(40));
+  expect(rows() === "40,40,40,40,30,30,30,30,20,20,20,20", `Got ${rows()}`);
+  spectrum.reset();
+  expect(rows() === "0,0,0,0,0,0,0,0,0,0,0,0", "Expected reset to clear it");
+});
+
+test("Bad sizes and spectra are rejected", () => {
+  const messages: string[] = [];
+  const attempt = (fn: () => void) => {
+    try {
+      fn();
+    } catch (error) {
+      messages.push((error as Error).message);
+    }
+  };
+  attempt(() => createSpectrumTexture({ ...OPTIONS, size: 0 }));
+  attempt(() => createSpectrumTexture({ ...OPTIONS, history: 1.5 }));
+  attempt(() => createSpectrumTexture(OPTIONS).update(new Uint8Array(8)));
+  expect(
+    messages.join("\n") ===
+      [
+        "Invalid spectrum size: 0",
+        "Invalid spectrum history: 1.5",
+        "Expected a spectrum of 64 bins, got 8",
+      ].join("\n"),
+    `Unexpected errors ${messages}`,
+  );
+});
+
+test("spectrum and spectrumHistory sample the texture from d", () => {
+  const sampler = spectrumUniform();
+  const t = createDynoTag({
+    vars: { u: 0.25, age: dyno.dynoFloat(0.5) },
+    functions: spectrumFunctions(sampler, 4),
+  });
+  const now = dumpGlsl(t`spectrum(u)`);
+  expect(now.includes("texture("), `Expected a texture lookup:\n${now}`);
+  expect(now.includes("0.125"), `Expected the newest row's centre:\n${now}`);
+  const past = dumpGlsl(t`spectrumHistory(u, age) * 2.0`);
+  expect(
+    /uniform sampler2D spectrum/.test(past),
+    `Expected the spectrum sampler:\n${past}`,
+  );
+  expect(
+    past.includes("0.125") && past.includes("0.875"),
+    `Expected the rows from the newest to the oldest:\n${past}`,
+  );
+});
@@ -0,0 +1,203 @@
+// Tests for offline analysis into timelines, their playback and WAV
+// decoding, run in Node: npm test
+import { analyserDecibels } from "../audio/fft.ts";
+import {
+  type TimelinePlayer,
+  analyseSamples,
+  createTimelinePlayer,
+  parseTimeline,
+  rms,
+} from "../audio/timeline.ts";
+import { decodeWav } from "../audio/wav.ts";
+import { expect, expectThrows, test } from "./harness.ts";
+
+const SAMPLE_RATE = 44100;
+
+// Tone bursts on every beat at 120 BPM from half a second in
+const CLICKS = Array.from({ length: 23 }, (_, i) => 0.5 + i * 0.5);
+
+function clickTrack(seconds: number) {
+  const samples = new Float32Array(seconds * SAMPLE_RATE);
+  for (const time of CLICKS) {
+    const start = Math.round(time * SAMPLE_RATE);
+    for (let i = 0; i < 0.03 * SAMPLE_RATE; i++) {
+      const t = i / SAMPLE_RATE;
+      samples[start + i] =
+        Math.sin(2 * Math.PI * 1000 * t) * Math.exp(-t / 0.008);
+    }
+  }
+  return samples;
+}
+
+const timeline = analyseSamples(clickTrack(12), SAMPLE_RATE, { rate: 50 });
+
+test("A track is analysed into frames at a fixed rate", () => {
+  expect(timeline.duration === 12, `Unexpected duration ${timeline.duration}`);
+  expect(timeline.rms.length === 601, `Got ${timeline.rms.length} frames`);
+  expect(
+    timeline.bands.length === 601 * 16 && timeline.edges.length === 17,
+    "Expected 16 bands a frame",
+  );
+  expect(
+    timeline.bands.every((level) => level >= 0 && level <= 1),
+    "Expected band levels from 0 to 1",
+  );
+  expect(timeline.onsets.length === CLICKS.length, "Expected an onset a click");
+  expect(timeline.beats.length > 15, `Only ${timeline.beats.length} beats`);
+  for (const beat of timeline.beats) {
+    const error = Math.min(...CLICKS.map((click) => Math.abs(click - beat)));
+    expect(error < 0.05, `Beat at ${beat} is ${error}s from a click`);
+  }
+});
+
+test("The same track gives the same timeline", () => {
+  const again = analyseSamples(clickTrack(12), SAMPLE_RATE, { rate: 50 });
+  expect(
+    JSON.stringify(again) === JSON.stringify(timeline),
+    "Expected identical timelines",
+  );
+});
+
+test("Playback depends only on the time, so seeking stays in sync", () => {
+  const at = (player: TimelinePlayer, time: number) => {
+    const { bands, rms, beat } = player.frame(time);
+    return JSON.stringify({ bands: [...bands], rms, beat });
+  };
+  const player = createTimelinePlayer(timeline);
+  const first = at(player, 7.3);
+  at(player, 2.1);
+  at(player, 11.9);
+  expect(at(player, 7.3) === first, "Expected the same frame after seeking");
+  expect(
+    at(createTimelinePlayer(timeline), 7.3) === first,
+    "Expected a fresh player to agree",
+  );
+});
+
+test("Playback interpolates between frames", () => {
+  const player = createTimelinePlayer(timeline);
+  const frame = 312;
+  const [a, b] = [timeline.rms[frame], timeline.rms[frame + 1]];
+  const { rms } = player.frame((frame + 0.5) / timeline.rate);
+  expect(
+    Math.abs(rms - (a + b) / 2) < 1e-6,
+    `Expected ${(a + b) / 2}, got ${rms}`,
+  );
+  expect(
+    player.frame(-1).rms === timeline.rms[0] &&
+      player.frame(99).rms === timeline.rms[600],
+    "Expected times clamped to the track",
+  );
+});
+
+test("Beats play back with their pulse, phase and bar", () => {
+  const player = createTimelinePlayer(timeline, { beatsPerBar: 4 });
+  const { beats } = timeline;
+  expect(player.frame(0).beat.beats === 0, "Expected no beats at the start");
+  const beat = player.frame(beats[5]).beat;
+  expect(
+    beat.beats === 6 && beat.bar === 1 && beat.beatInBar === 1,
+    `Unexpected count ${JSON.stringify(beat)}`,
+  );
+  expect(beat.pulse === 1, "Expected the pulse to peak on the beat");
+  expect(Math.abs(beat.bpm! - 120) < 2, `Expected 120 BPM, got ${beat.bpm}`);
+  const halfway = player.frame((beats[5] + beats[6]) / 2).beat;
+  expect(Math.abs(halfway.phase - 0.5) < 1e-6, "Expected half a beat");
+});
+
+test("Timelines round-trip through JSON, and bad ones are rejected", () => {
+  const parsed = parseTimeline(JSON.stringify(timeline));
+  expect(parsed.rms.length === timeline.rms.length, "Expected every frame");
+  expectThrows(
+    () => parseTimeline(JSON.stringify({ ...timeline, version: 2 })),
+    "Invalid timeline: unsupported version 2",
+  );
+  expectThrows(
+    () => parseTimeline(JSON.stringify({ ...timeline, beats: undefined })),
+    "Invalid timeline: missing beats",
+  );
+  expectThrows(
+    () => parseTimeline(JSON.stringify({ ...timeline, bands: [0.5] })),
+    "Invalid timeline: expected 9616 band levels, got 1",
+  );
+});
+
+test("Levels match an AnalyserNode's getFloatFrequencyData", () => {
+  // A sine centred on bin 64, whose window's peak is 0.42 of half its
+  // amplitude after the 1 / fftSize scaling
+  const sine = (amplitude: number) =>
+    analyserDecibels(
+      Float32Array.from(
+        { length: 2048 },
+        (_, i) => amplitude * Math.sin((2 * Math.PI * 64 * i) / 2048),
+      ),
+    );
+  const loud = sine(1);
+  expect(
+    Math.abs(loud[64] - 20 * Math.log10(0.21)) < 0.01,
+    `Expected about -13.56 dB, got ${loud[64]}`,
+  );
+  expect(
+    Math.abs(sine(0.5)[64] - loud[64] + 20 * Math.log10(2)) < 0.01,
+    "Expected half the amplitude 6 dB down",
+  );
+  expect(loud[80] < -100, `Expected little leakage, got ${loud[80]}`);
+});
+
+test("RMS level", () => {
+  const sine = Float32Array.from({ length: 4410 }, (_, i) =>
+    Math.sin((2 * Math.PI * 100 * i) / SAMPLE_RATE),
+  );
+  expect(Math.abs(rms(sine) - Math.SQRT1_2) < 1e-3, `Got ${rms(sine)}`);
+  expect(rms(new Float32Array(8)) === 0, "Expected silence to be 0");
+});
+
+// A WAV file of interleaved samples in the given format
+function wav(format: number, bits: number, channels: number, values: number[]) {
+  const bytes = bits / 8;
+  const buffer = new ArrayBuffer(44 + values.length * bytes);
+  const view = new DataView(buffer);
+  const text = (offset: number, value: string) =>
+    [...value].forEach((c, i) => view.setUint8(offset + i, c.charCodeAt(0)));
+  text(0, "RIFF");
+  view.setUint32(4, buffer.byteLength - 8, true);
+  text(8, "WAVE");
+  text(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, format, true);
+  view.setUint16(22, channels, true);
+  view.setUint32(24, 22050, true);
+  view.setUint16(34, bits, true);
+  text(36, "data");
+  view.setUint32(40, values.length * bytes, true);
+  values.forEach((value, i) => {
+    const at = 44 + i * bytes;
+    if (format === 3) {
+      view.setFloat32(at, value, true);
+    } else {
+      view.setInt16(at, value * 32767, true);
+    }
+  });
+  return buffer;
+}
+
+test("WAV files are decoded and mixed down to mono", () => {
+  const stereo = decodeWav(wav(1, 16, 2, [1, 0, -0.5, -0.5]));
+  expect(stereo.sampleRate === 22050, "Expected the file's sample rate");
+  expect(
+    stereo.samples.length === 2 &&
+      Math.abs(stereo.samples[0] - 0.5) < 1e-3 &&
+      Math.abs(stereo.samples[1] + 0.5) < 1e-3,
+    `Unexpected samples ${stereo.samples}`,
+  );
+  const float = decodeWav(wav(3, 32, 1, [0.25, -1]));
+  expect(
+    float.samples[0] === 0.25 && float.samples[1] === -1,
+    `Unexpected samples ${float.samples}`,
+  );
+  expectThrows(() => decodeWav(new ArrayBuffer(8)), "Not a WAV file");
+  expectThrows(
+    () => decodeWav(wav(2, 16, 1, [0])),
+    "Unsupported WAV format 2 with 16 bits and 1 channels",
+  );
+});
@@ -0,0 +1,126 @@
+// Tests for the uniform registry and its presets, run in Node: npm test
+import "./setup.ts";
+import { d } from "../dynoexp.ts";
+import { dumpGlsl } from "../dynodebug.ts";
+import { shaderBox } from "../shadergen.ts";
+import { defineUniforms } from "../uniforms.ts";
+import { expectEqual, expectThrows, test } from "./harness.ts";
+
+function makeRegistry() {
+  return defineUniforms({
+    speed: { type: "float", default: 1.5, min: 0, max: 5, group: "Motion" },
+    steps: { type: "int", default: 3, min: 1, max: 8 },
+    mirror: { type: "bool", default: false },
+    offset: { type: "vec2", default: [0, 1], min: -1, max: 1 },
+    tint: { type: "color", default: [1, 0.5, 0], group: "Look" },
+  });
+}
+
+test("Uniforms start at their defaults", () => {
+  const registry = makeRegistry();
+  expectEqual(registry.toPreset(), {
+    speed: 1.5,
+    steps: 3,
+    mirror: false,
+    offset: [0, 1],
+    tint: [1, 0.5, 0],
+  });
+  expectEqual(registry.uniforms.speed.type, "float");
+  expectEqual(registry.uniforms.tint.type, "vec3");
+  expectEqual(
+    [...registry.groups],
+    [
+      ["Motion", ["speed"]],
+      ["General", ["steps", "mirror", "offset"]],
+      ["Look", ["tint"]],
+    ],
+  );
+});
+
+test("Values are clamped to range", () => {
+  const registry = makeRegistry();
+  registry.set("speed", 9);
+  registry.set("steps", 2.6);
+  registry.set("offset", [-3, 0.25]);
+  registry.set("tint", [2, 0.5, -1]);
+  expectEqual(registry.uniforms.speed.value, 5);
+  expectEqual(registry.get("steps"), 3);
+  expectEqual(registry.get("offset"), [-1, 0.25]);
+  expectEqual(registry.get("tint"), [1, 0.5, 0]);
+});
+
+test("Values of the wrong type are rejected", () => {
+  const registry = makeRegistry();
+  expectThrows(
+    () => registry.set("speed", true),
+    'Uniform "speed" expects a number',
+  );
+  expectThrows(
+    () => registry.set("mirror", 1),
+    'Uniform "mirror" expects a boolean',
+  );
+  expectThrows(
+    () => registry.set("offset", [1, 2, 3]),
+    'Uniform "offset" expects 2 numbers',
+  );
+  expectThrows(
+    () => registry.set("size" as "speed", 1),
+    'Unknown uniform "size", expected one of speed, steps, mirror, offset, tint',
+  );
+});
+
+test("Presets round-trip through JSON", () => {
+  const registry = makeRegistry();
+  registry.set("speed", 2);
+  registry.set("mirror", true);
+  const json = registry.exportPreset();
+  const other = makeRegistry();
+  other.importPreset(json);
+  expectEqual(other.toPreset(), registry.toPreset());
+  other.reset();
+  expectEqual(other.toPreset(), makeRegistry().toPreset());
+});
+
+test("An invalid preset changes nothing", () => {
+  const registry = makeRegistry();
+  expectThrows(
+    () => registry.loadPreset({ speed: 4, mirror: "yes" }),
+    'Uniform "mirror" expects a boolean',
+  );
+  expectThrows(
+    () => registry.loadPreset({ speed: 4, size: 2 }),
+    'Unknown uniform "size", expected one of speed, steps, mirror, offset, tint',
+  );
+  expectThrows(
+    () => registry.loadPreset([1, 2]),
+    "A preset must be an object of uniform values",
+  );
+  expectEqual(registry.get("speed"), 1.5);
+});
+
+test("Listeners hear each change", () => {
+  const registry = makeRegistry();
+  const changed: string[] = [];
+  const remove = registry.onChange((name) => changed.push(name));
+  registry.loadPreset({ speed: 1, steps: 2 });
+  remove();
+  registry.set("speed", 3);
+  expectEqual(changed, ["speed", "steps"]);
+});
+
+test("shaderBox takes a registry as its globals", () => {
+  const registry = makeRegistry();
+  const box = shaderBox({
+    globals: registry,
+    infunc: (index, time, { speed, tint }) => ({
+      rgb: d`${tint} * sin(${time} * ${speed})`,
+    }),
+  });
+  const glsl = dumpGlsl(box);
+  // The compiler numbers uniform names to keep them unique
+  for (const line of [/uniform float speed_\d+;/, /uniform vec3 tint_\d+;/]) {
+    if (!line.test(glsl)) {
+      throw new Error(`Missing ${line} in:\n${glsl}`);
+    }
+  }
+});
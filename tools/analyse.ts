@@ -0,0 +1,31 @@
+//--
+// Analyse a WAV file into a feature timeline for playback:
+//
+//   npm run analyse -- song.wav [song.timeline.json]
+//
+// Without an output path the timeline is written next to the track. The page
+// looks there for one when it plays the track, e.g. lofi.timeline.json for
+// lofi.mp3 (convert other formats to WAV first, or use the page's Analyse
+// button, which can decode anything the browser plays).
+//--
+import { readFileSync, writeFileSync } from "node:fs";
+// Straight from the modules, as the index also loads Spark, which needs a page
+import { analyseSamples } from "../audio/timeline.ts";
+import { decodeWav } from "../audio/wav.ts";
+
+const [input, output = input?.replace(/\.[^./]+$/, "") + ".timeline.json"] =
+  process.argv.slice(2);
+if (!input) {
+  console.error("Usage: npm run analyse -- <track.wav> [timeline.json]");
+  process.exit(1);
+}
+
+const file = readFileSync(input);
+const { sampleRate, samples } = decodeWav(
+  file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength),
+);
+const timeline = analyseSamples(samples, sampleRate);
+writeFileSync(output, JSON.stringify(timeline));
+console.log(
+  `${output}: ${timeline.rms.length} frames, ${timeline.beats.length} beats over ${timeline.duration.toFixed(1)}s`,
+);
@@ -0,0 +1,320 @@
+//--
+// On-page tweak panel for a uniform registry
+//
+// createTweakPanel builds a DOM panel with a control per uniform, grouped as
+// the registry declares them: sliders for numbers and vector components, a
+// checkbox for booleans and a color picker for colors. Controls write to the
+// dyno uniforms as they move, and the panel can export the values as a JSON
+// preset file or import one. Given the scene's modulation matrix, the panel
+// also edits its routes as JSON, and presets carry the routes too. Given MIDI
+// bindings, each control gets a button to learn a knob for it.
+//--
+import { downloadFile, onFileChosen } from "./files.ts";
+import type { MidiBindings } from "./midi.ts";
+import {
+  type Modulation,
+  loadScenePreset,
+  toScenePreset,
+} from "./modulation.ts";
+import { type UniformRegistry, type UniformSpec, range } from "./uniforms.ts";
+
+const PANEL_STYLE = `
+  position: absolute; top: 60px; right: 20px; z-index: 1;
+  max-height: calc(100% - 80px); overflow-y: auto; width: 260px;
+  padding: 8px; background: rgba(0, 0, 0, 0.7); color: #ddd;
+  font: 12px monospace; border-radius: 4px;
+`;
+
+function element<K extends keyof HTMLElementTagNameMap>(
+  tag: K,
+  children: (Node | string)[] = [],
+) {
+  const node = document.createElement(tag);
+  node.append(...children);
+  return node;
+}
+
+function formatNumber(value: number) {
+  return String(Number(value.toFixed(4)));
+}
+
+function toHex(rgb: number[]) {
+  return `#${rgb
+    .map((x) =>
+      Math.round(Math.min(Math.max(x, 0), 1) * 255)
+        .toString(16)
+        .padStart(2, "0"),
+    )
+    .join("")}`;
+}
+
+function fromHex(hex: string) {
+  return [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16) / 255);
+}
+
+// A control for one uniform: its element, and a function that shows the
+// uniform's current value in it
+interface Control {
+  element: HTMLElement;
+  refresh: () => void;
+}
+
+function slider(
+  spec: UniformSpec,
+  read: () => number,
+  write: (value: number) => void,
+): Control {
+  const { min, max, step } = range(spec);
+  // Without a declared range, span from 0 to twice the starting value
+  const start = read();
+  const input = Object.assign(element("input"), {
+    type: "range",
+    min: String(min ?? Math.min(0, start * 2)),
+    max: String(max ?? Math.max(1, start * 2)),
+    step: String(step ?? 0.01),
+  });
+  const shown = element("span");
+  input.addEventListener("input", () => write(Number(input.value)));
+  const refresh = () => {
+    const value = read();
+    if (document.activeElement !== input) {
+      input.value = String(value);
+    }
+    shown.textContent = formatNumber(value);
+  };
+  return { element: element("div", [input, " ", shown]), refresh };
+}
+
+function control(registry: UniformRegistry, name: string): Control {
+  const spec = registry.specs[name];
+  if (spec.type === "bool") {
+    const input = Object.assign(element("input"), { type: "checkbox" });
+    input.addEventListener("change", () => registry.set(name, input.checked));
+    const refresh = () => {
+      input.checked = registry.get(name) as boolean;
+    };
+    return { element: input, refresh };
+  }
+  if (spec.type === "color") {
+    const input = Object.assign(element("input"), { type: "color" });
+    input.addEventListener("input", () => {
+      registry.set(name, fromHex(input.value));
+    });
+    const refresh = () => {
+      if (document.activeElement !== input) {
+        input.value = toHex(registry.get(name) as number[]);
+      }
+    };
+    return { element: input, refresh };
+  }
+  if (spec.type === "float" || spec.type === "int") {
+    return slider(
+      spec,
+      () => registry.get(name) as number,
+      (value) => registry.set(name, value),
+    );
+  }
+  // One slider per vector component
+  const size = (registry.get(name) as number[]).length;
+  const components = Array.from({ length: size }, (_, i) =>
+    slider(
+      spec,
+      () => (registry.get(name) as number[])[i],
+      (value) => {
+        const vector = registry.get(name) as number[];
+        vector[i] = value;
+        registry.set(name, vector);
+      },
+    ),
+  );
+  return {
+    element: element(
+      "div",
+      components.map(({ element }) => element),
+    ),
+    refresh: () => {
+      for (const { refresh } of components) {
+        refresh();
+      }
+    },
+  };
+}
+
+// The MIDI targets for a uniform: its name, or a name per component
+function midiTargets(registry: UniformRegistry, name: string) {
+  const value = registry.get(name);
+  if (!Array.isArray(value)) {
+    return [name];
+  }
+  const letters = registry.specs[name].type === "color" ? "rgb" : "xyzw";
+  return value.map((_, i) => `${name}.${letters[i]}`);
+}
+
+// A button that binds the next MIDI controller moved to a target, labelled
+// with the controller it is bound to
+function learnButton(midi: MidiBindings, target: string): Control {
+  const button = element("button");
+  button.title = `Move a MIDI control to bind it to ${target}`;
+  const isLearning = () => {
+    const { learning } = midi;
+    return !!learning && "target" in learning && learning.target === target;
+  };
+  button.addEventListener("click", (event) => {
+    event.preventDefault();
+    if (isLearning()) {
+      midi.cancelLearn();
+    } else {
+      midi.learnControl(target);
+    }
+  });
+  const refresh = () => {
+    const [binding] = midi.controlsFor(target);
+    button.textContent = isLearning()
+      ? "..."
+      : binding
+        ? `CC${binding.controller}`
+        : "MIDI";
+  };
+  return { element: button, refresh };
+}
+
+// Build a panel for `registry` and add it to `parent`. Call refresh() to show
+// values changed outside the panel without set(), such as by audio each frame.
+export function createTweakPanel(
+  registry: UniformRegistry,
+  {
+    parent = document.body,
+    title = "Tweaks",
+    presetName = "preset",
+    modulation,
+    midi,
+  }: {
+    parent?: HTMLElement;
+    title?: string;
+    // File name, without extension, for exported presets
+    presetName?: string;
+    modulation?: Modulation;
+    midi?: MidiBindings;
+  } = {},
+) {
+  const controls = new Map<string, Control>();
+  const learnButtons: Control[] = [];
+  const sections = [...registry.groups].map(([group, names]) => {
+    const rows = names.map((name) => {
+      const item = control(registry, name);
+      controls.set(name, item);
+      const label = registry.specs[name].label ?? name;
+      const buttons = midi
+        ? midiTargets(registry, name).map((target) => learnButton(midi, target))
+        : [];
+      learnButtons.push(...buttons);
+      const row = element("label", [
+        element("div", [label]),
+        item.element,
+        ...buttons.map(({ element }) => element),
+      ]);
+      row.style.cssText = "display: block; margin: 4px 0";
+      return row;
+    });
+    const section = element("details", [element("summary", [group]), ...rows]);
+    section.open = true;
+    return section;
+  });
+
+  function refresh() {
+    for (const { refresh } of controls.values()) {
+      refresh();
+    }
+  }
+
+  const exportButton = element("button", ["Export"]);
+  exportButton.addEventListener("click", () => {
+    const preset = modulation
+      ? JSON.stringify(toScenePreset(registry, modulation), null, 2)
+      : registry.exportPreset();
+    downloadFile(`${presetName}.json`, preset);
+  });
+
+  const fileInput = Object.assign(element("input"), {
+    type: "file",
+    accept: ".json",
+  });
+  fileInput.style.display = "none";
+  const importButton = element("button", ["Import"]);
+  onFileChosen(importButton, fileInput, (json) => {
+    if (modulation) {
+      loadScenePreset(JSON.parse(json), registry, modulation);
+    } else {
+      registry.importPreset(json);
+    }
+  });
+
+  const resetButton = element("button", ["Reset"]);
+  resetButton.addEventListener("click", () => registry.reset());
+
+  // The routes as JSON, applied when the button is pressed
+  let removeModulationListener: (() => void) | undefined;
+  if (modulation) {
+    const routes = element("textarea");
+    routes.rows = 12;
+    routes.spellcheck = false;
+    routes.style.cssText = "width: 100%; box-sizing: border-box";
+    const showRoutes = () => {
+      routes.value = modulation.exportMatrix();
+    };
+    const applyButton = element("button", ["Apply"]);
+    applyButton.addEventListener("click", () => {
+      try {
+        modulation.importMatrix(routes.value);
+      } catch (error) {
+        alert(`Could not apply the routes: ${(error as Error).message}`);
+      }
+    });
+    const section = element("details", [
+      element("summary", ["Modulation"]),
+      routes,
+      applyButton,
+    ]);
+    sections.push(section);
+    removeModulationListener = modulation.onChange(showRoutes);
+    showRoutes();
+  }
+
+  const refreshLearnButtons = () => {
+    for (const { refresh } of learnButtons) {
+      refresh();
+    }
+  };
+  const removeMidiListener = midi?.onChange(refreshLearnButtons);
+  refreshLearnButtons();
+
+  const panel = element("div", [
+    element("div", [
+      element("strong", [title]),
+      " ",
+      exportButton,
+      importButton,
+      resetButton,
+      fileInput,
+    ]),
+    ...sections,
+  ]);
+  panel.style.cssText = PANEL_STYLE;
+  parent.append(panel);
+
+  const removeListener = registry.onChange((name) => {
+    controls.get(name)?.refresh();
+  });
+  refresh();
+
+  return {
+    element: panel,
+    refresh,
+    dispose() {
+      removeListener();
+      removeModulationListener?.();
+      removeMidiListener?.();
+      panel.remove();
+    },
+  };
+}
@@ -0,0 +1,295 @@
+//--
+// Declarative uniform registry
+//
+// defineUniforms declares a set of named uniforms, each with a type, default,
+// range and group, and creates a dyno uniform for each. The registry reads and
+// writes their values, clamped to range, and saves and loads them as JSON
+// presets. tweakpanel.ts builds an on-page control panel from one, and
+// shaderBox accepts one as its globals. resolveTarget finds the uniform, or
+// vector component, that MIDI bindings and modulation routes write to.
+//--
+import * as THREE from "three";
+import { dyno } from "@sparkjsdev/spark";
+
+const { dynoBool, dynoFloat, dynoInt, dynoVec2, dynoVec3, dynoVec4 } = dyno;
+
+interface SpecBase {
+  // Shown in the panel; defaults to the uniform's name
+  label?: string;
+  // Panel section; uniforms without one go in "General"
+  group?: string;
+}
+
+interface RangeSpec extends SpecBase {
+  min?: number;
+  max?: number;
+  // Slider step; defaults to 1 for ints and 1/100 of the range for floats
+  step?: number;
+}
+
+export type UniformSpec =
+  | (RangeSpec & { type: "float" | "int"; default: number })
+  | (SpecBase & { type: "bool"; default: boolean })
+  | (RangeSpec & { type: "vec2"; default: [number, number] })
+  | (RangeSpec & { type: "vec3"; default: [number, number, number] })
+  | (RangeSpec & { type: "vec4"; default: [number, number, number, number] })
+  // A vec3 edited as an RGB color, each component from 0 to 1
+  | (SpecBase & { type: "color"; default: [number, number, number] });
+
+export type UniformType = UniformSpec["type"];
+
+type UniformSpecs = Record<string, UniformSpec>;
+
+// The dyno uniform created for a spec
+export type UniformOf<S extends UniformSpec> = S["type"] extends "float"
+  ? ReturnType<typeof dynoFloat>
+  : S["type"] extends "int"
+    ? ReturnType<typeof dynoInt>
+    : S["type"] extends "bool"
+      ? ReturnType<typeof dynoBool>
+      : S["type"] extends "vec2"
+        ? ReturnType<typeof dynoVec2<THREE.Vector2>>
+        : S["type"] extends "vec3" | "color"
+          ? ReturnType<typeof dynoVec3<THREE.Vector3>>
+          : ReturnType<typeof dynoVec4<THREE.Vector4>>;
+
+export type UniformsOf<S extends UniformSpecs> = {
+  [K in keyof S]: UniformOf<S[K]>;
+};
+
+// A uniform's value as stored in presets: a number, boolean or array of
+// vector components
+export type UniformValue = number | boolean | number[];
+
+export type UniformPreset = Record<string, UniformValue>;
+
+const VECTOR_SIZES: Partial<Record<UniformType, number>> = {
+  vec2: 2,
+  vec3: 3,
+  vec4: 4,
+  color: 3,
+};
+
+function createUniform(spec: UniformSpec, key: string) {
+  switch (spec.type) {
+    case "float":
+      return dynoFloat(spec.default, key);
+    case "int":
+      return dynoInt(spec.default, key);
+    case "bool":
+      return dynoBool(spec.default, key);
+    case "vec2":
+      return dynoVec2(new THREE.Vector2(...spec.default), key);
+    case "vec3":
+    case "color":
+      return dynoVec3(new THREE.Vector3(...spec.default), key);
+    case "vec4":
+      return dynoVec4(new THREE.Vector4(...spec.default), key);
+  }
+}
+
+export class UniformRegistry<S extends UniformSpecs = UniformSpecs> {
+  readonly specs: S;
+  // The dyno uniforms, by name, to use in shaders
+  readonly uniforms: UniformsOf<S>;
+  private listeners = new Set<(name: string) => void>();
+
+  constructor(specs: S) {
+    this.specs = specs;
+    const uniforms: Record<string, unknown> = {};
+    for (const [name, spec] of Object.entries(specs)) {
+      uniforms[name] = createUniform(spec, name);
+    }
+    this.uniforms = uniforms as UniformsOf<S>;
+  }
+
+  get names() {
+    return Object.keys(this.specs) as (keyof S & string)[];
+  }
+
+  // The uniforms' names by group, in declaration order
+  get groups() {
+    const groups = new Map<string, (keyof S & string)[]>();
+    for (const name of this.names) {
+      const group = this.specs[name].group ?? "General";
+      groups.set(group, [...(groups.get(group) ?? []), name]);
+    }
+    return groups;
+  }
+
+  private spec(name: string): UniformSpec {
+    if (!Object.hasOwn(this.specs, name)) {
+      throw new Error(
+        `Unknown uniform "${name}", expected one of ${this.names.join(", ")}`,
+      );
+    }
+    return this.specs[name];
+  }
+
+  get(name: keyof S & string): UniformValue {
+    const spec = this.spec(name);
+    const { value } = this.uniforms[name] as { value: unknown };
+    if (VECTOR_SIZES[spec.type]) {
+      return (value as { toArray(): number[] }).toArray();
+    }
+    return value as number | boolean;
+  }
+
+  // Set a uniform, clamping it to its range. Throws if the value is of the
+  // wrong type.
+  set(name: keyof S & string, value: UniformValue) {
+    const spec = this.spec(name);
+    const uniform = this.uniforms[name] as { value: unknown };
+    const size = VECTOR_SIZES[spec.type];
+    if (size) {
+      if (
+        !Array.isArray(value) ||
+        value.length !== size ||
+        !value.every((x) => Number.isFinite(x))
+      ) {
+        throw new Error(`Uniform "${name}" expects ${size} numbers`);
+      }
+      const components = value.map((x) => this.clamp(spec, x));
+      (uniform.value as { fromArray(array: number[]): void }).fromArray(
+        components,
+      );
+    } else if (spec.type === "bool") {
+      if (typeof value !== "boolean") {
+        throw new Error(`Uniform "${name}" expects a boolean`);
+      }
+      uniform.value = value;
+    } else {
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        throw new Error(`Uniform "${name}" expects a number`);
+      }
+      const clamped = this.clamp(spec, value);
+      uniform.value = spec.type === "int" ? Math.round(clamped) : clamped;
+    }
+    for (const listener of this.listeners) {
+      listener(name);
+    }
+  }
+
+  private clamp(spec: UniformSpec, value: number) {
+    const { min, max } = range(spec);
+    return Math.min(Math.max(value, min ?? -Infinity), max ?? Infinity);
+  }
+
+  reset() {
+    for (const name of this.names) {
+      this.set(name, this.specs[name].default);
+    }
+  }
+
+  // Called with a uniform's name after set() changes it. Returns a function
+  // that removes the listener.
+  onChange(listener: (name: keyof S & string) => void) {
+    const added = listener as (name: string) => void;
+    this.listeners.add(added);
+    return () => {
+      this.listeners.delete(added);
+    };
+  }
+
+  // The current values of all the uniforms
+  toPreset(): UniformPreset {
+    return Object.fromEntries(this.names.map((name) => [name, this.get(name)]));
+  }
+
+  // Set the uniforms named in a preset, leaving the rest as they are. If any
+  // value is invalid, none of them change.
+  loadPreset(preset: unknown) {
+    if (!preset || typeof preset !== "object" || Array.isArray(preset)) {
+      throw new Error("A preset must be an object of uniform values");
+    }
+    const entries = Object.entries(preset);
+    for (const [name] of entries) {
+      this.spec(name);
+    }
+    const previous = this.toPreset();
+    try {
+      for (const [name, value] of entries) {
+        this.set(name, value);
+      }
+    } catch (error) {
+      for (const [name, value] of Object.entries(previous)) {
+        this.set(name, value);
+      }
+      throw error;
+    }
+  }
+
+  exportPreset() {
+    return JSON.stringify(this.toPreset(), null, 2);
+  }
+
+  importPreset(json: string) {
+    this.loadPreset(JSON.parse(json));
+  }
+}
+
+// min, max and step for a spec, filling in those implied by its type
+export function range(spec: UniformSpec) {
+  if (spec.type === "color") {
+    return { min: 0, max: 1, step: 0.01 };
+  }
+  if (spec.type === "bool") {
+    return {};
+  }
+  const { min, max } = spec;
+  const step =
+    spec.step ??
+    (spec.type === "int"
+      ? 1
+      : min !== undefined && max !== undefined
+        ? (max - min) / 100
+        : 0.01);
+  return { min, max, step };
+}
+
+// Vector components by name, for targets such as "offset.y" or "color1.r"
+const COMPONENTS: Record<string, number> = {
+  x: 0,
+  y: 1,
+  z: 2,
+  w: 3,
+  r: 0,
+  g: 1,
+  b: 2,
+  a: 3,
+};
+
+// A uniform's name, and the index of one of its components if it is a vector
+export interface UniformTarget {
+  name: string;
+  index?: number;
+}
+
+// The uniform, or component of a vector uniform, that a target such as
+// "speed" or "color1.r" names, or the reason it names none
+export function resolveTarget(
+  uniforms: Record<string, unknown>,
+  target: string,
+): UniformTarget | string {
+  const [name, component, ...rest] = target.split(".");
+  if (!Object.hasOwn(uniforms, name) || rest.length > 0) {
+    return `is not one of ${Object.keys(uniforms).join(", ")}`;
+  }
+  const { value } = uniforms[name] as { value: unknown };
+  const vector = value as { toArray?(): number[] };
+  if (typeof vector?.toArray !== "function") {
+    return component === undefined
+      ? { name }
+      : `is a ${typeof value}, with no components`;
+  }
+  const index = Object.hasOwn(COMPONENTS, component)
+    ? COMPONENTS[component]
+    : undefined;
+  return index !== undefined && index < vector.toArray().length
+    ? { name, index }
+    : `needs a component of ${name}, e.g. ${name}.x`;
+}
+
+export function defineUniforms<S extends UniformSpecs>(specs: S) {
+  return new UniformRegistry(specs);
+}